@@ -0,0 +1,66 @@
+// Shared authentication for serverless functions
+// Verifies the Supabase session JWT sent by the client as a Bearer token
+const { createClient } = require('@supabase/supabase-js');
+
+let supabase = null;
+
+// Create the Supabase client once per function instance
+const getSupabaseClient = () => {
+  if (!supabase) {
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.REACT_APP_SUPABASE_URL;
+    const supabaseKey = process.env.SUPABASE_ANON_KEY || process.env.REACT_APP_SUPABASE_ANON_KEY;
+    
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Supabase is not configured. Please set SUPABASE_URL and SUPABASE_ANON_KEY.');
+    }
+    
+    supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false }
+    });
+  }
+  
+  return supabase;
+};
+
+/**
+ * Get the signed-in user for a request, or send a 401 response
+ * @param req Request
+ * @param res Response
+ * @returns The Supabase user, or null if the response has already been sent
+ */
+const requireUser = async (req, res) => {
+  const header = req.headers.authorization || req.headers.Authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  
+  if (!token) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Sign in to use the AI features'
+    });
+    return null;
+  }
+  
+  try {
+    const { data, error } = await getSupabaseClient().auth.getUser(token);
+    
+    if (error || !data?.user) {
+      console.warn('Rejected request with invalid session token:', error?.message);
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Your session has expired. Please sign in again.'
+      });
+      return null;
+    }
+    
+    return data.user;
+  } catch (error) {
+    console.error('Error verifying session token:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Could not verify the session'
+    });
+    return null;
+  }
+};
+
+module.exports = { requireUser };
@@ -0,0 +1,39 @@
+// CORS headers for the serverless functions
+// Requests carry the user's session, so only the app's own origins may call them from a browser
+
+// Origins from APP_ORIGIN (comma-separated), plus the deployment's own URL on Vercel
+const getAllowedOrigins = () => {
+  const origins = (process.env.APP_ORIGIN || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+
+  if (process.env.VERCEL_URL) {
+    origins.push(`https://${process.env.VERCEL_URL}`);
+  }
+
+  return origins;
+};
+
+/**
+ * Set the CORS headers for a request
+ * Other origins get no Access-Control-Allow-Origin header, so browsers refuse them the response.
+ * Same-origin requests from the app don't need the headers at all.
+ * @param req Request
+ * @param res Response
+ * @param methods Allowed methods, e.g. 'POST, OPTIONS'
+ */
+const setCorsHeaders = (req, res, methods) => {
+  const origin = req.headers.origin;
+
+  // Responses differ by origin, so caches must not share them
+  res.setHeader('Vary', 'Origin');
+
+  if (origin && getAllowedOrigins().includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', methods);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  }
+};
+
+module.exports = { setCorsHeaders };
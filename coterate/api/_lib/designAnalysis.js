@@ -0,0 +1,62 @@
+// Structured design analysis returned by the improvement routes
+// Mirrors DesignAnalysis in src/types.ts; the client checks it again on receipt
+
+const SEVERITIES = ['critical', 'major', 'minor'];
+const CATEGORIES = ['hierarchy', 'color', 'typography', 'spacing', 'consistency', 'accessibility', 'usability'];
+
+// Appended to analysis prompts so the model answers in the DesignAnalysis shape
+const DESIGN_ANALYSIS_FORMAT = `Respond ONLY with a JSON object with this structure:
+{
+  "summary": "One or two sentences on the design's main problems",
+  "issues": [
+    {
+      "title": "Short name for the issue",
+      "severity": "critical" | "major" | "minor",
+      "category": ${CATEGORIES.map(category => `"${category}"`).join(' | ')},
+      "componentIds": ["ids of the affected components, if any were given; otherwise []"],
+      "changes": [{ "property": "backgroundColor", "before": "#f5f5f5", "after": "#ffffff" }],
+      "rationale": "Why the change improves the design"
+    }
+  ]
+}`;
+
+const toValue = value => (typeof value === 'number' || typeof value === 'string' ? value : undefined);
+
+/**
+ * Check an analysis from the model, dropping issues that don't fit the model
+ * @param value Parsed model output
+ * @returns Analysis, or null if the value isn't one
+ */
+const normalizeDesignAnalysis = (value) => {
+  if (!value || typeof value !== 'object' || !Array.isArray(value.issues)) return null;
+
+  const issues = value.issues
+    .filter(issue => issue && typeof issue.title === 'string' && issue.title.trim())
+    .map((issue, index) => ({
+      id: `issue-${index}`,
+      title: issue.title.trim(),
+      severity: SEVERITIES.includes(issue.severity) ? issue.severity : 'minor',
+      category: CATEGORIES.includes(issue.category) ? issue.category : 'usability',
+      componentIds: Array.isArray(issue.componentIds) ? issue.componentIds.filter(id => typeof id === 'string') : [],
+      changes: Array.isArray(issue.changes)
+        ? issue.changes
+            .filter(change => change && typeof change.property === 'string')
+            .map(change => ({ property: change.property, before: toValue(change.before), after: toValue(change.after) }))
+        : [],
+      rationale: typeof issue.rationale === 'string' ? issue.rationale : ''
+    }));
+
+  return {
+    summary: typeof value.summary === 'string' ? value.summary : '',
+    issues
+  };
+};
+
+// Analysis without issues, for when the model couldn't be asked
+const emptyDesignAnalysis = (summary) => ({ summary, issues: [] });
+
+module.exports = {
+  DESIGN_ANALYSIS_FORMAT,
+  normalizeDesignAnalysis,
+  emptyDesignAnalysis
+};
@@ -0,0 +1,150 @@
+// Per-user and per-IP usage quotas for the AI serverless functions
+// Every call reserves a row in the ai_usage table before it runs and fills in what it used
+// afterwards; limits are daily (UTC) and can be raised for individual users through the
+// ai_quotas table
+const { createClient } = require('@supabase/supabase-js');
+
+// Daily limits used when a user has no row in ai_quotas
+const DEFAULT_LIMITS = {
+  requests: Number(process.env.AI_QUOTA_DAILY_REQUESTS) || 100,
+  tokens: Number(process.env.AI_QUOTA_DAILY_TOKENS) || 200000,
+  images: Number(process.env.AI_QUOTA_DAILY_IMAGES) || 20
+};
+
+// Shared by every account behind one address
+const IP_DAILY_REQUESTS = Number(process.env.AI_QUOTA_IP_DAILY_REQUESTS) || 300;
+
+let supabaseAdmin = null;
+
+// Usage rows are written for every user, so this client needs the service role key
+const getSupabaseAdmin = () => {
+  if (!supabaseAdmin) {
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.REACT_APP_SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Usage quotas are not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.');
+    }
+
+    supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false }
+    });
+  }
+
+  return supabaseAdmin;
+};
+
+// Client address as reported by the Vercel proxy
+const getClientIp = (req) => {
+  const forwardedFor = req.headers['x-forwarded-for'];
+
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+
+  return req.headers['x-real-ip'] || req.socket?.remoteAddress || 'unknown';
+};
+
+// Quotas reset at midnight UTC
+const getQuotaWindow = () => {
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+
+  const resetAt = new Date(start);
+  resetAt.setUTCDate(resetAt.getUTCDate() + 1);
+
+  return { start, resetAt };
+};
+
+// Send the structured over-quota response
+const sendQuotaExceeded = (res, quota) => {
+  const retryAfterSeconds = Math.max(1, Math.ceil((new Date(quota.resetAt).getTime() - Date.now()) / 1000));
+  const subject = quota.scope === 'ip' ? 'This network has' : 'You have';
+
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  res.status(429).json({
+    error: 'Too Many Requests',
+    code: 'QUOTA_EXCEEDED',
+    message: `${subject} reached the daily AI ${quota.metric} limit (${quota.used}/${quota.limit}).`,
+    quota
+  });
+};
+
+/**
+ * Reserve a call against the caller's daily quotas before spending the server's API keys, or send a 429 response
+ * The check and the reservation are one step in the database (reserve_ai_usage), so parallel calls
+ * can't all pass the check and go over the limit together. A call that fails still counts as a request.
+ * @param req Request
+ * @param res Response
+ * @param user Signed-in Supabase user
+ * @param options.route Name of the serverless function
+ * @param options.imageGenerations Number of images the call will generate
+ * @returns The reservation to pass to recordUsage, or null if the response has already been sent
+ */
+const requireQuota = async (req, res, user, { route, imageGenerations = 0 }) => {
+  try {
+    const { start, resetAt } = getQuotaWindow();
+
+    const { data, error } = await getSupabaseAdmin().rpc('reserve_ai_usage', {
+      p_user_id: user.id,
+      p_ip: getClientIp(req),
+      p_route: route,
+      p_image_generations: imageGenerations,
+      p_since: start.toISOString(),
+      p_daily_requests: DEFAULT_LIMITS.requests,
+      p_daily_tokens: DEFAULT_LIMITS.tokens,
+      p_daily_images: DEFAULT_LIMITS.images,
+      p_ip_daily_requests: IP_DAILY_REQUESTS
+    });
+
+    if (error) throw error;
+
+    if (!data.allowed) {
+      console.warn(`Quota exceeded for user ${user.id} (${data.scope} ${data.metric}: ${data.used}/${data.limit})`);
+      sendQuotaExceeded(res, {
+        scope: data.scope,
+        metric: data.metric,
+        limit: data.limit,
+        used: data.used,
+        resetAt: resetAt.toISOString()
+      });
+      return null;
+    }
+
+    return { id: data.usage_id, route };
+  } catch (error) {
+    console.error('Error checking usage quota:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Could not check the usage quota'
+    });
+    return null;
+  }
+};
+
+/**
+ * Record what a reserved call used. Failures are logged, since the call itself has already succeeded.
+ * Calls that generate fewer images than they reserved, e.g. because generation failed, give the rest back.
+ * @param reservation Reservation returned by requireQuota
+ * @param usage.tokens OpenAI usage object (prompt_tokens, completion_tokens, total_tokens)
+ * @param usage.imageGenerations Number of images generated
+ */
+const recordUsage = async (reservation, { tokens, imageGenerations = 0 } = {}) => {
+  try {
+    const { error } = await getSupabaseAdmin()
+      .from('ai_usage')
+      .update({
+        prompt_tokens: tokens?.prompt_tokens || 0,
+        completion_tokens: tokens?.completion_tokens || 0,
+        total_tokens: tokens?.total_tokens || 0,
+        image_generations: imageGenerations
+      })
+      .eq('id', reservation.id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error(`Error recording usage for ${reservation.route}:`, error);
+  }
+};
+
+module.exports = { requireQuota, recordUsage };
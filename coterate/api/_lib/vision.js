@@ -0,0 +1,325 @@
+// Shared vision model calls for serverless functions
+// API keys, endpoints and limits are fixed here, so the client can only pick a provider
+// and model, and send a prompt and an image
+const axios = require('axios');
+const { requireUser } = require('./auth');
+const { requireQuota, recordUsage } = require('./quota');
+const { setCorsHeaders } = require('./cors');
+
+const OPENAI_VISION_URL = 'https://api.openai.com/v1/chat/completions';
+const OPENAI_VISION_MODEL = 'gpt-4o';
+
+const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-latest';
+
+// Any OpenAI-compatible server the deployment can reach, e.g. Ollama next to `vercel dev`
+const DEFAULT_LOCAL_ENDPOINT = 'http://localhost:11434/v1';
+const DEFAULT_LOCAL_MODEL = 'llava';
+
+const VISION_PROVIDERS = ['openai', 'anthropic', 'local'];
+
+// Largest request the routes accept, to keep abuse of the key in check
+const MAX_PROMPT_LENGTH = 20000;
+const MAX_IMAGE_LENGTH = 15 * 1024 * 1024;
+
+// Model names as providers write them, e.g. claude-3-5-sonnet-latest or llava:13b
+const MODEL_NAME = /^[\w.:/-]{1,100}$/;
+
+// Clean up a key from the environment by removing any quotes or extra whitespace
+const readKey = (value) => {
+  if (!value) {
+    return null;
+  }
+
+  return value.toString()
+    .replace(/["']/g, '')
+    .replace(/\s+/g, '')
+    .trim();
+};
+
+const getOpenAIKey = () => readKey(process.env.OPENAI_API_KEY);
+
+const missingKeyError = (name) => {
+  const error = new Error(`${name} is missing. Please check your environment variables.`);
+  error.status = 500;
+  return error;
+};
+
+// Images go to the models as data URLs
+const toDataUrl = (imageBase64) => imageBase64.startsWith('data:image')
+  ? imageBase64
+  : `data:image/png;base64,${imageBase64}`;
+
+/**
+ * Check the prompt, image and provider sent by the client
+ * @param body Request body
+ * @param options.requireImage Whether the route needs an image
+ * @returns Error message, or null if the body is valid
+ */
+const validateVisionBody = (body, { requireImage }) => {
+  const { prompt, systemPrompt, imageBase64, provider, model } = body || {};
+
+  if (typeof prompt !== 'string' || !prompt.trim()) {
+    return 'Missing required parameter: prompt';
+  }
+
+  if (prompt.length + (systemPrompt || '').length > MAX_PROMPT_LENGTH) {
+    return `Prompt is too long (max ${MAX_PROMPT_LENGTH} characters)`;
+  }
+
+  if (requireImage && (typeof imageBase64 !== 'string' || !imageBase64)) {
+    return 'Missing required parameter: imageBase64';
+  }
+
+  if (imageBase64 && imageBase64.length > MAX_IMAGE_LENGTH) {
+    return 'Image is too large';
+  }
+
+  if (provider !== undefined && !VISION_PROVIDERS.includes(provider)) {
+    return `Unknown provider: must be one of ${VISION_PROVIDERS.join(', ')}`;
+  }
+
+  if (model !== undefined && (typeof model !== 'string' || !MODEL_NAME.test(model))) {
+    return 'Invalid model name';
+  }
+
+  return null;
+};
+
+// Chat messages for OpenAI-compatible APIs
+const toChatMessages = ({ systemPrompt, prompt, imageBase64 }) => {
+  const messages = [];
+
+  if (systemPrompt) {
+    messages.push({ role: 'system', content: systemPrompt });
+  }
+
+  messages.push({
+    role: 'user',
+    content: imageBase64
+      ? [
+          { type: 'text', text: prompt },
+          { type: 'image_url', image_url: { url: toDataUrl(imageBase64), detail: 'high' } }
+        ]
+      : prompt
+  });
+
+  return messages;
+};
+
+/**
+ * Send a prompt, and optionally an image, to the OpenAI vision model
+ * @param request.systemPrompt Optional system prompt
+ * @param request.prompt User prompt
+ * @param request.imageBase64 Optional image, as base64 or a data URL
+ * @param request.maxTokens Token limit chosen by the route
+ * @param request.temperature Temperature chosen by the route
+ * @returns The text content of the model's reply and the token usage OpenAI reports
+ */
+const callOpenAIVision = async ({ systemPrompt, prompt, imageBase64, maxTokens, temperature }) => {
+  const apiKey = getOpenAIKey();
+
+  if (!apiKey) {
+    throw missingKeyError('OpenAI API key');
+  }
+
+  const response = await axios.post(
+    OPENAI_VISION_URL,
+    {
+      model: OPENAI_VISION_MODEL,
+      messages: toChatMessages({ systemPrompt, prompt, imageBase64 }),
+      max_tokens: maxTokens,
+      temperature
+    },
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      }
+    }
+  );
+
+  return {
+    content: response.data.choices?.[0]?.message?.content || '',
+    usage: response.data.usage,
+    model: OPENAI_VISION_MODEL
+  };
+};
+
+/**
+ * Send a prompt, and optionally an image, to an Anthropic model
+ * @param request Same as callOpenAIVision, plus the model to use
+ * @returns The text content of the reply, with the usage in OpenAI's shape
+ */
+const callAnthropicVision = async ({ systemPrompt, prompt, imageBase64, model = DEFAULT_ANTHROPIC_MODEL, maxTokens, temperature }) => {
+  const apiKey = readKey(process.env.ANTHROPIC_API_KEY);
+
+  if (!apiKey) {
+    throw missingKeyError('Anthropic API key');
+  }
+
+  const content = [];
+
+  if (imageBase64) {
+    // Anthropic takes the raw base64 data and its media type separately
+    const match = toDataUrl(imageBase64).match(/^data:(image\/[a-z+]+);base64,(.*)$/);
+    content.push({
+      type: 'image',
+      source: {
+        type: 'base64',
+        media_type: match ? match[1] : 'image/png',
+        data: match ? match[2] : imageBase64
+      }
+    });
+  }
+
+  content.push({ type: 'text', text: prompt });
+
+  const response = await axios.post(
+    ANTHROPIC_MESSAGES_URL,
+    {
+      model,
+      system: systemPrompt,
+      messages: [{ role: 'user', content }],
+      max_tokens: maxTokens,
+      temperature
+    },
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      }
+    }
+  );
+
+  const usage = response.data.usage || {};
+
+  return {
+    content: (response.data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join(''),
+    usage: {
+      prompt_tokens: usage.input_tokens || 0,
+      completion_tokens: usage.output_tokens || 0,
+      total_tokens: (usage.input_tokens || 0) + (usage.output_tokens || 0)
+    },
+    model
+  };
+};
+
+/**
+ * Send a prompt, and optionally an image, to the deployment's OpenAI-compatible server
+ * The endpoint comes from LOCAL_AI_ENDPOINT, never from the client.
+ * @param request Same as callOpenAIVision, plus the model to use
+ * @returns The text content of the reply and the usage the server reports
+ */
+const callLocalVision = async ({ systemPrompt, prompt, imageBase64, model = DEFAULT_LOCAL_MODEL, maxTokens, temperature }) => {
+  const endpoint = (process.env.LOCAL_AI_ENDPOINT || DEFAULT_LOCAL_ENDPOINT).replace(/\/+$/, '');
+  const apiKey = readKey(process.env.LOCAL_AI_API_KEY);
+
+  const response = await axios.post(
+    `${endpoint}/chat/completions`,
+    {
+      model,
+      messages: toChatMessages({ systemPrompt, prompt, imageBase64 }),
+      max_tokens: maxTokens,
+      temperature
+    },
+    {
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+      }
+    }
+  );
+
+  return {
+    content: response.data.choices?.[0]?.message?.content || '',
+    usage: response.data.usage,
+    model
+  };
+};
+
+/**
+ * Send a request to the chosen provider
+ * OpenAI always uses the server's model; the other providers take the client's choice.
+ * @param request.provider openai, anthropic or local
+ * @param request.model Optional model override
+ * @returns The text content of the reply, the usage and the model that answered
+ */
+const callVisionModel = ({ provider = 'openai', model, ...request }) => {
+  switch (provider) {
+    case 'anthropic':
+      return callAnthropicVision({ ...request, model: model || undefined });
+    case 'local':
+      return callLocalVision({ ...request, model: model || undefined });
+    case 'openai':
+    default:
+      return callOpenAIVision(request);
+  }
+};
+
+/**
+ * Build a serverless handler for one vision task
+ * @param options.name Task name used in logs
+ * @param options.requireImage Whether the task needs an image
+ * @param options.maxTokens Token limit for the task
+ * @param options.temperature Temperature for the task
+ * @returns Serverless request handler
+ */
+const createVisionHandler = ({ name, requireImage, maxTokens, temperature }) => {
+  return async (req, res) => {
+    // Set CORS headers
+    setCorsHeaders(req, res, 'POST, OPTIONS');
+
+    // Handle preflight requests
+    if (req.method === 'OPTIONS') {
+      return res.status(200).end();
+    }
+
+    // Only allow POST requests
+    if (req.method !== 'POST') {
+      return res.status(405).json({
+        error: 'Method Not Allowed',
+        message: 'Only POST requests are supported for this endpoint'
+      });
+    }
+
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    const validationError = validateVisionBody(req.body, { requireImage });
+    if (validationError) {
+      return res.status(400).json({
+        error: 'Bad Request',
+        message: validationError
+      });
+    }
+
+    const reservation = await requireQuota(req, res, user, { route: name });
+    if (!reservation) return;
+
+    const { systemPrompt, prompt, imageBase64, provider = 'openai', model } = req.body;
+
+    try {
+      console.log(`${name}: calling ${provider} for user ${user.id}`);
+      const result = await callVisionModel({ provider, model, systemPrompt, prompt, imageBase64, maxTokens, temperature });
+
+      await recordUsage(reservation, { tokens: result.usage });
+
+      return res.status(200).json({ content: result.content, model: result.model });
+    } catch (error) {
+      console.error(`Error in ${name}:`, error.response?.data || error);
+
+      // Pass the provider's status through so the client can tell rate limits from outages
+      const status = error.response?.status || error.status || 500;
+      return res.status(status).json({
+        error: `${provider} API error: ${error.response?.data?.error?.message || error.message || 'Unknown error'}`
+      });
+    }
+  };
+};
+
+module.exports = { callOpenAIVision, callVisionModel, createVisionHandler, validateVisionBody, OPENAI_VISION_MODEL };
@@ -0,0 +1,9 @@
+// Serverless function for text-only design analysis
+const { createVisionHandler } = require('./_lib/vision');
+
+module.exports = createVisionHandler({
+  name: 'analysis',
+  requireImage: false,
+  maxTokens: 2000,
+  temperature: 0.7
+});
@@ -0,0 +1,9 @@
+// Serverless function for component analysis and improvement suggestions
+const { createVisionHandler } = require('./_lib/vision');
+
+module.exports = createVisionHandler({
+  name: 'analyze-components',
+  requireImage: true,
+  maxTokens: 4000,
+  temperature: 0.3
+});
@@ -1,9 +1,9 @@
 // Debugging endpoint to check environment variables and request handling
+const { setCorsHeaders } = require('./_lib/cors');
+
 module.exports = (req, res) => {
   // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  setCorsHeaders(req, res, 'GET, POST, PUT, DELETE, OPTIONS');
   
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
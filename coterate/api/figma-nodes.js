@@ -0,0 +1,76 @@
+// Serverless function for importing designs from Figma
+// Fetches a node from the Figma REST API with the server's access token for signed-in users
+const axios = require('axios');
+const { requireUser } = require('./_lib/auth');
+const { setCorsHeaders } = require('./_lib/cors');
+
+const FIGMA_API_URL = 'https://api.figma.com/v1';
+
+// File keys are alphanumeric; node ids look like "12:34" (or "12-34" in share links)
+const FILE_KEY_PATTERN = /^[A-Za-z0-9]+$/;
+const NODE_ID_PATTERN = /^[0-9]+[:-][0-9]+$/;
+
+module.exports = async (req, res) => {
+  // Set CORS headers
+  setCorsHeaders(req, res, 'GET, OPTIONS');
+  
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      error: 'Method Not Allowed',
+      message: 'Only GET requests are supported for this endpoint'
+    });
+  }
+  
+  const user = await requireUser(req, res);
+  if (!user) return;
+  
+  const { fileKey, nodeId } = req.query || {};
+  
+  if (typeof fileKey !== 'string' || !FILE_KEY_PATTERN.test(fileKey)) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'Missing or invalid parameter: fileKey'
+    });
+  }
+  
+  if (typeof nodeId !== 'string' || !NODE_ID_PATTERN.test(nodeId)) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'Missing or invalid parameter: nodeId. Copy a link to a frame in Figma.'
+    });
+  }
+  
+  const accessToken = process.env.FIGMA_ACCESS_TOKEN;
+  
+  if (!accessToken) {
+    return res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Figma access token is missing. Please set FIGMA_ACCESS_TOKEN.'
+    });
+  }
+  
+  try {
+    console.log(`figma-nodes: fetching ${fileKey} ${nodeId} for user ${user.id}`);
+    
+    const response = await axios.get(`${FIGMA_API_URL}/files/${fileKey}/nodes`, {
+      params: { ids: nodeId.replace('-', ':') },
+      headers: { 'X-Figma-Token': accessToken.trim() }
+    });
+    
+    return res.status(200).json(response.data);
+  } catch (error) {
+    console.error('Error in figma-nodes:', error.response?.data || error);
+    
+    // Pass Figma's status through so the client can tell missing files from outages
+    const status = error.response?.status || 500;
+    return res.status(status).json({
+      error: `Figma API error: ${error.response?.data?.err || error.message || 'Unknown error'}`
+    });
+  }
+};
@@ -1,11 +1,13 @@
 // Enhanced serverless function for UI improvement using OpenAI and Stability AI
 const axios = require('axios');
+const { requireUser } = require('./_lib/auth');
+const { requireQuota, recordUsage } = require('./_lib/quota');
+const { DESIGN_ANALYSIS_FORMAT, normalizeDesignAnalysis, emptyDesignAnalysis } = require('./_lib/designAnalysis');
+const { setCorsHeaders } = require('./_lib/cors');
 
 module.exports = async (req, res) => {
   // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  setCorsHeaders(req, res, 'GET, POST, PUT, DELETE, OPTIONS');
   
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
@@ -20,20 +22,27 @@ module.exports = async (req, res) => {
     });
   }
 
+  // Only signed-in users may spend the server's API keys
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  // Get request data
+  // initImage: generate from this image (a 1024px square) instead of from the prompt alone
+  const { imageBase64, customPrompt, initImage } = req.body || {};
+  
+  if (!imageBase64) {
+    return res.status(400).json({ 
+      error: 'Bad Request', 
+      message: 'Missing required parameter: imageBase64'
+    });
+  }
+
+  const reservation = await requireQuota(req, res, user, { route: 'improve-ui', imageGenerations: 1 });
+  if (!reservation) return;
+
   try {
     // Log request details for debugging
     console.log('Request method:', req.method);
-    console.log('Request headers:', JSON.stringify(req.headers));
-    
-    // Get request data
-    const { imageBase64, customPrompt } = req.body || {};
-    
-    if (!imageBase64) {
-      return res.status(400).json({ 
-        error: 'Bad Request', 
-        message: 'Missing required parameter: imageBase64'
-      });
-    }
     
     // Format image for API requests
     const formattedImage = imageBase64.startsWith('data:') 
@@ -41,11 +50,14 @@ module.exports = async (req, res) => {
       : imageBase64;
     
     // === STEP 1: Analyze the UI design using OpenAI ===
-    let analysis = '';
+    let analysis = emptyDesignAnalysis('');
+    let analysisTokens = null;
+    // Set when a step falls back instead of answering, so clients don't keep the result
+    let degraded = false;
     
     try {
       // Check for OpenAI API key
-      const openaiKey = process.env.OPENAI_API_KEY || process.env.REACT_APP_OPENAI_API_KEY;
+      const openaiKey = process.env.OPENAI_API_KEY;
       
       if (!openaiKey) {
         console.warn('OpenAI API key is missing, skipping analysis step');
@@ -55,7 +67,8 @@ module.exports = async (req, res) => {
           !key.includes('PATH') &&
           !key.includes('HOME')
         ));
-        analysis = "UI design analysis skipped due to missing API key.";
+        analysis = emptyDesignAnalysis('UI design analysis skipped due to missing API key.');
+        degraded = true;
       } else {
         // Clean up the API key by removing any quotes or extra whitespace
         const cleanedApiKey = openaiKey.toString()
@@ -73,7 +86,7 @@ Focus on:
 5. Consistency
 6. Usability and accessibility
 
-Format your response as a structured analysis with clear sections.`;
+${DESIGN_ANALYSIS_FORMAT}`;
 
         // Add custom prompt if provided
         if (customPrompt) {
@@ -103,7 +116,8 @@ Format your response as a structured analysis with clear sections.`;
                 ]
               }
             ],
-            max_tokens: 1500
+            max_tokens: 1500,
+            response_format: { type: 'json_object' }
           },
           {
             headers: {
@@ -113,20 +127,34 @@ Format your response as a structured analysis with clear sections.`;
           }
         );
 
-        analysis = openaiResponse.data.choices[0].message.content;
+        analysisTokens = openaiResponse.data.usage;
+        
+        const content = openaiResponse.data.choices[0].message.content;
+        let parsed = null;
+        try {
+          parsed = normalizeDesignAnalysis(JSON.parse(content));
+        } catch (parseError) {
+          console.error('OpenAI analysis is not valid JSON:', parseError);
+        }
+        
+        // Keep free text the model returned anyway as the summary rather than losing it
+        analysis = parsed || emptyDesignAnalysis(content);
+        degraded = !parsed;
         console.log('✅ OpenAI analysis successful');
       }
     } catch (analysisError) {
       console.error('❌ Error in OpenAI analysis:', analysisError);
-      analysis = "Failed to analyze UI design. Continuing with image generation.";
+      analysis = emptyDesignAnalysis('Failed to analyze UI design. Continuing with image generation.');
+      degraded = true;
     }
     
     // === STEP 2: Generate improved UI design using Stability AI ===
     let improvedImage = '';
+    let imageGenerations = 0;
     
     try {
       // Check for Stability API key
-      const stabilityKey = process.env.STABILITY_API_KEY || process.env.REACT_APP_STABILITY_API_KEY;
+      const stabilityKey = process.env.STABILITY_API_KEY;
       
       if (!stabilityKey) {
         console.warn('Stability API key is missing, using local canvas-based fallback');
@@ -145,7 +173,7 @@ Format your response as a structured analysis with clear sections.`;
       }
 
       // Make the request to Stability AI API
-      const stabilityResponse = await axios.post(
+      const stabilityResponse = initImage ? await generateFromImage(stabilityKey, imagePrompt, initImage) : await axios.post(
         'https://api.stability.ai/v1/generation/stable-diffusion-xl-1024-v1-0/text-to-image',
         {
           text_prompts: [
@@ -171,11 +199,13 @@ Format your response as a structured analysis with clear sections.`;
 
       // Get the generated image
       improvedImage = `data:image/png;base64,${stabilityResponse.data.artifacts[0].base64}`;
+      imageGenerations = 1;
       console.log('✅ Stability AI image generation successful');
       
     } catch (generationError) {
       console.error('❌ Error in Stability AI image generation:', generationError);
       console.log('Using canvas-based fallback for image enhancement');
+      degraded = true;
       
       try {
         // Implement a canvas-based enhancement logic
@@ -190,13 +220,19 @@ Format your response as a structured analysis with clear sections.`;
       }
     }
     
+    await recordUsage(reservation, { tokens: analysisTokens, imageGenerations });
+    
     // Return both the analysis and improved image
     return res.status(200).json({
       analysis,
-      image: improvedImage
+      image: improvedImage,
+      degraded
     });
   } catch (error) {
     console.error('Error in improve-ui endpoint:', error);
+
+    // No image was generated, so give the reserved one back
+    await recordUsage(reservation);
     
     return res.status(500).json({
       error: 'Internal Server Error',
@@ -205,14 +241,50 @@ Format your response as a structured analysis with clear sections.`;
   }
 };
 
+// Image-to-image generation, so the result keeps the layout and content of the image it starts from
+async function generateFromImage(stabilityKey, prompt, initImage) {
+  const formattedInitImage = initImage.startsWith('data:') ? initImage.split(',')[1] : initImage;
+
+  const form = new FormData();
+  form.append('init_image', new Blob([Buffer.from(formattedInitImage, 'base64')], { type: 'image/png' }), 'init.png');
+  form.append('init_image_mode', 'IMAGE_STRENGTH');
+  form.append('image_strength', '0.35'); // How much of the original survives
+  form.append('text_prompts[0][text]', prompt);
+  form.append('text_prompts[0][weight]', '1');
+  form.append('cfg_scale', '7');
+  form.append('samples', '1');
+  form.append('steps', '30');
+
+  // axios 0.27 can't send a multipart body built with FormData, so this one uses fetch
+  const response = await fetch('https://api.stability.ai/v1/generation/stable-diffusion-xl-1024-v1-0/image-to-image', {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${stabilityKey}`
+    },
+    body: form
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(`Stability image-to-image failed (${response.status}): ${data.message || 'Unknown error'}`);
+  }
+
+  // Shaped like the axios response of a text-to-image request
+  return { data };
+}
+
 // Helper function to extract key improvements from the analysis
 function extractImprovements(analysis) {
-  // Extract key points from the analysis
-  // This is a simple implementation - you might want to enhance this
-  const lines = analysis.split('\n');
-  const improvements = lines
-    .filter(line => line.trim().startsWith('-') || line.trim().match(/^\d+\./))
-    .map(line => line.trim().replace(/^-|\d+\.\s*/, ''))
+  // The issue titles, with the values they change to
+  const improvements = analysis.issues
+    .map(issue => {
+      const changes = issue.changes
+        .filter(change => change.after !== undefined)
+        .map(change => `${change.property} ${change.after}`)
+        .join(', ');
+      return changes ? `${issue.title} (${changes})` : issue.title;
+    })
     .join(', ');
   
   return improvements || 'Improve visual hierarchy, color scheme, typography, layout, and usability';
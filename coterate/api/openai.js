@@ -1,11 +1,12 @@
 // Serverless function for OpenAI API calls
 import axios from 'axios';
+import { requireUser } from './_lib/auth';
+import { setCorsHeaders } from './_lib/cors';
+import { requireQuota, recordUsage } from './_lib/quota';
 
 export default async function handler(req, res) {
   // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  setCorsHeaders(req, res, 'GET, POST, PUT, DELETE, OPTIONS');
   
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
@@ -17,9 +18,16 @@ export default async function handler(req, res) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // Only signed-in users may spend the server's API keys
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  const reservation = await requireQuota(req, res, user, { route: 'openai' });
+  if (!reservation) return;
+
   try {
     // Get the OpenAI API key from environment variables
-    const apiKey = process.env.OPENAI_API_KEY || process.env.REACT_APP_OPENAI_API_KEY;
+    const apiKey = process.env.OPENAI_API_KEY;
     
     if (!apiKey) {
       console.error('OpenAI API key is missing. Available env vars:', Object.keys(process.env).filter(key => !key.includes('NODE_') && !key.includes('npm_')));
@@ -83,6 +91,8 @@ Format your response as a structured analysis with clear sections.`;
       }
     );
 
+    await recordUsage(reservation, { tokens: response.data.usage });
+
     // Return the analysis
     return res.status(200).json({
       analysis: response.data.choices[0].message.content
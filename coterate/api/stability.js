@@ -1,11 +1,12 @@
 // Serverless function for Stability AI API calls
 import axios from 'axios';
+import { requireUser } from './_lib/auth';
+import { setCorsHeaders } from './_lib/cors';
+import { requireQuota, recordUsage } from './_lib/quota';
 
 export default async function handler(req, res) {
   // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  setCorsHeaders(req, res, 'GET, POST, PUT, DELETE, OPTIONS');
   
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
@@ -17,22 +18,29 @@ export default async function handler(req, res) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  try {
-    // Get the Stability API key from environment variables
-    const apiKey = process.env.STABILITY_API_KEY || process.env.REACT_APP_STABILITY_API_KEY;
-    
-    if (!apiKey) {
-      console.error('Stability API key is missing. Available env vars:', Object.keys(process.env).filter(key => !key.includes('NODE_') && !key.includes('npm_')));
-      return res.status(500).json({ error: 'Stability API key is missing. Please check your environment variables.' });
-    }
+  // Only signed-in users may spend the server's API keys
+  const user = await requireUser(req, res);
+  if (!user) return;
 
-    // Get the request body
-    const { analysis, customPrompt } = req.body;
-    
-    if (!analysis) {
-      return res.status(400).json({ error: 'Analysis data is required' });
-    }
+  // Get the Stability API key from environment variables
+  const apiKey = process.env.STABILITY_API_KEY;
+  
+  if (!apiKey) {
+    console.error('Stability API key is missing. Available env vars:', Object.keys(process.env).filter(key => !key.includes('NODE_') && !key.includes('npm_')));
+    return res.status(500).json({ error: 'Stability API key is missing. Please check your environment variables.' });
+  }
 
+  // Get the request body
+  const { analysis, customPrompt } = req.body || {};
+  
+  if (!analysis) {
+    return res.status(400).json({ error: 'Analysis data is required' });
+  }
+
+  const reservation = await requireQuota(req, res, user, { route: 'stability', imageGenerations: 1 });
+  if (!reservation) return;
+
+  try {
     // Extract key improvements from the analysis
     const improvements = extractImprovements(analysis);
     
@@ -71,6 +79,8 @@ export default async function handler(req, res) {
 
     // Get the generated image
     const generatedImage = response.data.artifacts[0].base64;
+
+    await recordUsage(reservation, { imageGenerations: 1 });
     
     // Return the image
     return res.status(200).json({
@@ -78,6 +88,9 @@ export default async function handler(req, res) {
     });
   } catch (error) {
     console.error('Error in Stability AI API call:', error);
+
+    // No image was generated, so give the reserved one back
+    await recordUsage(reservation);
     
     // Provide more specific error messages
     if (error.response) {
@@ -0,0 +1,182 @@
+// Coterate Import
+// Creates editable layers from the node tree exported by Coterate's Export dialog
+// (see src/services/figmaExportService.ts for the format)
+
+const EXPORT_FORMAT = 'coterate-figma';
+const EXPORT_VERSION = 1;
+const FALLBACK_FONT = { family: 'Inter', style: 'Regular' };
+
+// Font styles for numeric weights, as named in most Google fonts
+const FONT_STYLES = {
+  100: 'Thin',
+  200: 'Extra Light',
+  300: 'Light',
+  400: 'Regular',
+  500: 'Medium',
+  600: 'Semi Bold',
+  700: 'Bold',
+  800: 'Extra Bold',
+  900: 'Black'
+};
+
+figma.showUI(__html__, { width: 320, height: 320 });
+
+const getFontName = (style) => ({
+  family: style.fontFamily || FALLBACK_FONT.family,
+  style: FONT_STYLES[style.fontWeight] || FALLBACK_FONT.style
+});
+
+const collectTextStyles = (node, styles) => {
+  if (node.type === 'TEXT' && node.style) styles.push(node.style);
+  (node.children || []).forEach(child => collectTextStyles(child, styles));
+  return styles;
+};
+
+// Load every font the export uses; fonts that aren't installed fall back to Inter
+const loadFonts = async (root) => {
+  const loaded = {};
+  const fontNames = collectTextStyles(root, []).map(getFontName);
+
+  await figma.loadFontAsync(FALLBACK_FONT);
+
+  for (const fontName of fontNames) {
+    const key = `${fontName.family}/${fontName.style}`;
+    if (key in loaded) continue;
+
+    try {
+      await figma.loadFontAsync(fontName);
+      loaded[key] = fontName;
+    } catch (error) {
+      console.warn(`Font ${key} is not available, using Inter instead`);
+      loaded[key] = FALLBACK_FONT;
+    }
+  }
+
+  return (style) => {
+    const fontName = getFontName(style);
+    return loaded[`${fontName.family}/${fontName.style}`] || FALLBACK_FONT;
+  };
+};
+
+// Images are data URLs or URLs of the saved design
+const loadImages = async (images) => {
+  const hashes = {};
+
+  for (const imageRef of Object.keys(images || {})) {
+    const source = images[imageRef];
+
+    try {
+      const image = source.startsWith('data:')
+        ? figma.createImage(figma.base64Decode(source.slice(source.indexOf(',') + 1)))
+        : await figma.createImageAsync(source);
+      hashes[imageRef] = image.hash;
+    } catch (error) {
+      console.warn(`Could not load image ${imageRef}`, error);
+    }
+  }
+
+  return hashes;
+};
+
+const toPaints = (paints, imageHashes) => (paints || [])
+  .map(paint => {
+    if (paint.type === 'SOLID') {
+      return {
+        type: 'SOLID',
+        color: { r: paint.color.r, g: paint.color.g, b: paint.color.b },
+        opacity: paint.color.a
+      };
+    }
+
+    if (paint.type === 'IMAGE' && imageHashes[paint.imageRef]) {
+      return { type: 'IMAGE', scaleMode: paint.scaleMode || 'FILL', imageHash: imageHashes[paint.imageRef] };
+    }
+
+    return null;
+  })
+  .filter(Boolean);
+
+// Exported boxes are absolute; Figma positions children relative to their parent frame
+const createNode = (exportedNode, parentBox, context) => {
+  const box = exportedNode.absoluteBoundingBox;
+  let node;
+
+  if (exportedNode.type === 'TEXT') {
+    node = figma.createText();
+    node.fontName = context.getFont(exportedNode.style || {});
+    node.characters = exportedNode.characters || '';
+    node.textAutoResize = 'NONE';
+
+    if (exportedNode.style) {
+      node.fontSize = exportedNode.style.fontSize;
+      node.textAlignHorizontal = exportedNode.style.textAlignHorizontal;
+      node.textAlignVertical = exportedNode.style.textAlignVertical;
+    }
+  } else if (exportedNode.type === 'RECTANGLE') {
+    node = figma.createRectangle();
+  } else {
+    node = figma.createFrame();
+    node.clipsContent = Boolean(exportedNode.clipsContent);
+  }
+
+  node.name = exportedNode.name;
+  node.x = box.x - parentBox.x;
+  node.y = box.y - parentBox.y;
+  // Figma doesn't allow zero-size nodes
+  node.resize(Math.max(box.width, 0.01), Math.max(box.height, 0.01));
+  node.fills = toPaints(exportedNode.fills, context.imageHashes);
+
+  if (exportedNode.strokes) {
+    node.strokes = toPaints(exportedNode.strokes, context.imageHashes);
+    node.strokeWeight = exportedNode.strokeWeight || 1;
+  }
+
+  if (exportedNode.cornerRadius && exportedNode.type !== 'TEXT') {
+    node.cornerRadius = exportedNode.cornerRadius;
+  }
+
+  if (exportedNode.type === 'FRAME') {
+    (exportedNode.children || []).forEach(child => {
+      node.appendChild(createNode(child, box, context));
+    });
+  }
+
+  node.locked = Boolean(exportedNode.locked);
+  return node;
+};
+
+figma.ui.onmessage = async (message) => {
+  if (message.type !== 'import') return;
+
+  const exported = message.exported;
+
+  if (!exported || exported.format !== EXPORT_FORMAT || !exported.document) {
+    figma.ui.postMessage({ type: 'error', message: 'This is not a Coterate export.' });
+    return;
+  }
+
+  if (exported.version > EXPORT_VERSION) {
+    figma.ui.postMessage({ type: 'error', message: 'This export is from a newer version of Coterate. Please update the plugin.' });
+    return;
+  }
+
+  try {
+    const context = {
+      getFont: await loadFonts(exported.document),
+      imageHashes: await loadImages(exported.images)
+    };
+
+    const frame = createNode(exported.document, exported.document.absoluteBoundingBox, context);
+    frame.x = Math.round(figma.viewport.center.x - frame.width / 2);
+    frame.y = Math.round(figma.viewport.center.y - frame.height / 2);
+
+    figma.currentPage.appendChild(frame);
+    figma.currentPage.selection = [frame];
+    figma.viewport.scrollAndZoomIntoView([frame]);
+
+    figma.closePlugin(`Imported ${exported.name}`);
+  } catch (error) {
+    console.error('Error importing Coterate export', error);
+    figma.ui.postMessage({ type: 'error', message: `Import failed: ${error.message}` });
+  }
+};
@@ -4,6 +4,7 @@ import { Sidebar } from './components/Sidebar';
 import { Canvas } from './components/Canvas';
 import { PageProvider } from './contexts/PageContext';
 import { AuthProvider } from './contexts/AuthContext';
+import { SettingsProvider } from './contexts/SettingsContext';
 import { useAuth } from './contexts/AuthContext';
 import { Login } from './components/Auth';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
@@ -20,12 +21,14 @@ const AppContainer = styled.div`
 
 const AuthenticatedApp = () => {
   return (
-    <PageProvider>
-      <AppContainer>
-        <Sidebar />
-        <Canvas />
-      </AppContainer>
-    </PageProvider>
+    <SettingsProvider>
+      <PageProvider>
+        <AppContainer>
+          <Sidebar />
+          <Canvas />
+        </AppContainer>
+      </PageProvider>
+    </SettingsProvider>
   );
 };
 
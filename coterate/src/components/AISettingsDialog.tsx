@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { useSettings } from '../contexts/SettingsContext';
+import { AICacheSettings, VisionProviderId, VisionProviderSettings } from '../types';
+import { DEFAULT_AI_CACHE_SETTINGS, clearAICache } from '../services/aiCache';
+
+const Field = styled.div`
+  margin-bottom: 16px;
+`;
+
+const Select = styled.select`
+  width: 100%;
+  padding: 8px 12px;
+  border-radius: 6px;
+  border: 1px solid #e0e0e0;
+  font-size: 14px;
+  font-family: inherit;
+`;
+
+const Input = styled.input`
+  width: 100%;
+  padding: 8px 12px;
+  border-radius: 6px;
+  border: 1px solid #e0e0e0;
+  font-size: 14px;
+  font-family: inherit;
+  box-sizing: border-box;
+`;
+
+const CheckboxLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin-top: 8px;
+  font-size: 14px;
+  cursor: pointer;
+`;
+
+const HelpText = styled.p`
+  margin: 6px 0 0;
+  font-size: 12px;
+  color: #6b7280;
+`;
+
+const PROVIDER_OPTIONS: { id: VisionProviderId; label: string; modelPlaceholder: string; help: string }[] = [
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    modelPlaceholder: 'gpt-4o',
+    help: 'Runs through the app\'s serverless functions, which choose the model.'
+  },
+  {
+    id: 'anthropic',
+    label: 'Anthropic',
+    modelPlaceholder: 'claude-3-5-sonnet-latest',
+    help: 'Runs through the app\'s serverless functions, which need ANTHROPIC_API_KEY.'
+  },
+  {
+    id: 'local',
+    label: 'Local (OpenAI-compatible)',
+    modelPlaceholder: 'llava',
+    help: 'The OpenAI-compatible server, e.g. Ollama, that the serverless functions reach at LOCAL_AI_ENDPOINT. The model must accept images.'
+  },
+  {
+    id: 'mock',
+    label: 'Mock (offline fixtures)',
+    modelPlaceholder: 'fixtures',
+    help: 'Replays recorded responses from src/fixtures/mock-ai. No network or API keys needed.'
+  }
+];
+
+interface AISettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function AISettingsDialog({ isOpen, onClose }: AISettingsDialogProps) {
+  const { settings, updateSettings } = useSettings();
+  const [draft, setDraft] = useState<VisionProviderSettings>(settings.aiProvider);
+  const [cacheDraft, setCacheDraft] = useState<AICacheSettings>(settings.aiCache || DEFAULT_AI_CACHE_SETTINGS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings.aiProvider);
+      setCacheDraft(settings.aiCache || DEFAULT_AI_CACHE_SETTINGS);
+      setCacheCleared(false);
+    }
+  }, [isOpen, settings.aiProvider, settings.aiCache]);
+
+  const selectedOption = PROVIDER_OPTIONS.find(option => option.id === draft.provider) || PROVIDER_OPTIONS[0];
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    // Models are provider specific, so don't carry one over
+    setDraft({ provider: e.target.value as VisionProviderId });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    await updateSettings({
+      aiProvider: {
+        provider: draft.provider,
+        model: draft.model?.trim() || undefined
+      },
+      aiCache: cacheDraft
+    });
+    setIsSaving(false);
+    onClose();
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearAICache();
+      setCacheCleared(true);
+    } catch (error) {
+      console.error('Failed to clear the AI cache:', error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>AI Settings</DialogTitle>
+        </DialogHeader>
+
+        <Field>
+          <Label htmlFor="ai-provider">Vision model provider</Label>
+          <Select id="ai-provider" value={draft.provider} onChange={handleProviderChange}>
+            {PROVIDER_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </Select>
+          <HelpText>{selectedOption.help}</HelpText>
+        </Field>
+
+        {(draft.provider === 'anthropic' || draft.provider === 'local') && (
+          <Field>
+            <Label htmlFor="ai-model">Model</Label>
+            <Input
+              id="ai-model"
+              value={draft.model || ''}
+              placeholder={selectedOption.modelPlaceholder}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+            />
+          </Field>
+        )}
+
+        <Field>
+          <Label>Cached results</Label>
+          <CheckboxLabel>
+            <input
+              type="checkbox"
+              checked={cacheDraft.enabled}
+              onChange={(e) => setCacheDraft({ ...cacheDraft, enabled: e.target.checked })}
+            />
+            Reuse results for the same image and prompt
+          </CheckboxLabel>
+          <CheckboxLabel>
+            <input
+              type="checkbox"
+              checked={cacheDraft.shareWithTeam}
+              disabled={!cacheDraft.enabled}
+              onChange={(e) => setCacheDraft({ ...cacheDraft, shareWithTeam: e.target.checked })}
+            />
+            Share cached results with the team
+          </CheckboxLabel>
+          <HelpText>Shift-click Iterate, Variants or Improve Region to ask the AI again instead.</HelpText>
+        </Field>
+
+        <Field>
+          <Button variant="secondary" onClick={handleClearCache} disabled={cacheCleared}>
+            {cacheCleared ? 'Cache cleared' : 'Clear this device\'s cache'}
+          </Button>
+        </Field>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
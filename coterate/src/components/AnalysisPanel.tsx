@@ -1,8 +1,20 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import styled from 'styled-components';
-import { usePageContext } from '../contexts/PageContext';
-import { aiService } from '../services/aiService';
-import { DesignIteration } from '../types';
+import { DesignIteration, DesignIssueSeverity, DesignIssueCategory } from '../types';
+import { diffImages, ImageDiffResult } from '../services/imageDiffService';
+import { auditComponents, AuditStatus } from '../services/accessibilityAudit';
+import { useImageSize } from '../hooks/useImageSize';
+import {
+  parseDesignAnalysis,
+  DESIGN_ISSUE_SEVERITIES,
+  DESIGN_ISSUE_CATEGORIES
+} from '../services/designAnalysisService';
+
+const SEVERITY_COLORS: Record<DesignIssueSeverity, string> = {
+  critical: '#e53935',
+  major: '#fb8c00',
+  minor: '#4a90e2'
+};
 
 const PanelContainer = styled.div`
   position: absolute;
@@ -140,11 +152,71 @@ const ColorSwatch = styled.span<{ color: string }>`
   border: 1px solid rgba(0, 0, 0, 0.1);
 `;
 
+// Free-text analyses saved before issues existed keep their line breaks
 const OverallAnalysis = styled.div`
   background-color: #f9f9f9;
   border-radius: 8px;
   padding: 16px;
   margin-bottom: 20px;
+  
+  p {
+    white-space: pre-wrap;
+  }
+`;
+
+const FilterBar = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 6px;
+  margin-bottom: 16px;
+  
+  select {
+    margin-left: auto;
+    padding: 4px 8px;
+    border: 1px solid #e0e0e0;
+    border-radius: 4px;
+    font-size: 12px;
+    font-family: inherit;
+  }
+`;
+
+const FilterChip = styled.button<{ active: boolean, color: string }>`
+  padding: 4px 10px;
+  border-radius: 12px;
+  border: 1px solid ${props => props.active ? props.color : '#e0e0e0'};
+  background-color: ${props => props.active ? props.color : 'white'};
+  color: ${props => props.active ? 'white' : '#555'};
+  font-size: 12px;
+  text-transform: capitalize;
+  cursor: pointer;
+  font-family: inherit;
+`;
+
+const IssueCard = styled(ComponentCard)<{ severity: DesignIssueSeverity }>`
+  border-left: 4px solid ${props => SEVERITY_COLORS[props.severity]};
+`;
+
+const IssueMeta = styled.div`
+  display: flex;
+  gap: 6px;
+  flex-shrink: 0;
+`;
+
+const Badge = styled.span<{ color: string }>`
+  padding: 2px 8px;
+  border-radius: 10px;
+  background-color: ${props => props.color}1a;
+  color: ${props => props.color};
+  font-size: 11px;
+  font-weight: 600;
+  text-transform: capitalize;
+`;
+
+const AffectedComponents = styled.div`
+  font-size: 12px;
+  color: #777;
+  margin-top: 8px;
 `;
 
 const TabContainer = styled.div`
@@ -168,36 +240,158 @@ const Tab = styled.button<{ active: boolean }>`
   }
 `;
 
+const DiffFrame = styled.div`
+  position: relative;
+  margin-bottom: 12px;
+  border-radius: 4px;
+  overflow: hidden;
+  border: 1px solid #e0e0e0;
+  
+  img {
+    display: block;
+    width: 100%;
+  }
+`;
+
+// Stretched over the design; the heatmap has the design's aspect ratio
+const HeatmapOverlay = styled.img`
+  position: absolute;
+  inset: 0;
+  width: 100%;
+  height: 100%;
+  pointer-events: none;
+`;
+
+const DiffBox = styled.div`
+  position: absolute;
+  border: 2px solid #4a90e2;
+  box-sizing: border-box;
+  pointer-events: none;
+`;
+
+const DiffOption = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  font-size: 13px;
+  color: #555;
+  margin-bottom: 16px;
+`;
+
+const AUDIT_COLORS: Record<AuditStatus, string> = {
+  pass: '#0f9d58',
+  fail: '#e53935',
+  skipped: '#999999'
+};
+
+const AuditCheckRow = styled.div<{ status: AuditStatus }>`
+  display: flex;
+  justify-content: space-between;
+  font-size: 13px;
+  margin-bottom: 4px;
+  color: ${props => AUDIT_COLORS[props.status]};
+`;
+
+const ScoreRow = styled.div`
+  padding: 8px 0;
+  border-bottom: 1px solid #f0f0f0;
+  font-size: 13px;
+  cursor: default;
+`;
+
+const ScoreLabel = styled.div`
+  display: flex;
+  justify-content: space-between;
+  margin-bottom: 4px;
+  
+  span:last-child {
+    font-weight: 600;
+  }
+`;
+
+const ScoreBar = styled.div<{ value: number }>`
+  height: 6px;
+  border-radius: 3px;
+  background-color: #f0f0f0;
+  overflow: hidden;
+  
+  &::after {
+    content: '';
+    display: block;
+    height: 100%;
+    width: ${props => props.value}%;
+    background-color: ${props => props.value > 50 ? '#e53935' : props.value > 15 ? '#fb8c00' : '#fdd835'};
+  }
+`;
+
 interface AnalysisPanelProps {
   selectedIteration: DesignIteration;
+  parentIteration?: DesignIteration; // Design the selected one was improved from
   onClose: () => void;
 }
 
 export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ 
   selectedIteration, 
+  parentIteration,
   onClose 
 }) => {
-  const { currentPage } = usePageContext();
-  const [analysis, setAnalysis] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'components'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'components' | 'accessibility' | 'diff'>('overview');
+  const [diff, setDiff] = useState<ImageDiffResult | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(true);
+  const [hoveredComponentId, setHoveredComponentId] = useState<string | null>(null);
+  const [severityFilter, setSeverityFilter] = useState<DesignIssueSeverity | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState<DesignIssueCategory | ''>('');
+
+  const analysis = useMemo(() => parseDesignAnalysis(selectedIteration.analysis), [selectedIteration.analysis]);
+  
+  // WCAG checks run locally on the detected attributes; target sizes need the design's pixel size
+  const imageSize = useImageSize(selectedIteration.image);
+  const audit = useMemo(
+    () => auditComponents(selectedIteration.components || [], imageSize),
+    [selectedIteration.components, imageSize]
+  );
+  const auditedComponents = audit.components.filter(componentAudit => componentAudit.status !== 'skipped');
 
-  // Load the analysis when the component mounts
+  // Compare with the parent design when the Diff tab is opened
   useEffect(() => {
-    if (selectedIteration && selectedIteration.analysis) {
-      setAnalysis(selectedIteration.analysis);
-    }
-  }, [selectedIteration]);
-
-  // Try to parse the analysis if it's JSON
-  let parsedAnalysis: any;
-  try {
-    parsedAnalysis = analysis ? JSON.parse(analysis) : null;
-  } catch (e) {
-    // If it's not valid JSON, just use the raw text
-    parsedAnalysis = null;
-  }
+    if (activeTab !== 'diff' || !parentIteration) return;
+    
+    let cancelled = false;
+    setIsDiffLoading(true);
+    setDiffError(null);
+    setDiff(null);
+    
+    diffImages(parentIteration.image, selectedIteration.image, selectedIteration.components || [])
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(error => {
+        console.error('Error comparing designs:', error);
+        if (!cancelled) setDiffError(error instanceof Error ? error.message : 'Could not compare the designs');
+      })
+      .finally(() => {
+        if (!cancelled) setIsDiffLoading(false);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, parentIteration, selectedIteration.image, selectedIteration.components]);
+
+  const hoveredComponent = selectedIteration.components?.find(component => component.id === hoveredComponentId);
+
+  const issues = analysis?.issues || [];
+  const visibleIssues = issues
+    .filter(issue => (!severityFilter || issue.severity === severityFilter) && (!categoryFilter || issue.category === categoryFilter))
+    .sort((a, b) => DESIGN_ISSUE_SEVERITIES.indexOf(a.severity) - DESIGN_ISSUE_SEVERITIES.indexOf(b.severity));
+  
+  const describeComponent = (id: string) => {
+    const component = selectedIteration.components?.find(candidate => candidate.id === id);
+    if (!component) return null;
+    return component.attributes.text ? `${component.type} "${component.attributes.text}"` : component.type;
+  };
   
   // Check if we have component data
   const hasComponentData = selectedIteration?.components && selectedIteration.components.length > 0;
@@ -235,31 +429,100 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
         >
           Components
         </Tab>
+        <Tab 
+          active={activeTab === 'accessibility'} 
+          onClick={() => setActiveTab('accessibility')}
+        >
+          Accessibility
+        </Tab>
+        <Tab 
+          active={activeTab === 'diff'} 
+          onClick={() => setActiveTab('diff')}
+        >
+          Diff
+        </Tab>
       </TabContainer>
       
       <AnalysisContent>
         {activeTab === 'overview' && (
           <>
-            {parsedAnalysis ? (
+            {analysis ? (
               <>
                 <OverallAnalysis>
                   <h4>Design Iteration Summary</h4>
-                  {parsedAnalysis.summary ? (
-                    <p>{parsedAnalysis.summary}</p>
+                  {analysis.summary ? (
+                    <p>{analysis.summary}</p>
                   ) : (
-                    <p>This iteration improves the UI design with targeted enhancements to {parsedAnalysis.componentCount || 'multiple'} components while preserving the original layout and structure.</p>
+                    <p>This iteration improves the UI design with targeted enhancements to {analysis.componentCount || 'multiple'} components while preserving the original layout and structure.</p>
                   )}
                   
-                  {parsedAnalysis.componentCount && (
-                    <p><strong>{parsedAnalysis.componentCount}</strong> components were analyzed and improved.</p>
-                  )}
+                  {analysis.componentCount ? (
+                    <p><strong>{analysis.componentCount}</strong> components were analyzed.</p>
+                  ) : null}
                 </OverallAnalysis>
                 
-                <h4>Analysis Details</h4>
-                <pre>{analysis}</pre>
+                {issues.length > 0 && (
+                  <>
+                    <h4>Issues ({visibleIssues.length} of {issues.length})</h4>
+                    <FilterBar>
+                      {DESIGN_ISSUE_SEVERITIES.map(severity => (
+                        <FilterChip
+                          key={severity}
+                          active={severityFilter === severity}
+                          color={SEVERITY_COLORS[severity]}
+                          onClick={() => setSeverityFilter(severityFilter === severity ? null : severity)}
+                        >
+                          {severity} ({issues.filter(issue => issue.severity === severity).length})
+                        </FilterChip>
+                      ))}
+                      <select
+                        value={categoryFilter}
+                        onChange={(e) => setCategoryFilter(e.target.value as DesignIssueCategory | '')}
+                      >
+                        <option value="">All categories</option>
+                        {DESIGN_ISSUE_CATEGORIES.map(category => (
+                          <option key={category} value={category}>{category}</option>
+                        ))}
+                      </select>
+                    </FilterBar>
+                    
+                    {visibleIssues.map(issue => {
+                      const affected = issue.componentIds.map(describeComponent).filter(Boolean);
+                      
+                      return (
+                        <IssueCard key={issue.id} severity={issue.severity}>
+                          <ComponentHeader>
+                            <ComponentType>{issue.title}</ComponentType>
+                            <IssueMeta>
+                              <Badge color={SEVERITY_COLORS[issue.severity]}>{issue.severity}</Badge>
+                              <Badge color="#555555">{issue.category}</Badge>
+                            </IssueMeta>
+                          </ComponentHeader>
+                          <ComponentBody>
+                            {issue.rationale && <p>{issue.rationale}</p>}
+                            {issue.changes.map(change => (
+                              <ImprovementProperty key={change.property}>
+                                <PropertyName>{change.property}:</PropertyName>
+                                <PropertyValue>
+                                  {change.before !== undefined && <>{formatColorValue(change.before)} → </>}
+                                  {formatColorValue(change.after ?? 'none')}
+                                </PropertyValue>
+                              </ImprovementProperty>
+                            ))}
+                            {affected.length > 0 && (
+                              <AffectedComponents>Affects {affected.join(', ')}</AffectedComponents>
+                            )}
+                          </ComponentBody>
+                        </IssueCard>
+                      );
+                    })}
+                    
+                    {visibleIssues.length === 0 && <p>No issues match these filters.</p>}
+                  </>
+                )}
               </>
             ) : (
-              <pre>{analysis}</pre>
+              <p>No analysis available for this iteration.</p>
             )}
           </>
         )}
@@ -287,35 +550,115 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                   </ComponentCard>
                 ))}
               </>
-            ) : parsedAnalysis && parsedAnalysis.improvements ? (
+            ) : (
+              <p>No component-level data available for this iteration.</p>
+            )}
+          </>
+        )}
+        
+        {activeTab === 'accessibility' && (
+          <>
+            {auditedComponents.length > 0 ? (
               <>
-                <h4>Component Improvements</h4>
-                {parsedAnalysis.improvements.map((improvement: any, index: number) => (
-                  <ComponentCard key={index}>
+                <OverallAnalysis>
+                  <p>
+                    <strong>{audit.failed}</strong> of {auditedComponents.length} checked components fail at least one WCAG 2.2 check.
+                    {!imageSize && ' Target sizes are checked once the design has loaded.'}
+                  </p>
+                </OverallAnalysis>
+                
+                <DiffFrame>
+                  <img src={selectedIteration.image} alt={selectedIteration.label} />
+                  {hoveredComponent && (
+                    <DiffBox
+                      style={{
+                        left: `${hoveredComponent.boundingBox.x}%`,
+                        top: `${hoveredComponent.boundingBox.y}%`,
+                        width: `${hoveredComponent.boundingBox.width}%`,
+                        height: `${hoveredComponent.boundingBox.height}%`
+                      }}
+                    />
+                  )}
+                </DiffFrame>
+                
+                {auditedComponents.map(componentAudit => (
+                  <ComponentCard
+                    key={componentAudit.componentId}
+                    onMouseEnter={() => setHoveredComponentId(componentAudit.componentId)}
+                    onMouseLeave={() => setHoveredComponentId(null)}
+                  >
                     <ComponentHeader>
-                      <ComponentType>{improvement.componentType}</ComponentType>
+                      <ComponentType>{componentAudit.type}{componentAudit.text ? ` "${componentAudit.text}"` : ''}</ComponentType>
+                      <Badge color={AUDIT_COLORS[componentAudit.status]}>{componentAudit.status}</Badge>
                     </ComponentHeader>
                     <ComponentBody>
-                      <p>{improvement.reasoning}</p>
-                      {improvement.improvements && Object.keys(improvement.improvements).length > 0 && (
-                        <>
-                          <h4>Applied Changes</h4>
-                          {Object.entries(improvement.improvements).map(([key, value]: [string, any]) => (
-                            <ImprovementProperty key={key}>
-                              <PropertyName>{key}:</PropertyName>
-                              <PropertyValue>
-                                {formatColorValue(value)}
-                              </PropertyValue>
-                            </ImprovementProperty>
-                          ))}
-                        </>
-                      )}
+                      {componentAudit.checks.filter(check => check.status !== 'skipped').map(check => (
+                        <AuditCheckRow key={check.id} status={check.status}>
+                          <span>{check.status === 'pass' ? '✓' : '✕'} {check.label}</span>
+                          <span>{check.value} (needs {check.requirement})</span>
+                        </AuditCheckRow>
+                      ))}
                     </ComponentBody>
                   </ComponentCard>
                 ))}
               </>
             ) : (
-              <p>No component-level data available for this iteration.</p>
+              <p>No components with colors, text or interactive types to check. Use the Components button to detect them.</p>
+            )}
+          </>
+        )}
+        
+        {activeTab === 'diff' && (
+          <>
+            {!parentIteration ? (
+              <p>Only improved designs can be compared with the design they came from.</p>
+            ) : isDiffLoading ? (
+              <p>Comparing with {parentIteration.label}...</p>
+            ) : diffError ? (
+              <p>{diffError}</p>
+            ) : diff && (
+              <>
+                <p><strong>{diff.changedPercent}%</strong> of the design changed compared with {parentIteration.label}.</p>
+                
+                <DiffFrame>
+                  <img src={selectedIteration.image} alt={selectedIteration.label} />
+                  {showHeatmap && <HeatmapOverlay src={diff.heatmap} alt="Changed pixels" />}
+                  {hoveredComponent && (
+                    <DiffBox
+                      style={{
+                        left: `${hoveredComponent.boundingBox.x}%`,
+                        top: `${hoveredComponent.boundingBox.y}%`,
+                        width: `${hoveredComponent.boundingBox.width}%`,
+                        height: `${hoveredComponent.boundingBox.height}%`
+                      }}
+                    />
+                  )}
+                </DiffFrame>
+                
+                <DiffOption>
+                  <input type="checkbox" checked={showHeatmap} onChange={(e) => setShowHeatmap(e.target.checked)} />
+                  Show heatmap
+                </DiffOption>
+                
+                <h4>Changes by Component</h4>
+                {diff.componentScores.length > 0 ? (
+                  diff.componentScores.map(score => (
+                    <ScoreRow
+                      key={score.componentId}
+                      onMouseEnter={() => setHoveredComponentId(score.componentId)}
+                      onMouseLeave={() => setHoveredComponentId(null)}
+                    >
+                      <ScoreLabel>
+                        <span>{score.type}{score.text ? ` "${score.text}"` : ''}</span>
+                        <span>{score.changedPercent}%</span>
+                      </ScoreLabel>
+                      <ScoreBar value={score.changedPercent} />
+                    </ScoreRow>
+                  ))
+                ) : (
+                  <p>This design has no components to score. Use the Components button to detect them.</p>
+                )}
+              </>
             )}
           </>
         )}
@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import styled from 'styled-components';
 import { useAuth } from '../../contexts/AuthContext';
+import { AISettingsDialog } from '../AISettingsDialog';
+import { DesignSystemDialog } from '../DesignSystemDialog';
 
 const ProfileContainer = styled.div`
   display: flex;
@@ -71,6 +73,8 @@ const MenuItem = styled.div`
 const UserProfile: React.FC = () => {
   const { user, signOut } = useAuth();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isDesignSystemOpen, setIsDesignSystemOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const profileRef = useRef<HTMLDivElement>(null);
   
@@ -101,6 +105,16 @@ const UserProfile: React.FC = () => {
     }
   };
   
+  const openSettings = () => {
+    setIsMenuOpen(false);
+    setIsSettingsOpen(true);
+  };
+  
+  const openDesignSystem = () => {
+    setIsMenuOpen(false);
+    setIsDesignSystemOpen(true);
+  };
+  
   const toggleMenu = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent event bubbling
     setIsMenuOpen(prevState => !prevState);
@@ -117,11 +131,20 @@ const UserProfile: React.FC = () => {
       
       <div ref={menuRef}>
         <DropdownMenu isOpen={isMenuOpen}>
+          <MenuItem onClick={openSettings}>
+            AI Settings
+          </MenuItem>
+          <MenuItem onClick={openDesignSystem}>
+            Design System
+          </MenuItem>
           <MenuItem className="sign-out" onClick={handleSignOut}>
             Sign Out
           </MenuItem>
         </DropdownMenu>
       </div>
+      
+      <AISettingsDialog isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+      <DesignSystemDialog isOpen={isDesignSystemOpen} onClose={() => setIsDesignSystemOpen(false)} />
     </div>
   );
 };
@@ -1,13 +1,47 @@
-import React, { useState, useEffect, useRef, MouseEvent } from 'react';
+import React, { useState, useEffect, useRef, useCallback, MouseEvent } from 'react';
 import styled, { createGlobalStyle } from 'styled-components';
 import * as aiComponentService from '../services/aiComponentService';
 import { htmlToImageService } from '../services/htmlToImageService';
 import { AnalysisPanel } from './AnalysisPanel';
 import { usePageContext } from '../contexts/PageContext';
+import { useAuth } from '../contexts/AuthContext';
 import { generateImprovedUIDesign, aiService } from '../services/aiService';
 import { FigmaExport } from './FigmaExport';
-import { DesignIteration, DetectedComponent } from '../types';
+import { IterationConnectors } from './IterationConnectors';
+import { LineagePanel } from './LineagePanel';
+import { TokensPanel } from './TokensPanel';
+import { RefinementThread } from './RefinementThread';
+import { JobPlaceholder } from './JobPlaceholder';
+import { useJobQueue } from '../hooks/useJobQueue';
+import FigmaComponentsView from './FigmaComponentsView';
+import { LayerPanel } from './LayerPanel';
+import { FigmaImportDialog } from './FigmaImportDialog';
+import { CompareView } from './CompareView';
+import { FigmaImportResult } from '../services/figmaImportService';
+import {
+  generateImprovement,
+  generateVariants,
+  generateRegionImprovement,
+  generateRefinement,
+  getImprovementDirection,
+  IMPROVEMENT_JOB_STEPS,
+  DEFAULT_VARIANT_DIRECTIONS
+} from '../services/improvementService';
+import { getLockedTokens } from '../services/designTokenService';
+import { DesignIteration, DetectedComponent, Page, RefinementMessage } from '../types';
+import { 
+  getDesignIterations, 
+  createDesignIteration, 
+  updateDesignIteration, 
+  deleteDesignIteration,
+  getComponents,
+  createComponent,
+  createNestedComponents,
+  updateComponent,
+  deleteComponent
+} from '../services/databaseService';
 import axios from 'axios';
+import { getQuotaExceeded } from '../services/aiApiClient';
 
 // Add error handling helper function
 const handleApiError = (error: any, context: string): string => {
@@ -23,6 +57,18 @@ const handleApiError = (error: any, context: string): string => {
     } else if (status === 404) {
       errorMessage += `API endpoint not found (404). Check if the API route exists.`;
       console.error(`${context} - Not Found: API endpoint does not exist`, error);
+    } else if (status === 429) {
+      const quota = getQuotaExceeded(error);
+      
+      if (quota) {
+        const resetTime = new Date(quota.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        const owner = quota.scope === 'ip' ? 'This network has' : 'You have';
+        errorMessage += `${owner} used the daily AI ${quota.metric} quota (${quota.used}/${quota.limit}). It resets at ${resetTime}.`;
+        console.error(`${context} - Quota Exceeded:`, quota);
+      } else {
+        errorMessage += 'The AI provider is rate limiting requests (429). Please try again in a moment.';
+        console.error(`${context} - Rate Limited: Too many requests to the AI provider`, error);
+      }
     } else if (status === 401 || status === 403) {
       errorMessage += `Authentication error (${status}). Check your API keys and permissions.`;
       console.error(`${context} - Authentication Error: Invalid or missing credentials`, error);
@@ -41,6 +87,21 @@ const handleApiError = (error: any, context: string): string => {
   return errorMessage;
 };
 
+// Components with a usable box; improvement records are stored without one
+const hasBoundingBox = (component: DetectedComponent) =>
+  !!component.boundingBox && component.boundingBox.width > 0 && component.boundingBox.height > 0;
+
+// Pages that only have a baseImage (e.g. created before iterations were saved) get their
+// base design rebuilt with the same id each time, so it's saved once and children can link to it
+const rebuildBaseIteration = (page: Page): DesignIteration => ({
+  id: `base-${page.id}`,
+  image: page.baseImage || '',
+  label: 'Base Design',
+  iterationType: 'base',
+  iterationNumber: 0,
+  position: { x: 0, y: 0 }
+});
+
 // Global style to remove focus outlines and borders
 const GlobalStyle = createGlobalStyle`
   * {
@@ -273,6 +334,12 @@ const DesignCard = styled.div`
     transform: scale(1.01); /* Slight scale effect when dragging */
   }
   
+  &.compare-selected {
+    border-color: #f5a623; /* Second design picked for comparison */
+    border-style: dashed;
+    border-width: 3px;
+  }
+  
   &.dragging {
     opacity: 0.9; /* Slight transparency when dragging */
     box-shadow: 0 12px 24px rgba(0, 0, 0, 0.3), 0 0 0 1px rgba(26, 115, 232, 0.5);
@@ -287,6 +354,34 @@ const DesignLabel = styled.div`
   font-family: 'Plus Jakarta Sans', sans-serif;
 `;
 
+const StarButton = styled.button<{ starred: boolean }>`
+  margin-left: 8px;
+  padding: 2px 8px;
+  border: 1px solid ${props => props.starred ? '#f5b400' : '#E3E6EA'};
+  border-radius: 12px;
+  background-color: ${props => props.starred ? '#fff8e1' : 'white'};
+  color: ${props => props.starred ? '#b07f00' : '#666'};
+  font-size: 12px;
+  font-weight: 600;
+  cursor: pointer;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+
+  &:hover {
+    border-color: #f5b400;
+  }
+`;
+
+// Wraps the image tightly so percentage component boxes line up with it
+const ImageFrame = styled.div`
+  position: relative;
+  display: inline-block;
+  max-width: 100%;
+  
+  & > img {
+    display: block;
+  }
+`;
+
 const DesignImage = styled.img`
   max-width: 100%;
   max-height: 70vh;
@@ -548,14 +643,28 @@ const ErrorOverlay = styled.div`
 // Canvas component
 export const Canvas = () => {
   const { currentPage, updatePage } = usePageContext();
+  const { user } = useAuth();
   const [iterationsMap, setIterationsMap] = useState<Record<string, DesignIteration[]>>({});
   const [selectedIteration, setSelectedIteration] = useState<DesignIteration | null>(null);
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [showFigmaExport, setShowFigmaExport] = useState(false);
+  const [showFigmaImport, setShowFigmaImport] = useState(false);
+  // Second design picked with shift-click, and the pair open in the compare view
+  const [compareCandidateId, setCompareCandidateId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<[string, string] | null>(null);
+  const [showLineage, setShowLineage] = useState(false);
+  const [showTokens, setShowTokens] = useState(false);
+  const [showThread, setShowThread] = useState(false);
+  const [isEditingComponents, setIsEditingComponents] = useState(false);
+  const [selectedComponentId, setSelectedComponentId] = useState<string | null>(null);
+  // Components picked for a region improvement; null when not picking
+  const [regionComponentIds, setRegionComponentIds] = useState<string[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [loadingMessage, setLoadingMessage] = useState('Generating improved design...');
   const [error, setError] = useState<string | null>(null);
   const [forceRender, setForceRender] = useState(0);
   const canvasRef = useRef<HTMLDivElement>(null);
+  const designContainerRef = useRef<HTMLDivElement>(null);
   const [detectedComponents, setDetectedComponents] = useState<DetectedComponent[]>([]);
   const [activeTab, setActiveTab] = useState<'research' | 'iterations'>('iterations');
   
@@ -591,6 +700,113 @@ export const Canvas = () => {
   // Get the iterations for the current page
   const iterations = currentPage ? (iterationsMap[currentPage.id] || []) : [];
   
+  // Improvements running in the background on this page, shown as placeholder cards
+  const { jobs: pageJobs, enqueueJob, cancelJob, dismissJob } = useJobQueue(currentPage?.id);
+  const activeJobs = pageJobs.filter(job => job.status === 'queued' || job.status === 'running');
+  
+  // Designs still being generated count towards the iteration limit
+  const improvedCount = iterations.filter(i => i.iterationType === 'improved').length +
+    activeJobs.reduce((count, job) => count + job.outputCount, 0);
+
+  // The selected design as it is now, with its latest thread. A refinement request stays the
+  // last message of the thread until its reply comes in, and is taken out again if cancelled.
+  const threadIteration = selectedIteration
+    ? iterations.find(it => it.id === selectedIteration.id) || selectedIteration
+    : null;
+
+  // Pages whose saved iterations have already been fetched from the database
+  const loadedPagesRef = useRef<Set<string>>(new Set());
+  
+  // Save a new iteration for a page (only signed-in users have pages in the database)
+  const saveIteration = useCallback((pageId: string, iteration: DesignIteration) => {
+    if (!user) return;
+    
+    createDesignIteration(pageId, iteration).then(({ error }) => {
+      if (error) {
+        console.error('Failed to save design iteration:', error);
+      }
+    });
+  }, [user]);
+  
+  // Persist changes to an existing iteration
+  const saveIterationUpdates = useCallback((iterationId: string, updates: Partial<DesignIteration>) => {
+    if (!user) return;
+    
+    updateDesignIteration(iterationId, updates).then(({ error }) => {
+      if (error) {
+        console.error('Failed to update design iteration:', error);
+      }
+    });
+  }, [user]);
+  
+  // Remove a deleted iteration from the database
+  const removeSavedIteration = useCallback((iterationId: string) => {
+    if (!user) return;
+    
+    deleteDesignIteration(iterationId).then(({ error }) => {
+      if (error) {
+        console.error('Failed to delete design iteration:', error);
+      }
+    });
+  }, [user]);
+  
+  // Load the saved iterations when switching to a page for the first time
+  useEffect(() => {
+    if (!currentPage || !user || loadedPagesRef.current.has(currentPage.id)) return;
+    
+    const page = currentPage;
+    const pageId = page.id;
+    const rebuiltBaseId = rebuildBaseIteration(page).id;
+    loadedPagesRef.current.add(pageId);
+    
+    const loadIterations = async () => {
+      const [{ data, error }, { data: components, error: componentsError }] = await Promise.all([
+        getDesignIterations(pageId),
+        getComponents(pageId)
+      ]);
+      
+      if (error) {
+        console.error('Failed to load design iterations:', error);
+        // Allow another attempt the next time the page is opened
+        loadedPagesRef.current.delete(pageId);
+        return;
+      }
+      
+      if (componentsError) {
+        console.error('Failed to load components:', componentsError);
+      }
+      
+      if (data && data.length > 0) {
+        console.log(`Loaded ${data.length} saved iterations for page ${pageId}`);
+        
+        // Attach the saved (and possibly hand-corrected) components to their iterations
+        const savedComponents: DetectedComponent[] = components || [];
+        const loadedIterations = data.map(iteration => {
+          const iterationComponents = savedComponents.filter(component => component.iterationId === iteration.id);
+          return iterationComponents.length > 0 ? { ...iteration, components: iterationComponents } : iteration;
+        });
+        
+        // Saved iterations replace the base iteration rebuilt from the page's baseImage. Designs
+        // added while they were loading aren't saved yet and are kept.
+        const loadedIds = new Set(loadedIterations.map(it => it.id));
+        const isUnsaved = (iteration: DesignIteration) =>
+          !loadedIds.has(iteration.id) && iteration.id !== rebuiltBaseId;
+        
+        setIterationsMap(prev => ({
+          ...prev,
+          [pageId]: [...loadedIterations, ...(prev[pageId] || []).filter(isUnsaved)]
+        }));
+        
+        setSelectedIteration(prev => (prev && (loadedIds.has(prev.id) || isUnsaved(prev))) ? prev : loadedIterations[0]);
+      } else if (page.baseImage && page.baseImage !== 'https://via.placeholder.com/800x600?text=Paste+Your+UI+Design') {
+        // Nothing saved yet: save the rebuilt base design so improvements of it can be saved too
+        saveIteration(pageId, rebuildBaseIteration(page));
+      }
+    };
+    
+    loadIterations();
+  }, [currentPage, user, saveIteration]);
+  
   // State for component analysis results
   const [componentResult, setComponentResult] = useState<any>(null);
   const [improvedImage, setImprovedImage] = useState<string | null>(null);
@@ -612,7 +828,7 @@ export const Canvas = () => {
         label: `Improved Design ${currentIterations.filter(i => i.iterationType === 'improved').length + 1}`,
         iterationType: 'improved',
         iterationNumber: currentIterations.length,
-        analysis: componentResult?.analysis ? JSON.stringify(componentResult.analysis, null, 2) : undefined,
+        analysis: componentResult?.analysis,
         position: { x: offsetX, y: offsetY }
       };
       
@@ -636,7 +852,7 @@ export const Canvas = () => {
   }, [improvedImage, currentPage, iterationsMap, componentResult, updatePage]);
 
   // Reset canvas position and scale
-  const resetCanvas = () => {
+  const resetCanvas = useCallback(() => {
     // If we don't have a current page, do nothing
     if (!currentPage) return;
     
@@ -688,7 +904,7 @@ export const Canvas = () => {
         return newPositions;
       });
     }
-  };
+  }, [currentPage]);
 
   // Effect to handle page changes
   useEffect(() => {
@@ -722,14 +938,7 @@ export const Canvas = () => {
           currentPage.baseImage !== 'https://via.placeholder.com/800x600?text=Paste+Your+UI+Design') {
         
         // Create base iteration from the page's baseImage
-        const baseIteration: DesignIteration = {
-          id: `base-${currentPage.id}-${Date.now()}`,
-          image: currentPage.baseImage,
-          label: 'Base Design',
-          iterationType: 'base',
-          iterationNumber: 0,
-          position: { x: 0, y: 0 }
-        };
+        const baseIteration = rebuildBaseIteration(currentPage);
         
         // Set the iterations for this page
         setIterationsMap(prev => ({
@@ -776,14 +985,7 @@ export const Canvas = () => {
         console.log('Setting up initial iterations for page:', currentPage.id);
         
         // Create base iteration
-        const baseIteration: DesignIteration = {
-          id: `base-${currentPage.id}-${Date.now()}`,
-          image: currentPage.baseImage,
-          label: 'Base Design',
-          iterationType: 'base',
-          iterationNumber: 0,
-          position: { x: 0, y: 0 }
-        };
+        const baseIteration = rebuildBaseIteration(currentPage);
         
         setIterationsMap(prev => ({
           ...prev,
@@ -816,14 +1018,7 @@ export const Canvas = () => {
           console.log('Defensive recovery: Restoring iterations for page with baseImage:', currentPage.id);
           
           // Create base iteration from the page's baseImage
-          const baseIteration: DesignIteration = {
-            id: `base-${currentPage.id}-${Date.now()}`,
-            image: currentPage.baseImage,
-            label: 'Base Design',
-            iterationType: 'base',
-            iterationNumber: 0,
-            position: { x: 0, y: 0 }
-          };
+          const baseIteration = rebuildBaseIteration(currentPage);
           
           // Set the iterations for this page
           setIterationsMap(prev => ({
@@ -999,11 +1194,213 @@ export const Canvas = () => {
     setShowFigmaExport(!showFigmaExport);
   };
 
+  // Open the compare view for the selected design and the shift-clicked one, older design first
+  const openCompareView = () => {
+    if (!selectedIteration || !compareCandidateId) return;
+    
+    const candidate = iterations.find(it => it.id === compareCandidateId);
+    if (!candidate) return;
+    
+    setCompareIds(candidate.iterationNumber <= selectedIteration.iterationNumber
+      ? [candidate.id, selectedIteration.id]
+      : [selectedIteration.id, candidate.id]);
+  };
+
+  // Toggle lineage panel
+  const toggleLineage = () => {
+    setShowLineage(!showLineage);
+  };
+
+  // Toggle design tokens panel
+  const toggleTokens = () => {
+    setShowTokens(!showTokens);
+  };
+
+  // Toggle refinement thread
+  const toggleThread = () => {
+    setShowThread(!showThread);
+  };
+
+  // Apply a change to an iteration's components in local state
+  const updateIterationComponents = (iterationId: string, update: (components: DetectedComponent[]) => DetectedComponent[]) => {
+    if (!currentPage) return;
+    
+    setIterationsMap(prev => ({
+      ...prev,
+      [currentPage.id]: (prev[currentPage.id] || []).map(it =>
+        it.id === iterationId ? { ...it, components: update(it.components || []) } : it
+      )
+    }));
+  };
+
+  // Turn component editing on or off, detecting components first if the design has none
+  const toggleComponentEditing = async () => {
+    if (isEditingComponents) {
+      setIsEditingComponents(false);
+      return;
+    }
+    
+    if (!selectedIteration || !currentPage) return;
+    
+    setRegionComponentIds(null);
+    
+    const iteration = iterations.find(it => it.id === selectedIteration.id) || selectedIteration;
+    let components = (iteration.components || []).filter(hasBoundingBox);
+    
+    // Components already in the table for this design can be edited right away
+    if (components.length > 0 && (!user || components.every(component => component.iterationId === iteration.id))) {
+      setIsEditingComponents(true);
+      return;
+    }
+    
+    setLoadingMessage(components.length > 0 ? 'Saving components...' : 'Detecting components...');
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      if (components.length === 0) {
+        const imageBase64 = iteration.image.split(',')[1] || iteration.image;
+        components = await aiComponentService.detectComponentsWithOpenAI(imageBase64);
+      }
+      
+      // Saved components get database ids, which later edits refer to.
+      // Components carried over from the parent design are saved the first time they're edited.
+      if (user) {
+        const { data, error } = await createNestedComponents(
+          components.map(component => ({
+            ...component,
+            page_id: currentPage.id,
+            iterationId: iteration.id
+          }))
+        );
+        
+        if (error) {
+          console.error('Failed to save detected components:', error);
+        } else if (data) {
+          components = data;
+        }
+      }
+      
+      const editableComponents = components;
+      updateIterationComponents(iteration.id, () => editableComponents);
+    } catch (error) {
+      console.error('Component detection failed:', error);
+      setError(handleApiError(error, 'component detection'));
+      return;
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('Generating improved design...');
+    }
+    
+    setIsEditingComponents(true);
+  };
+
+  // Component editing and region picking belong to the design they were started on
+  useEffect(() => {
+    setIsEditingComponents(false);
+    setRegionComponentIds(null);
+  }, [selectedIteration?.id]);
+
+  // Start or cancel picking the components of a region to improve
+  const toggleRegionSelection = () => {
+    if (regionComponentIds) {
+      setRegionComponentIds(null);
+      return;
+    }
+    
+    setIsEditingComponents(false);
+    setRegionComponentIds([]);
+  };
+
+  // The design picked for comparison is paired with the selected one
+  useEffect(() => {
+    setCompareCandidateId(null);
+  }, [selectedIteration?.id]);
+
+  useEffect(() => {
+    setSelectedComponentId(null);
+  }, [isEditingComponents]);
+
+  // Add a component drawn by hand
+  const handleCreateComponent = async (component: Omit<DetectedComponent, 'id'>) => {
+    if (!selectedIteration || !currentPage) return;
+    
+    const iterationId = selectedIteration.id;
+    let newComponent: DetectedComponent = { ...component, id: `component-${Date.now()}` };
+    
+    if (user) {
+      const { data, error } = await createComponent({ ...component, page_id: currentPage.id, iterationId });
+      
+      if (error || !data?.[0]) {
+        console.error('Failed to save component:', error);
+        setError('Error saving component: the new box could not be saved.');
+        return;
+      }
+      
+      newComponent = data[0];
+    }
+    
+    updateIterationComponents(iterationId, components => [...components, newComponent]);
+  };
+
+  // Move, resize or retype a component
+  const handleUpdateComponent = (componentId: string, updates: Partial<DetectedComponent>) => {
+    if (!selectedIteration) return;
+    
+    updateIterationComponents(selectedIteration.id, components =>
+      components.map(component => component.id === componentId ? { ...component, ...updates } : component)
+    );
+    
+    if (!user) return;
+    
+    updateComponent(componentId, updates).then(({ error }) => {
+      if (error) {
+        console.error('Failed to update component:', error);
+      }
+    });
+  };
+
+  // Remove a false positive; anything nested in it moves up to its parent
+  const handleDeleteComponent = (componentId: string) => {
+    if (!selectedIteration) return;
+    
+    const iteration = iterations.find(it => it.id === selectedIteration.id) || selectedIteration;
+    const deleted = (iteration.components || []).find(component => component.id === componentId);
+    const childIds = (iteration.components || [])
+      .filter(component => component.parentId === componentId)
+      .map(component => component.id);
+    
+    updateIterationComponents(selectedIteration.id, components =>
+      components
+        .filter(component => component.id !== componentId)
+        .map(component => component.parentId === componentId ? { ...component, parentId: deleted?.parentId } : component)
+    );
+    
+    if (!user) return;
+    
+    // Without a grandparent the database clears parent_id through the foreign key
+    if (deleted?.parentId) {
+      childIds.forEach(childId => {
+        updateComponent(childId, { parentId: deleted.parentId }).then(({ error }) => {
+          if (error) {
+            console.error('Failed to move nested component:', error);
+          }
+        });
+      });
+    }
+    
+    deleteComponent(componentId).then(({ error }) => {
+      if (error) {
+        console.error('Failed to delete component:', error);
+      }
+    });
+  };
+
   // Open iteration dialog
-  const openIterationDialog = () => {
+  const openIterationDialog = (e?: React.MouseEvent) => {
     // Instead of showing the dialog, directly create an improved iteration
     if (selectedIteration) {
-      handleCreateImprovedIteration();
+      handleCreateImprovedIteration(e?.shiftKey);
     }
   };
 
@@ -1073,6 +1470,91 @@ export const Canvas = () => {
   };
   */
 
+  // Add a design to the current page: the first one becomes the page's base design,
+  // later ones are placed in a cascade next to it. Callers save the returned iteration.
+  const addDesign = useCallback((imageDataUrl: string, details: Partial<DesignIteration> = {}): DesignIteration | null => {
+    if (!currentPage) return null;
+    
+    // Get current iterations for this page
+    const currentIterations = [...(iterationsMap[currentPage.id] || [])];
+    let iteration: DesignIteration;
+    
+    // If this is the first design being added (empty canvas)
+    if (currentIterations.length === 0 || 
+        (currentPage?.baseImage === 'https://via.placeholder.com/800x600?text=Paste+Your+UI+Design')) {
+      // Update the page's base image
+      updatePage(currentPage.id, { baseImage: imageDataUrl });
+      
+      // Create base iteration
+      iteration = {
+        id: `base-${currentPage.id}-${Date.now()}`,
+        image: imageDataUrl,
+        label: 'Base Design',
+        iterationType: 'base',
+        iterationNumber: 0,
+        position: { x: 0, y: 0 }, // Initialize position
+        ...details
+      };
+      
+      // Set iterations for this page to just the base iteration
+      // Use a callback to ensure we have the latest state
+      setIterationsMap(prev => {
+        const newMap = { ...prev };
+        newMap[currentPage.id] = [iteration];
+        return newMap;
+      });
+      
+      console.log('Created base iteration:', iteration.id);
+    } else {
+      // Calculate a position offset for the new design
+      // This will place new designs in a cascading pattern
+      const offsetX = (currentIterations.length % 3) * 50;
+      const offsetY = (currentIterations.length % 3) * 50;
+      
+      // Create a new design iteration
+      iteration = {
+        id: `design-${currentPage.id}-${Date.now()}`,
+        image: imageDataUrl,
+        label: `Design ${currentIterations.length + 1}`,
+        iterationType: 'base',
+        iterationNumber: currentIterations.length,
+        position: { x: offsetX, y: offsetY }, // Initialize with offset
+        ...details
+      };
+      
+      // Add the new iteration to the existing ones while preserving the existing ones
+      setIterationsMap(prev => {
+        const currentPageIterations = [...(prev[currentPage.id] || [])];
+        return {
+          ...prev,
+          [currentPage.id]: [...currentPageIterations, iteration]
+        };
+      });
+      
+      console.log('Added additional iteration:', iteration.id);
+    }
+    
+    // Select the newly added iteration
+    setSelectedIteration(iteration);
+    
+    // Reset canvas position and scale
+    // Use requestAnimationFrame to ensure the DOM has updated
+    requestAnimationFrame(() => {
+      // Reset canvas to center the design without changing iterations
+      resetCanvas();
+    });
+    
+    // Remove focus from any elements
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+    
+    // Force a re-render to make sure the image is visible
+    setForceRender(prev => prev + 1);
+    
+    return iteration;
+  }, [currentPage, iterationsMap, updatePage, resetCanvas]);
+
   // Handle paste event
   useEffect(() => {
     const handlePaste = (e: ClipboardEvent) => {
@@ -1094,82 +1576,10 @@ export const Canvas = () => {
             reader.onload = (e) => {
               const imageDataUrl = e.target?.result as string;
               if (imageDataUrl) {
-                // Get current iterations for this page
-                const currentIterations = [...(iterationsMap[currentPage.id] || [])];
-                
-                // If this is the first design being pasted (empty canvas)
-                if (currentIterations.length === 0 || 
-                    (currentPage?.baseImage === 'https://via.placeholder.com/800x600?text=Paste+Your+UI+Design')) {
-                  // Update the page's base image
-                  updatePage(currentPage.id, { baseImage: imageDataUrl });
-                  
-                  // Create base iteration
-                  const baseIteration: DesignIteration = {
-                    id: `base-${currentPage.id}-${Date.now()}`,
-                    image: imageDataUrl,
-                    label: 'Base Design',
-                    iterationType: 'base',
-                    iterationNumber: 0,
-                    position: { x: 0, y: 0 } // Initialize position
-                  };
-                  
-                  // Set iterations for this page to just the base iteration
-                  // Use a callback to ensure we have the latest state
-                  setIterationsMap(prev => {
-                    const newMap = { ...prev };
-                    newMap[currentPage.id] = [baseIteration];
-                    return newMap;
-                  });
-                  
-                  // Select the base iteration
-                  setSelectedIteration(baseIteration);
-                  
-                  console.log('Created base iteration for pasted image:', baseIteration.id);
-                } else {
-                  // Calculate a position offset for the new design
-                  // This will place new designs in a cascading pattern
-                  const offsetX = (currentIterations.length % 3) * 50;
-                  const offsetY = (currentIterations.length % 3) * 50;
-                  
-                  // Create a new design iteration
-                  const newIteration: DesignIteration = {
-                    id: `design-${currentPage.id}-${Date.now()}`,
-                    image: imageDataUrl,
-                    label: `Design ${currentIterations.length + 1}`,
-                    iterationType: 'base',
-                    iterationNumber: currentIterations.length,
-                    position: { x: offsetX, y: offsetY } // Initialize with offset
-                  };
-                  
-                  // Add the new iteration to the existing ones while preserving the existing ones
-                  setIterationsMap(prev => {
-                    const currentPageIterations = [...(prev[currentPage.id] || [])];
-                    return {
-                      ...prev,
-                      [currentPage.id]: [...currentPageIterations, newIteration]
-                    };
-                  });
-                  
-                  // Select the newly added iteration
-                  setSelectedIteration(newIteration);
-                  
-                  console.log('Added additional iteration for pasted image:', newIteration.id);
-                }
-                
-                // Reset canvas position and scale
-                // Use requestAnimationFrame to ensure the DOM has updated
-                requestAnimationFrame(() => {
-                  // Reset canvas to center the design without changing iterations
-                  resetCanvas();
-                });
-                
-                // Remove focus from any elements
-                if (document.activeElement instanceof HTMLElement) {
-                  document.activeElement.blur();
+                const iteration = addDesign(imageDataUrl);
+                if (iteration) {
+                  saveIteration(currentPage.id, iteration);
                 }
-                
-                // Force a re-render to make sure the image is visible
-                setForceRender(prev => prev + 1);
               }
             };
             reader.readAsDataURL(blob);
@@ -1182,7 +1592,49 @@ export const Canvas = () => {
     return () => {
       document.removeEventListener('paste', handlePaste);
     };
-  }, [currentPage, updatePage, iterationsMap, resetCanvas]);
+  }, [currentPage, addDesign, saveIteration]);
+
+  // Add a design imported from Figma, with the components taken from its layers
+  const handleFigmaImport = async (result: FigmaImportResult) => {
+    if (!currentPage) return;
+    
+    const pageId = currentPage.id;
+    const iteration = addDesign(result.image, {
+      label: result.name,
+      components: result.components,
+      ...(result.figmaData ? { figmaData: result.figmaData } : {})
+    });
+    
+    if (!iteration || !user) return;
+    
+    setLoadingMessage('Saving imported design...');
+    setIsLoading(true);
+    
+    try {
+      // Components refer to the iteration, so it has to be saved first
+      const { error } = await createDesignIteration(pageId, iteration);
+      if (error) {
+        console.error('Failed to save imported design:', error);
+        return;
+      }
+      
+      const { data, error: componentsError } = await createNestedComponents(
+        result.components.map(component => ({
+          ...component,
+          page_id: pageId,
+          iterationId: iteration.id
+        }))
+      );
+      
+      if (componentsError) {
+        console.error('Failed to save imported components:', componentsError);
+      } else if (data) {
+        updateIterationComponents(iteration.id, () => data);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   // Check if we need to show the paste overlay
   const showPasteOverlay = (iterations.length === 0 || 
@@ -1197,6 +1649,12 @@ export const Canvas = () => {
     const iteration = iterationsMap[currentPage.id]?.find(it => it.id === iterationId);
     if (!iteration) return;
     
+    // Shift-click picks a second design to compare with the selected one
+    if (e.shiftKey && selectedIteration && selectedIteration.id !== iterationId) {
+      setCompareCandidateId(prev => prev === iterationId ? null : iterationId);
+      return;
+    }
+    
     // If the clicked design is not the selected one, just select it and don't start dragging
     if (selectedIteration?.id !== iterationId) {
       setSelectedIteration(iteration);
@@ -1346,6 +1804,12 @@ export const Canvas = () => {
       }
       
       if (draggingDesign) {
+        // Save the final position of the dragged design
+        const draggedIteration = currentPage && iterationsMap[currentPage.id]?.find(it => it.id === draggingDesign);
+        if (draggedIteration) {
+          saveIterationUpdates(draggedIteration.id, { position: draggedIteration.position });
+        }
+        
         setDraggingDesign(null);
       }
     };
@@ -1358,27 +1822,37 @@ export const Canvas = () => {
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDragging, dragStart, canvasPosition, canvasScale, draggingDesign, designDragStart, currentPage, iterationsMap, selectedIteration]);
+  }, [isDragging, dragStart, canvasPosition, canvasScale, draggingDesign, designDragStart, currentPage, iterationsMap, selectedIteration, saveIterationUpdates]);
 
   // Handle keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Keys typed into a field, e.g. the refinement thread or a dialog, are the field's own
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
       // Delete selected design when pressing Delete or Backspace
-      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIteration && currentPage) {
+      // (while editing components, those keys delete the selected component instead)
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIteration && currentPage && !isEditingComponents) {
         // Prevent deleting if it's the only design
         if (iterationsMap[currentPage.id]?.length <= 1) {
           return;
         }
         
-        // Remove the selected design from iterations
+        // Remove the selected design from iterations; its children become roots
+        // (the database clears their parent_id through the foreign key)
         setIterationsMap(prev => {
-          const updatedIterations = prev[currentPage.id].filter(it => it.id !== selectedIteration.id);
+          const updatedIterations = prev[currentPage.id]
+            .filter(it => it.id !== selectedIteration.id)
+            .map(it => it.parentId === selectedIteration.id ? { ...it, parentId: undefined } : it);
           return {
             ...prev,
             [currentPage.id]: updatedIterations
           };
         });
         
+        removeSavedIteration(selectedIteration.id);
+        
         // Clear the selected iteration
         setSelectedIteration(null);
       }
@@ -1391,7 +1865,7 @@ export const Canvas = () => {
     return () => {
       document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [selectedIteration, currentPage, iterationsMap]);
+  }, [selectedIteration, currentPage, iterationsMap, removeSavedIteration, isEditingComponents]);
 
   // Add event listener to deselect when clicking outside the canvas
   useEffect(() => {
@@ -1421,274 +1895,355 @@ export const Canvas = () => {
     };
   }, [selectedIteration]);
 
-  // Create an improved iteration of the design
-  const handleCreateImprovedIteration = async () => {
+  // Place a new child iteration to the right of its parent, below any existing siblings
+  const getChildPosition = (parent: DesignIteration) => {
+    const parentCard = designContainerRef.current?.querySelector<HTMLElement>(`[data-iteration-id="${parent.id}"]`);
+    const cardWidth = parentCard?.offsetWidth || 600;
+    const cardHeight = parentCard?.offsetHeight || 400;
+    const siblingCount = iterations.filter(it => it.parentId === parent.id).length +
+      activeJobs.filter(job => job.parentIterationId === parent.id).length;
+    
+    return {
+      x: (parent.position?.x || 0) + cardWidth + 80,
+      y: (parent.position?.y || 0) + siblingCount * (cardHeight + 40)
+    };
+  };
+
+  // Add a finished background improvement to its page, and select it if its parent is still selected
+  const addImprovedIteration = (pageId: string, parent: DesignIteration, newIteration: DesignIteration) => {
+    setIterationsMap(prev => ({
+      ...prev,
+      [pageId]: [...(prev[pageId] || []), newIteration]
+    }));
+    setSelectedIteration(prev => prev?.id === parent.id ? newIteration : prev);
+    saveIteration(pageId, newIteration);
+  };
+
+  // Create an improved iteration of the design. It runs as a background job with a
+  // placeholder card, so several can run at once, on this page or others.
+  // Force refresh asks the AI again instead of reusing cached results for this design.
+  const handleCreateImprovedIteration = (forceRefresh = false) => {
     if (!selectedIteration || !currentPage) return;
     
-    setIsLoading(true);
-    setError(null);
+    const pageId = currentPage.id;
     
-    try {
-      // Get the base64 image data from the selected iteration
-      const imageBase64 = selectedIteration.image.split(',')[1] || selectedIteration.image;
-      
-      console.log('Starting UI design improvement process using component-based approach...');
-
-      // First attempt - try to use the component-based UI improvement process
+    // Components the user has reviewed in the editor are used instead of detecting again
+    const parent = iterations.find(it => it.id === selectedIteration.id) || selectedIteration;
+    const editedComponents = (parent.components || []).filter(hasBoundingBox);
+    const imageBase64 = parent.image.split(',')[1] || parent.image;
+    const position = getChildPosition(parent);
+    
+    // Locked design tokens keep the improvements on the team's design system
+    const designTokens = getLockedTokens(currentPage.designTokens);
+    
+    console.log('Starting UI design improvement process using component-based approach...');
+    
+    const { id: jobId, result } = enqueueJob({
+      pageId,
+      label: `Improving ${parent.label}`,
+      steps: IMPROVEMENT_JOB_STEPS,
+      parentIterationId: parent.id,
+      position
+    }, async ({ signal, startStep }) => {
       try {
-        // This will go through the multi-step process:
-        // 1. Component extraction using OpenAI
-        // 2. Component analysis and improvement suggestions
-        // 3. Applying improvements with design consistency
-        // 4. Generating visual comparison
-        const componentResult = await aiComponentService.improveUIWithComponents(imageBase64);
-        
-        console.log('Component-based UI improvement complete:', componentResult);
-        
-        // If we have component results with HTML report, we can generate an improved image
-        // For now, we'll try to use the improve-ui endpoint which will use OpenAI and Stability AI
+        return await generateImprovement(imageBase64, {
+          editedComponents,
+          designTokens,
+          progress: { signal, onStep: startStep },
+          forceRefresh
+        });
+      } catch (error) {
+        throw new Error(handleApiError(error, 'UI improvement process'));
+      }
+    });
+    
+    result.then(async improvement => {
+      if (!improvement) return;
+      
+      // Update the page with the improved image
+      if (parent.iterationType === 'base') {
         try {
-          // Call the serverless API to get an OpenAI analysis and Stability AI image
-          const response = await axios.post('/api/improve-ui', {
-            imageBase64: imageBase64,
-            customPrompt: JSON.stringify(componentResult.analysis)
-          });
-          
-          // Check if response data contains the expected fields
-          if (!response.data || !response.data.image) {
-            console.warn('API response missing required data:', response);
-            throw new Error('API response is missing required image data');
-          }
-          
-          // Create a new iteration with the improved design
-          const newIteration: DesignIteration = {
-            id: `improved-${currentPage.id}-${Date.now()}`,
-            image: response.data.image,
-            label: `Improved ${selectedIteration.iterationNumber + 1}`,
-            iterationType: 'improved',
-            iterationNumber: selectedIteration.iterationNumber + 1,
-            analysis: response.data.analysis || 'No analysis available',
-            components: componentResult.analysis && componentResult.analysis.improvements ? 
-              componentResult.analysis.improvements.map(imp => ({
-                id: `comp-${Date.now()}-${Math.random().toString(36).substring(7)}`,
-                type: imp.componentType || 'unknown',
-                confidence: 0.95,
-                boundingBox: { x: 0, y: 0, width: 0, height: 0 },
-                attributes: imp.improvements || {}
-              })) : [],
-            position: { 
-              x: (selectedIteration.position?.x || 0) + 50, 
-              y: (selectedIteration.position?.y || 0) + 50 
-            }
-          };
-          
-          // Update the page with the improved image
-          if (selectedIteration.iterationType === 'base') {
-            try {
-              await updatePage(currentPage.id, { iteratedImage: response.data.image });
-              console.log('Successfully updated page with improved image');
-            } catch (updateError) {
-              console.warn('Failed to update page with improved image:', updateError);
-              // Continue with the iteration process even if page update fails
-            }
-          }
-          
-          // Add the new iteration to the map
-          setIterationsMap(prev => ({
-            ...prev,
-            [currentPage.id]: [...(prev[currentPage.id] || []), newIteration]
-          }));
-          
-          // Select the new iteration
-          setSelectedIteration(newIteration);
-          
-          console.log('Successfully generated improved UI design with AI services');
-          return;
-        } catch (apiError) {
-          const errorMsg = handleApiError(apiError, 'API-based UI improvement');
-          console.warn(errorMsg);
-          // Continue to fallback
-        }
-      } catch (componentError) {
-        const errorMsg = handleApiError(componentError, 'Component-based UI improvement');
-        console.warn(errorMsg);
-        
-        // Check if this is a missing API key error, but handle it differently
-        if (componentError instanceof Error && 
-           (componentError.message === 'OPENAI_KEY_MISSING' || 
-            componentError.message.includes('API key') || 
-            componentError.message.includes('authentication'))) {
-          
-          console.error('OpenAI API key error detected');
-          setError('The OpenAI API key is missing or invalid. Please contact the administrator to ensure the API key is properly configured in the Vercel environment variables.');
-          
-          // Skip directly to fallback approach without prompting for key
-          console.log('Using fallback approach due to API key issue');
+          await updatePage(pageId, { iteratedImage: improvement.image });
+          console.log('Successfully updated page with improved image');
+        } catch (updateError) {
+          console.warn('Failed to update page with improved image:', updateError);
+          // Continue with the iteration process even if page update fails
         }
-        
-        // Continue to fallback
       }
       
-      // Fallback - Use canvas-based visual enhancement if the component approach fails
-      console.log('Using fallback canvas-based approach for design improvement');
+      addImprovedIteration(pageId, parent, {
+        id: `improved-${pageId}-${Date.now()}`,
+        image: improvement.image,
+        label: `Improved ${parent.iterationNumber + 1}`,
+        iterationType: 'improved',
+        iterationNumber: parent.iterationNumber + 1,
+        analysis: improvement.analysis,
+        components: improvement.components,
+        parentId: parent.id,
+        position
+      });
       
-      // Apply a series of visual enhancements to the image
-      const canvas = document.createElement('canvas');
-      const img = new Image();
+      // The design takes the placeholder's place
+      dismissJob(jobId);
+      console.log('Successfully generated improved UI design with AI services');
+    });
+  };
+
+  // Improve only the picked components' region in the background; the rest of the design is left as it is
+  const handleImproveRegion = (forceRefresh = false) => {
+    if (!selectedIteration || !currentPage || !regionComponentIds || regionComponentIds.length === 0) return;
+    
+    const pageId = currentPage.id;
+    const parent = iterations.find(it => it.id === selectedIteration.id) || selectedIteration;
+    const components = (parent.components || []).filter(hasBoundingBox);
+    const componentIds = regionComponentIds;
+    const position = getChildPosition(parent);
+    const designTokens = getLockedTokens(currentPage.designTokens);
+    
+    setRegionComponentIds(null);
+    
+    const { id: jobId, result } = enqueueJob({
+      pageId,
+      label: `Improving a region of ${parent.label}`,
+      steps: IMPROVEMENT_JOB_STEPS.filter(step => step.id !== 'detect'),
+      parentIterationId: parent.id,
+      position
+    }, async ({ signal, startStep }) => {
+      try {
+        return await generateRegionImprovement(parent.image, components, componentIds, {
+          designTokens,
+          progress: { signal, onStep: startStep },
+          forceRefresh
+        });
+      } catch (error) {
+        throw new Error(handleApiError(error, 'region improvement'));
+      }
+    });
+    
+    result.then(improvement => {
+      if (!improvement) return;
       
-      // Set up a promise to handle image loading and enhancement
-      const improvedImagePromise = new Promise<string>((resolve, reject) => {
-        img.onload = () => {
-          canvas.width = img.width;
-          canvas.height = img.height;
-          const ctx = canvas.getContext('2d');
-          
-          if (!ctx) {
-            reject(new Error('Could not get canvas context'));
-            return;
-          }
-          
-          // Draw the original image
-          ctx.drawImage(img, 0, 0);
-          
-          // Apply a series of visual enhancements to make it look noticeably improved
-          
-          // 1. Get the image data to manipulate pixels
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
-          
-          // 2. Enhance contrast and saturation
-          for (let i = 0; i < data.length; i += 4) {
-            // Increase contrast
-            data[i] = Math.min(255, Math.max(0, (data[i] - 128) * 1.2 + 128)); // Red
-            data[i + 1] = Math.min(255, Math.max(0, (data[i + 1] - 128) * 1.2 + 128)); // Green
-            data[i + 2] = Math.min(255, Math.max(0, (data[i + 2] - 128) * 1.2 + 128)); // Blue
-            
-            // Increase saturation selectively for certain colors
-            const avg = (data[i] + data[i + 1] + data[i + 2]) / 3;
-            if (avg > 100) { // Only enhance colors that are not too dark
-              data[i] = Math.min(255, Math.max(0, data[i] + (data[i] - avg) * 0.3));
-              data[i + 1] = Math.min(255, Math.max(0, data[i + 1] + (data[i + 1] - avg) * 0.3));
-              data[i + 2] = Math.min(255, Math.max(0, data[i + 2] + (data[i + 2] - avg) * 0.3));
-            }
-          }
-          
-          // Put the modified pixels back
-          ctx.putImageData(imageData, 0, 0);
-          
-          // 3. Add a subtle shadow effect for depth
-          ctx.save();
-          ctx.globalCompositeOperation = 'source-atop';
-          ctx.shadowColor = 'rgba(0,0,0,0.3)';
-          ctx.shadowBlur = 10;
-          ctx.shadowOffsetX = 3;
-          ctx.shadowOffsetY = 3;
-          ctx.fillStyle = 'rgba(0,0,0,0)';
-          ctx.fillRect(0, 0, canvas.width, canvas.height);
-          ctx.restore();
-          
-          // 4. Add a subtle gradient overlay to enhance the visual appeal
-          const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
-          gradient.addColorStop(0, 'rgba(100, 120, 255, 0.05)');
-          gradient.addColorStop(0.5, 'rgba(255, 255, 255, 0)');
-          gradient.addColorStop(1, 'rgba(100, 200, 255, 0.05)');
-          
-          ctx.globalCompositeOperation = 'overlay';
-          ctx.fillStyle = gradient;
-          ctx.fillRect(0, 0, canvas.width, canvas.height);
-          
-          // 5. Add very subtle vignette effect
-          ctx.globalCompositeOperation = 'source-over';
-          const centerX = canvas.width / 2;
-          const centerY = canvas.height / 2;
-          const radius = Math.max(canvas.width, canvas.height);
-          
-          const vignette = ctx.createRadialGradient(
-            centerX, centerY, radius * 0.3,
-            centerX, centerY, radius
-          );
-          vignette.addColorStop(0, 'rgba(0,0,0,0)');
-          vignette.addColorStop(1, 'rgba(0,0,0,0.15)');
-          
-          ctx.globalCompositeOperation = 'multiply';
-          ctx.fillStyle = vignette;
-          ctx.fillRect(0, 0, canvas.width, canvas.height);
-          
-          // Reset composite operation
-          ctx.globalCompositeOperation = 'source-over';
-          
-          // Generate improved image data URL
-          resolve(canvas.toDataURL('image/png'));
-        };
+      addImprovedIteration(pageId, parent, {
+        id: `improved-${pageId}-${Date.now()}`,
+        image: improvement.image,
+        label: `Improved ${parent.iterationNumber + 1} (region)`,
+        iterationType: 'improved',
+        iterationNumber: parent.iterationNumber + 1,
+        analysis: improvement.analysis,
+        components: improvement.components,
+        parentId: parent.id,
+        position
+      });
+      dismissJob(jobId);
+    });
+  };
+
+  // Replace an iteration's refinement thread in local state
+  const setIterationThread = (pageId: string, iterationId: string, thread: RefinementMessage[]) => {
+    setIterationsMap(prev => ({
+      ...prev,
+      [pageId]: (prev[pageId] || []).map(it => it.id === iterationId ? { ...it, thread } : it)
+    }));
+  };
+
+  // Apply a follow-up instruction from the thread in the background: the result is a child
+  // design that carries the conversation on, and the turn is recorded on both designs
+  const handleRefine = (instruction: string) => {
+    if (!selectedIteration || !currentPage) return;
+    
+    // Refinements count towards the iteration limit
+    if (improvedCount >= maxIterations) {
+      setError(`This page already has ${maxIterations} improved designs. Delete one to keep refining.`);
+      return;
+    }
+    
+    const pageId = currentPage.id;
+    const iteration = iterations.find(it => it.id === selectedIteration.id) || selectedIteration;
+    const position = getChildPosition(iteration);
+    const designTokens = getLockedTokens(currentPage.designTokens);
+    const request: RefinementMessage = {
+      id: `message-${Date.now()}`,
+      role: 'user',
+      content: instruction,
+      createdAt: new Date().toISOString()
+    };
+    
+    // Show the request while the design is being refined
+    const pendingThread = [...(iteration.thread || []), request];
+    setIterationThread(pageId, iteration.id, pendingThread);
+    setError(null);
+    
+    let failed = false;
+    const { id: jobId, result } = enqueueJob({
+      pageId,
+      label: `Refining ${iteration.label}`,
+      steps: IMPROVEMENT_JOB_STEPS,
+      parentIterationId: iteration.id,
+      position
+    }, async ({ signal, startStep }) => {
+      try {
+        return await generateRefinement(iteration, instruction, {
+          designTokens,
+          progress: { signal, onStep: startStep }
+        });
+      } catch (error) {
+        if (signal.aborted) throw error;
         
-        img.onerror = () => {
-          reject(new Error('Failed to load image for processing'));
-        };
+        console.error('Error refining design:', error);
+        failed = true;
         
-        img.src = selectedIteration.image;
-      });
+        // The failure is part of the conversation, so the user can rephrase
+        const message = handleApiError(error, 'refinement');
+        const thread: RefinementMessage[] = [...pendingThread, {
+          id: `message-${Date.now()}-reply`,
+          role: 'assistant',
+          content: message,
+          createdAt: new Date().toISOString()
+        }];
+        setIterationThread(pageId, iteration.id, thread);
+        saveIterationUpdates(iteration.id, { thread });
+        throw new Error(message);
+      }
+    });
+    
+    result.then(refinement => {
+      if (!refinement) {
+        // A cancelled request is taken back out of the thread
+        if (!failed) {
+          setIterationThread(pageId, iteration.id, iteration.thread || []);
+        }
+        return;
+      }
       
-      // Wait for the improved image
-      const improvedImageDataUrl = await improvedImagePromise;
+      const newIterationId = `improved-${pageId}-${Date.now()}`;
+      const thread: RefinementMessage[] = [...pendingThread, {
+        id: `message-${Date.now()}-reply`,
+        role: 'assistant',
+        content: refinement.analysis.summary || 'Here is the refined design.',
+        iterationId: newIterationId,
+        createdAt: new Date().toISOString()
+      }];
       
-      // Create an analysis message with what was improved
-      const analysisText = `
-# UI Design Improvements (Canvas Fallback)
-
-## Changes Made:
-1. **Enhanced Contrast**: Improved visual hierarchy and readability by increasing contrast between elements.
-2. **Refined Color Palette**: Applied more vibrant colors while maintaining design coherence.
-3. **Added Depth**: Subtle shadows create depth perception and highlight important UI elements.
-4. **Visual Harmony**: Applied a refined gradient overlay for improved visual appeal.
-5. **Edge Enhancement**: Improved border definition between UI components.
-
-This iteration uses a local canvas-based enhancement approach as a fallback when API services are unavailable.
-      `;
+      setIterationThread(pageId, iteration.id, thread);
+      saveIterationUpdates(iteration.id, { thread });
       
-      // Add a new iteration for the improved design with the fallback approach
-      const newIteration: DesignIteration = {
-        id: `improved-${currentPage.id}-${Date.now()}`,
-        image: improvedImageDataUrl,
-        label: `Improved ${selectedIteration.iterationNumber + 1}`,
+      addImprovedIteration(pageId, iteration, {
+        id: newIterationId,
+        image: refinement.image,
+        label: `Refined ${iteration.iterationNumber + 1}`,
         iterationType: 'improved',
-        iterationNumber: selectedIteration.iterationNumber + 1,
-        analysis: analysisText,
-        components: [],
-        position: { 
-          x: (selectedIteration.position?.x || 0) + 50, 
-          y: (selectedIteration.position?.y || 0) + 50 
-        }
-      };
+        iterationNumber: iteration.iterationNumber + 1,
+        analysis: refinement.analysis,
+        components: refinement.components,
+        parentId: iteration.id,
+        position,
+        thread
+      });
+      dismissJob(jobId);
+    });
+  };
+
+  // Generate alternative improvements of the selected design in parallel, in the background,
+  // placed as a labeled row
+  const handleGenerateVariants = (forceRefresh = false) => {
+    if (!selectedIteration || !currentPage) return;
+    
+    // Variants count towards the iteration limit
+    const remaining = maxIterations - improvedCount;
+    const directions = DEFAULT_VARIANT_DIRECTIONS.slice(0, remaining);
+    if (directions.length === 0) return;
+    
+    setError(null);
+    
+    const pageId = currentPage.id;
+    const parent = iterations.find(it => it.id === selectedIteration.id) || selectedIteration;
+    const imageBase64 = parent.image.split(',')[1] || parent.image;
+    const editedComponents = (parent.components || []).filter(hasBoundingBox);
+    const designTokens = getLockedTokens(currentPage.designTokens);
+    
+    // One row to the right of the parent, in the order the directions were asked for
+    const rowPosition = getChildPosition(parent);
+    const parentCard = designContainerRef.current?.querySelector<HTMLElement>(`[data-iteration-id="${parent.id}"]`);
+    const cardWidth = parentCard?.offsetWidth || 600;
+    
+    const { id: jobId, result } = enqueueJob({
+      pageId,
+      label: `Generating ${directions.length} variants of ${parent.label}`,
+      steps: IMPROVEMENT_JOB_STEPS,
+      parentIterationId: parent.id,
+      position: rowPosition,
+      outputCount: directions.length
+    }, async ({ signal, startStep }) => {
+      const variants = await generateVariants(imageBase64, directions, {
+        editedComponents,
+        designTokens,
+        progress: { signal, onStep: startStep },
+        forceRefresh
+      });
       
-      // Update the page with the improved image
-      if (selectedIteration.iterationType === 'base') {
-        try {
-          await updatePage(currentPage.id, { iteratedImage: improvedImageDataUrl });
-          console.log('Successfully updated page with improved image');
-        } catch (updateError) {
-          console.warn('Failed to update page with improved image:', updateError);
-          // Continue with the iteration process even if page update fails
-        }
+      if (!variants.some(variant => variant.result)) {
+        throw new Error(handleApiError(variants[0]?.error || new Error('No variants could be generated'), 'variant generation'));
       }
       
-      // Add the new iteration to the map
+      return variants;
+    });
+    
+    result.then(variants => {
+      if (!variants) return;
+      
+      const groupId = `variants-${pageId}-${Date.now()}`;
+      const newIterations: DesignIteration[] = variants
+        .filter(variant => variant.result)
+        .map((variant, index) => ({
+          id: `${groupId}-${variant.direction}`,
+          image: variant.result!.image,
+          label: `${getImprovementDirection(variant.direction)?.label || variant.direction} variant`,
+          iterationType: 'improved',
+          iterationNumber: parent.iterationNumber + 1,
+          analysis: variant.result!.analysis,
+          components: variant.result!.components,
+          parentId: parent.id,
+          position: { x: rowPosition.x + index * (cardWidth + 40), y: rowPosition.y },
+          variant: { groupId, direction: variant.direction }
+        }));
+      
       setIterationsMap(prev => ({
         ...prev,
-        [currentPage.id]: [...(prev[currentPage.id] || []), newIteration]
+        [pageId]: [...(prev[pageId] || []), ...newIterations]
       }));
+      setSelectedIteration(prev => prev?.id === parent.id ? newIterations[0] : prev);
+      newIterations.forEach(iteration => saveIteration(pageId, iteration));
+      dismissJob(jobId);
       
-      // Select the new iteration
-      setSelectedIteration(newIteration);
+      const failed = variants.filter(variant => variant.error);
+      if (failed.length > 0) {
+        console.warn('Some variants failed:', failed);
+        setError(`${failed.length} of ${variants.length} variants could not be generated (${failed.map(variant => variant.direction).join(', ')})`);
+      }
+    });
+  };
+
+  // Star a variant as the winner of its run; starring the winner again clears it
+  const handleStarVariant = (iteration: DesignIteration) => {
+    if (!currentPage || !iteration.variant) return;
+    
+    const { groupId } = iteration.variant;
+    const starred = !iteration.variant.starred;
+    
+    const changed: DesignIteration[] = [];
+    const updated = iterations.map(it => {
+      if (!it.variant || it.variant.groupId !== groupId) return it;
       
-      console.log('Successfully generated improved UI design with canvas fallback');
+      const isWinner = starred && it.id === iteration.id;
+      if (!!it.variant.starred === isWinner) return it;
       
-    } catch (error) {
-      console.error('Error during iteration:', error);
-      const errorMsg = handleApiError(error, 'UI improvement process');
-      setError(errorMsg);
-    } finally {
-      setIsLoading(false);
-    }
+      const next = { ...it, variant: { ...it.variant, starred: isWinner } };
+      changed.push(next);
+      return next;
+    });
+    
+    setIterationsMap(prev => ({ ...prev, [currentPage.id]: updated }));
+    changed.forEach(it => saveIterationUpdates(it.id, { variant: it.variant }));
   };
 
   // Render message if no page is selected
@@ -1726,12 +2281,72 @@ This iteration uses a local canvas-based enhancement approach as a fallback when
         </HeaderTabs>
         
         <HeaderActions>
+          {currentPage && (
+            <ActionButton onClick={() => setShowFigmaImport(true)} disabled={isLoading}>Import</ActionButton>
+          )}
           {iterations.length > 0 && (
             <>
               <ActionButton onClick={toggleAnalysis}>Analysis</ActionButton>
               <ActionButton onClick={toggleFigmaExport}>Export</ActionButton>
-              {iterations.filter(i => i.iterationType === 'improved').length < maxIterations && (
-                <ActionButton onClick={openIterationDialog}>Iterate</ActionButton>
+              <ActionButton onClick={toggleLineage}>Lineage</ActionButton>
+              <ActionButton onClick={toggleTokens}>Tokens</ActionButton>
+              {selectedIteration && (
+                <ActionButton onClick={toggleThread}>Refine</ActionButton>
+              )}
+              {selectedIteration && (
+                <ActionButton
+                  onClick={openCompareView}
+                  disabled={!compareCandidateId}
+                  title={compareCandidateId ? undefined : 'Shift-click another design to compare it with the selected one'}
+                >
+                  Compare
+                </ActionButton>
+              )}
+              {selectedIteration && (
+                <ActionButton onClick={toggleComponentEditing} disabled={isLoading}>
+                  {isEditingComponents ? 'Done Editing' : 'Components'}
+                </ActionButton>
+              )}
+              {improvedCount < maxIterations && (
+                <ActionButton onClick={openIterationDialog} title="Shift-click to ask the AI again instead of reusing cached results">
+                  Iterate
+                </ActionButton>
+              )}
+              {selectedIteration && improvedCount < maxIterations && (
+                <ActionButton
+                  onClick={() => handleCreateImprovedIteration(true)}
+                  disabled={isLoading}
+                  title="Improve the design again, asking the AI instead of reusing cached results"
+                >
+                  Regenerate
+                </ActionButton>
+              )}
+              {selectedIteration && improvedCount < maxIterations && (
+                <ActionButton
+                  onClick={(e) => handleGenerateVariants(e.shiftKey)}
+                  disabled={isLoading}
+                  title="Generate minimal, bold and accessible-first alternatives side by side. Shift-click to skip cached results."
+                >
+                  Variants
+                </ActionButton>
+              )}
+              {selectedIteration && improvedCount < maxIterations && (
+                regionComponentIds ? (
+                  <>
+                    <ActionButton onClick={(e) => handleImproveRegion(e.shiftKey)} disabled={isLoading || regionComponentIds.length === 0}>
+                      Improve Region ({regionComponentIds.length})
+                    </ActionButton>
+                    <ActionButton onClick={toggleRegionSelection}>Cancel</ActionButton>
+                  </>
+                ) : (
+                  <ActionButton
+                    onClick={toggleRegionSelection}
+                    disabled={isLoading || !(iterations.find(it => it.id === selectedIteration.id) || selectedIteration).components?.some(hasBoundingBox)}
+                    title="Pick components, or drag around an area, to improve only that part of the design"
+                  >
+                    Region
+                  </ActionButton>
+                )
               )}
             </>
           )}
@@ -1757,14 +2372,28 @@ This iteration uses a local canvas-based enhancement approach as a fallback when
             <PasteOverlay>
               <h2>Paste Your UI Design</h2>
               <p>Copy a UI design image and press Ctrl+V / Cmd+V to paste it here</p>
+              <p>or use Import to bring in a frame from Figma</p>
             </PasteOverlay>
           ) : (
-            <DesignContainer>
+            <DesignContainer ref={designContainerRef}>
+              <IterationConnectors iterations={iterations} containerRef={designContainerRef} />
+              {pageJobs.map(job => (
+                <JobPlaceholder
+                  key={job.id}
+                  job={job}
+                  onCancel={(jobId) => {
+                    cancelJob(jobId);
+                    dismissJob(jobId);
+                  }}
+                  onDismiss={dismissJob}
+                />
+              ))}
               {iterations.map((iteration) => (
                 <DesignCard 
                   key={iteration.id} 
                   onClick={(e) => {
                     e.stopPropagation();
+                    if (e.shiftKey && selectedIteration) return;
                     setSelectedIteration(iteration);
                   }}
                   onMouseDown={(e) => handleDesignMouseDown(e, iteration.id)}
@@ -1773,6 +2402,7 @@ This iteration uses a local canvas-based enhancement approach as a fallback when
                   className={`
                     ${selectedIteration?.id === iteration.id ? 'selected' : ''}
                     ${draggingDesign === iteration.id ? 'dragging' : ''}
+                    ${compareCandidateId === iteration.id ? 'compare-selected' : ''}
                   `}
                   style={{
                     backgroundColor: selectedIteration?.id === iteration.id ? '#f8f9ff' : 'white',
@@ -1780,19 +2410,62 @@ This iteration uses a local canvas-based enhancement approach as a fallback when
                     zIndex: draggingDesign === iteration.id ? 30 : (selectedIteration?.id === iteration.id ? 20 : 10)
                   }}
                 >
-                  <DesignLabel>{iteration.label}</DesignLabel>
+                  <DesignLabel>
+                    {iteration.label}
+                    {iteration.variant && (
+                      <StarButton
+                        starred={!!iteration.variant.starred}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleStarVariant(iteration);
+                        }}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        title={iteration.variant.starred ? 'Unstar' : 'Star as the winner of these variants'}
+                      >
+                        {iteration.variant.starred ? '★ Winner' : '☆'}
+                      </StarButton>
+                    )}
+                  </DesignLabel>
                   <div style={{ position: 'relative' }}>
-                    <DesignImage 
-                      src={iteration.image} 
-                      alt={iteration.label}
-                      tabIndex={-1}
-                    />
+                    <ImageFrame>
+                      <DesignImage 
+                        src={iteration.image} 
+                        alt={iteration.label}
+                        tabIndex={-1}
+                      />
+                      
+                      {isEditingComponents && selectedIteration?.id === iteration.id && (
+                        <FigmaComponentsView
+                          iteration={iteration}
+                          editable
+                          selectedComponentId={selectedComponentId}
+                          onSelectComponent={setSelectedComponentId}
+                          onCreateComponent={handleCreateComponent}
+                          onUpdateComponent={handleUpdateComponent}
+                          onDeleteComponent={handleDeleteComponent}
+                        />
+                      )}
+                      
+                      {regionComponentIds && selectedIteration?.id === iteration.id && (
+                        <FigmaComponentsView
+                          iteration={iteration}
+                          editable={false}
+                          selectedComponentId={null}
+                          onSelectComponent={setSelectedComponentId}
+                          onCreateComponent={handleCreateComponent}
+                          onUpdateComponent={handleUpdateComponent}
+                          onDeleteComponent={handleDeleteComponent}
+                          pickedComponentIds={regionComponentIds}
+                          onPickComponents={setRegionComponentIds}
+                        />
+                      )}
+                    </ImageFrame>
                     
-                    {iteration.iterationType === 'base' && iterations.filter(i => i.iterationType === 'improved').length < maxIterations && (
+                    {iteration.iterationType === 'base' && improvedCount < maxIterations && (
                       <FloatingActionButton 
                         onClick={(e) => {
                           e.stopPropagation();
-                          handleCreateImprovedIteration();
+                          handleCreateImprovedIteration(e.shiftKey);
                         }}
                         disabled={isLoading}
                         style={{
@@ -1818,18 +2491,71 @@ This iteration uses a local canvas-based enhancement approach as a fallback when
 
       {showAnalysis && selectedIteration?.analysis && (
         <AnalysisPanel 
-          selectedIteration={selectedIteration}
+          selectedIteration={iterations.find(it => it.id === selectedIteration.id) || selectedIteration}
+          parentIteration={iterations.find(it => it.id === selectedIteration.parentId)}
           onClose={toggleAnalysis} 
         />
       )}
 
           {showFigmaExport && selectedIteration && (
             <FigmaExport 
-          selectedIteration={selectedIteration}
+          selectedIteration={iterations.find(it => it.id === selectedIteration.id) || selectedIteration}
           onClose={toggleFigmaExport}
         />
       )}
 
+      {compareIds && (() => {
+        const before = iterations.find(it => it.id === compareIds[0]);
+        const after = iterations.find(it => it.id === compareIds[1]);
+        return before && after ? (
+          <CompareView before={before} after={after} onClose={() => setCompareIds(null)} />
+        ) : null;
+      })()}
+
+      <FigmaImportDialog
+        isOpen={showFigmaImport}
+        onClose={() => setShowFigmaImport(false)}
+        onImport={handleFigmaImport}
+      />
+
+      {showLineage && (
+        <LineagePanel
+          iterations={iterations}
+          selectedIteration={selectedIteration}
+          onSelectIteration={setSelectedIteration}
+          onClose={toggleLineage}
+        />
+      )}
+
+      {showTokens && (
+        <TokensPanel
+          iterations={iterations}
+          tokens={currentPage.designTokens}
+          onChange={(designTokens) => updatePage(currentPage.id, { designTokens })}
+          onClose={toggleTokens}
+        />
+      )}
+
+      {showThread && threadIteration && (
+        <RefinementThread
+          iteration={threadIteration}
+          iterations={iterations}
+          isBusy={threadIteration.thread?.[threadIteration.thread.length - 1]?.role === 'user'}
+          onSend={handleRefine}
+          onSelectIteration={setSelectedIteration}
+          onClose={toggleThread}
+        />
+      )}
+
+      {isEditingComponents && selectedIteration && (
+        <LayerPanel
+          components={((iterations.find(it => it.id === selectedIteration.id) || selectedIteration).components || []).filter(hasBoundingBox)}
+          selectedComponentId={selectedComponentId}
+          onSelectComponent={setSelectedComponentId}
+          onClose={() => setIsEditingComponents(false)}
+        />
+      )}
+
       {selectedIteration && (
         <SelectionHint>
           <HintIcon>👇</HintIcon>
@@ -1857,7 +2583,7 @@ This iteration uses a local canvas-based enhancement approach as a fallback when
       {isLoading && (
         <LoadingOverlay>
           <div className="spinner"></div>
-          <p>Generating improved design...</p>
+          <p>{loadingMessage}</p>
         </LoadingOverlay>
       )}
     </CanvasContainer>
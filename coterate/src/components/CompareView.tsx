@@ -0,0 +1,421 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { DesignIteration, DetectedComponent } from '../types';
+import { matchComponents, ComponentChangeKind, ComponentMatch } from '../services/componentMatching';
+
+type CompareMode = 'side-by-side' | 'onion-skin' | 'swipe';
+
+const CHANGE_COLORS: Record<ComponentChangeKind, string> = {
+  unchanged: '#9e9e9e',
+  changed: '#f5a623',
+  added: '#34a853',
+  removed: '#ea4335'
+};
+
+const CHANGE_LABELS: Record<ComponentChangeKind, string> = {
+  unchanged: 'Unchanged',
+  changed: 'Changed',
+  added: 'Added',
+  removed: 'Removed'
+};
+
+const Overlay = styled.div`
+  position: fixed;
+  inset: 0;
+  background-color: #f5f5f5;
+  z-index: 1000;
+  display: flex;
+  flex-direction: column;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const Toolbar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 12px 20px;
+  background-color: white;
+  border-bottom: 1px solid var(--border-color);
+  flex-wrap: wrap;
+`;
+
+const ToolbarTitle = styled.h3`
+  margin: 0 12px 0 0;
+  font-size: 16px;
+  font-weight: 600;
+  color: #333;
+`;
+
+const ModeButton = styled.button<{ active: boolean }>`
+  padding: 6px 12px;
+  border-radius: 6px;
+  border: 1px solid ${props => props.active ? '#1a73e8' : '#ddd'};
+  background-color: ${props => props.active ? '#e8f0fe' : 'white'};
+  color: ${props => props.active ? '#1a73e8' : '#333'};
+  font-size: 13px;
+  font-weight: 600;
+  font-family: inherit;
+  cursor: pointer;
+`;
+
+const ToolbarLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  font-size: 13px;
+  color: #555;
+`;
+
+const CloseButton = styled.button`
+  margin-left: auto;
+  background: none;
+  border: none;
+  cursor: pointer;
+  font-size: 22px;
+  color: #777;
+  font-family: inherit;
+
+  &:hover {
+    color: #333;
+  }
+`;
+
+const Body = styled.div`
+  flex: 1;
+  display: flex;
+  overflow: hidden;
+`;
+
+const StageArea = styled.div`
+  flex: 1;
+  display: flex;
+  justify-content: center;
+  align-items: flex-start;
+  gap: 24px;
+  padding: 24px;
+  overflow: auto;
+`;
+
+const Pane = styled.div`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  min-width: 0;
+  flex: 1;
+`;
+
+const PaneLabel = styled.div`
+  font-size: 14px;
+  font-weight: 600;
+  color: #666;
+  margin-bottom: 12px;
+`;
+
+// Holds the images and component boxes; boxes are percentages of this frame
+const Stage = styled.div`
+  position: relative;
+  display: inline-block;
+  max-width: 100%;
+  background-color: white;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+  user-select: none;
+`;
+
+const BaseImage = styled.img`
+  display: block;
+  max-width: 100%;
+  max-height: 75vh;
+`;
+
+// Stretched over the base image so both designs share one coordinate space
+const LayerImage = styled.img`
+  position: absolute;
+  inset: 0;
+  width: 100%;
+  height: 100%;
+  object-fit: fill;
+`;
+
+const BoxLayer = styled.div`
+  position: absolute;
+  inset: 0;
+  pointer-events: none;
+`;
+
+const ComponentBox = styled.div<{ color: string, highlighted: boolean, dashed: boolean }>`
+  position: absolute;
+  border: ${props => props.highlighted ? 3 : 2}px ${props => props.dashed ? 'dashed' : 'solid'} ${props => props.color};
+  background-color: ${props => props.highlighted ? `${props.color}33` : 'transparent'};
+  box-sizing: border-box;
+  pointer-events: auto;
+`;
+
+const SwipeHandle = styled.div`
+  position: absolute;
+  top: 0;
+  bottom: 0;
+  width: 2px;
+  margin-left: -1px;
+  background-color: #1a73e8;
+  pointer-events: none;
+`;
+
+const SidePanel = styled.div`
+  width: 300px;
+  background-color: white;
+  border-left: 1px solid var(--border-color);
+  overflow-y: auto;
+  padding: 16px;
+`;
+
+const Summary = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+  margin-bottom: 16px;
+`;
+
+const SummaryItem = styled.span<{ color: string }>`
+  font-size: 12px;
+  font-weight: 600;
+  color: ${props => props.color};
+`;
+
+const ChangeItem = styled.div<{ color: string, highlighted: boolean }>`
+  padding: 8px 10px;
+  margin-bottom: 8px;
+  border-left: 3px solid ${props => props.color};
+  border-radius: 4px;
+  background-color: ${props => props.highlighted ? '#f0f4ff' : '#fafafa'};
+  font-size: 13px;
+  cursor: default;
+`;
+
+const ChangeTitle = styled.div`
+  font-weight: 600;
+  color: #333;
+  margin-bottom: 4px;
+`;
+
+const ChangeDetail = styled.div`
+  color: #666;
+  font-size: 12px;
+`;
+
+const EmptyState = styled.div`
+  color: #777;
+  font-size: 13px;
+`;
+
+interface CompareViewProps {
+  before: DesignIteration;
+  after: DesignIteration;
+  onClose: () => void;
+}
+
+const hasBoundingBox = (component: DetectedComponent) =>
+  component.boundingBox && component.boundingBox.width > 0 && component.boundingBox.height > 0;
+
+const getMatchKey = (match: ComponentMatch) => `${match.before?.id || 'none'}:${match.after?.id || 'none'}`;
+
+export const CompareView: React.FC<CompareViewProps> = ({ before, after, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [showComponents, setShowComponents] = useState(true);
+  const [opacity, setOpacity] = useState(50);
+  const [swipePosition, setSwipePosition] = useState(50);
+  const [highlightedKey, setHighlightedKey] = useState<string | null>(null);
+
+  const matches = useMemo(
+    () => matchComponents((before.components || []).filter(hasBoundingBox), (after.components || []).filter(hasBoundingBox)),
+    [before.components, after.components]
+  );
+
+  const changedMatches = matches.filter(match => match.kind !== 'unchanged');
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const describeMatch = (match: ComponentMatch) => {
+    const component = match.after || match.before;
+    return `${component?.type} (${CHANGE_LABELS[match.kind].toLowerCase()})${match.changes.length > 0 ? `: ${match.changes.join(', ')}` : ''}`;
+  };
+
+  // Boxes of one design; removed components only exist in the first design, added ones in the second
+  const renderBoxes = (side: 'before' | 'after', clipPath?: string) => {
+    if (!showComponents) return null;
+
+    return (
+      <BoxLayer style={clipPath ? { clipPath } : undefined}>
+        {matches.map(match => {
+          const component = match[side];
+          if (!component) return null;
+
+          const key = getMatchKey(match);
+          const box = component.boundingBox;
+
+          return (
+            <ComponentBox
+              key={`${side}-${key}`}
+              color={CHANGE_COLORS[match.kind]}
+              highlighted={highlightedKey === key}
+              dashed={match.kind === 'unchanged'}
+              title={describeMatch(match)}
+              onMouseEnter={() => setHighlightedKey(key)}
+              onMouseLeave={() => setHighlightedKey(null)}
+              style={{
+                left: `${box.x}%`,
+                top: `${box.y}%`,
+                width: `${box.width}%`,
+                height: `${box.height}%`
+              }}
+            />
+          );
+        })}
+      </BoxLayer>
+    );
+  };
+
+  const renderStage = () => {
+    if (mode === 'side-by-side') {
+      return (
+        <>
+          <Pane>
+            <PaneLabel>{before.label}</PaneLabel>
+            <Stage>
+              <BaseImage src={before.image} alt={before.label} draggable={false} />
+              {renderBoxes('before')}
+            </Stage>
+          </Pane>
+          <Pane>
+            <PaneLabel>{after.label}</PaneLabel>
+            <Stage>
+              <BaseImage src={after.image} alt={after.label} draggable={false} />
+              {renderBoxes('after')}
+            </Stage>
+          </Pane>
+        </>
+      );
+    }
+
+    if (mode === 'onion-skin') {
+      return (
+        <Pane>
+          <PaneLabel>{before.label} / {after.label}</PaneLabel>
+          <Stage>
+            <BaseImage src={before.image} alt={before.label} draggable={false} />
+            <LayerImage src={after.image} alt={after.label} draggable={false} style={{ opacity: opacity / 100 }} />
+            <div style={{ opacity: 1 - opacity / 100 }}>{renderBoxes('before')}</div>
+            <div style={{ opacity: opacity / 100 }}>{renderBoxes('after')}</div>
+          </Stage>
+        </Pane>
+      );
+    }
+
+    // Swipe: the first design on the left of the handle, the second on the right
+    return (
+      <Pane>
+        <PaneLabel>{before.label} ← → {after.label}</PaneLabel>
+        <Stage>
+          <BaseImage src={before.image} alt={before.label} draggable={false} />
+          <LayerImage
+            src={after.image}
+            alt={after.label}
+            draggable={false}
+            style={{ clipPath: `inset(0 0 0 ${swipePosition}%)` }}
+          />
+          {renderBoxes('before', `inset(0 ${100 - swipePosition}% 0 0)`)}
+          {renderBoxes('after', `inset(0 0 0 ${swipePosition}%)`)}
+          <SwipeHandle style={{ left: `${swipePosition}%` }} />
+        </Stage>
+      </Pane>
+    );
+  };
+
+  const countByKind = (kind: ComponentChangeKind) => matches.filter(match => match.kind === kind).length;
+
+  return (
+    <Overlay>
+      <Toolbar>
+        <ToolbarTitle>Compare</ToolbarTitle>
+        <ModeButton active={mode === 'side-by-side'} onClick={() => setMode('side-by-side')}>Side by Side</ModeButton>
+        <ModeButton active={mode === 'onion-skin'} onClick={() => setMode('onion-skin')}>Onion Skin</ModeButton>
+        <ModeButton active={mode === 'swipe'} onClick={() => setMode('swipe')}>Swipe</ModeButton>
+
+        {mode === 'onion-skin' && (
+          <ToolbarLabel>
+            Opacity
+            <input type="range" min={0} max={100} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} />
+          </ToolbarLabel>
+        )}
+
+        {mode === 'swipe' && (
+          <ToolbarLabel>
+            Position
+            <input type="range" min={0} max={100} value={swipePosition} onChange={(e) => setSwipePosition(Number(e.target.value))} />
+          </ToolbarLabel>
+        )}
+
+        <ToolbarLabel>
+          <input type="checkbox" checked={showComponents} onChange={(e) => setShowComponents(e.target.checked)} />
+          Show components
+        </ToolbarLabel>
+
+        <CloseButton onClick={onClose}>×</CloseButton>
+      </Toolbar>
+
+      <Body>
+        <StageArea>{renderStage()}</StageArea>
+
+        <SidePanel>
+          <Summary>
+            {(['changed', 'added', 'removed', 'unchanged'] as ComponentChangeKind[]).map(kind => (
+              <SummaryItem key={kind} color={CHANGE_COLORS[kind]}>
+                {countByKind(kind)} {CHANGE_LABELS[kind].toLowerCase()}
+              </SummaryItem>
+            ))}
+          </Summary>
+
+          {matches.length === 0 && (
+            <EmptyState>Neither design has components yet. Use the Components button to detect them.</EmptyState>
+          )}
+
+          {matches.length > 0 && changedMatches.length === 0 && (
+            <EmptyState>No component changes found.</EmptyState>
+          )}
+
+          {changedMatches.map(match => {
+            const key = getMatchKey(match);
+            const component = match.after || match.before;
+
+            return (
+              <ChangeItem
+                key={key}
+                color={CHANGE_COLORS[match.kind]}
+                highlighted={highlightedKey === key}
+                onMouseEnter={() => setHighlightedKey(key)}
+                onMouseLeave={() => setHighlightedKey(null)}
+              >
+                <ChangeTitle>{component?.type} · {CHANGE_LABELS[match.kind]}</ChangeTitle>
+                {component?.attributes?.text && <ChangeDetail>"{component.attributes.text}"</ChangeDetail>}
+                {match.changes.map(change => (
+                  <ChangeDetail key={change}>{change}</ChangeDetail>
+                ))}
+              </ChangeItem>
+            );
+          })}
+        </SidePanel>
+      </Body>
+    </Overlay>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { useSettings } from '../contexts/SettingsContext';
+import { parseCssColor } from '../services/figmaExportService';
+import { EMPTY_DESIGN_SYSTEM_PROFILE } from '../services/designSystemService';
+import { DesignSystemProfile } from '../types';
+
+const Field = styled.div`
+  margin-bottom: 16px;
+`;
+
+const Input = styled.input`
+  width: 100%;
+  padding: 8px 12px;
+  border-radius: 6px;
+  border: 1px solid #e0e0e0;
+  font-size: 14px;
+  font-family: inherit;
+  box-sizing: border-box;
+`;
+
+const HelpText = styled.p`
+  margin: 6px 0 0;
+  font-size: 12px;
+  color: #6b7280;
+`;
+
+const ErrorText = styled(HelpText)`
+  color: #d93025;
+`;
+
+const Swatches = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+  margin-top: 8px;
+`;
+
+const Swatch = styled.div<{ color: string }>`
+  width: 20px;
+  height: 20px;
+  border-radius: 4px;
+  background-color: ${props => props.color};
+  border: 1px solid rgba(0, 0, 0, 0.1);
+`;
+
+// Comma separated lists are easier to type than one field per value
+interface DesignSystemDraft {
+  colors: string;
+  fonts: string;
+  radiusRule: string;
+  tone: string;
+}
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+const toDraft = (profile: DesignSystemProfile): DesignSystemDraft => ({
+  colors: profile.colors.join(', '),
+  fonts: profile.fonts.join(', '),
+  radiusRule: profile.radiusRule,
+  tone: profile.tone
+});
+
+interface DesignSystemDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function DesignSystemDialog({ isOpen, onClose }: DesignSystemDialogProps) {
+  const { settings, updateSettings } = useSettings();
+  const savedProfile = settings.designSystem || EMPTY_DESIGN_SYSTEM_PROFILE;
+  const [draft, setDraft] = useState<DesignSystemDraft>(toDraft(savedProfile));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved profile each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(toDraft(savedProfile));
+    }
+  }, [isOpen, savedProfile]);
+
+  const colors = splitList(draft.colors);
+  const invalidColors = colors.filter(color => !parseCssColor(color));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    await updateSettings({
+      designSystem: {
+        colors: colors.map(color => color.toLowerCase()),
+        fonts: splitList(draft.fonts),
+        radiusRule: draft.radiusRule.trim(),
+        tone: draft.tone.trim()
+      }
+    });
+    setIsSaving(false);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Design System</DialogTitle>
+        </DialogHeader>
+
+        <HelpText style={{ marginBottom: 16 }}>
+          Detection, analysis and generated improvements follow these rules. Leave a field empty to not constrain it.
+        </HelpText>
+
+        <Field>
+          <Label htmlFor="design-system-colors">Allowed colors</Label>
+          <Input
+            id="design-system-colors"
+            value={draft.colors}
+            placeholder="#1a73e8, #ffffff, #202124"
+            onChange={(e) => setDraft({ ...draft, colors: e.target.value })}
+          />
+          {colors.length > 0 && (
+            <Swatches>
+              {colors.filter(color => parseCssColor(color)).map(color => (
+                <Swatch key={color} color={color} title={color} />
+              ))}
+            </Swatches>
+          )}
+          {invalidColors.length > 0 ? (
+            <ErrorText>Not a hex or rgb() color: {invalidColors.join(', ')}</ErrorText>
+          ) : (
+            <HelpText>Hex or rgb() colors, separated by commas.</HelpText>
+          )}
+        </Field>
+
+        <Field>
+          <Label htmlFor="design-system-fonts">Allowed fonts</Label>
+          <Input
+            id="design-system-fonts"
+            value={draft.fonts}
+            placeholder="Inter, Georgia"
+            onChange={(e) => setDraft({ ...draft, fonts: e.target.value })}
+          />
+        </Field>
+
+        <Field>
+          <Label htmlFor="design-system-radius">Corner radius rule</Label>
+          <Input
+            id="design-system-radius"
+            value={draft.radiusRule}
+            placeholder="8px on buttons and inputs, 12px on cards"
+            onChange={(e) => setDraft({ ...draft, radiusRule: e.target.value })}
+          />
+        </Field>
+
+        <Field>
+          <Label htmlFor="design-system-tone">Tone</Label>
+          <Textarea
+            id="design-system-tone"
+            value={draft.tone}
+            placeholder="Calm and professional, generous whitespace, no playful illustrations"
+            onChange={(e) => setDraft({ ...draft, tone: e.target.value })}
+          />
+        </Field>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || invalidColors.length > 0}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,22 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { createPortal } from 'react-dom';
 import styled from 'styled-components';
 import { DetectedComponent, DesignIteration } from '../types';
+import { findContainingComponent } from '../services/componentTreeService';
+import { getComponentsInRegion } from '../services/regionService';
+import { auditComponents, AuditStatus } from '../services/accessibilityAudit';
+import { useImageSize } from '../hooks/useImageSize';
 
 // Styled components
-const ComponentsContainer = styled.div`
+const ComponentsContainer = styled.div<{ editable: boolean, isDrawing: boolean }>`
   position: absolute;
   top: 0;
   left: 0;
   width: 100%;
   height: 100%;
-  pointer-events: none;
+  pointer-events: ${props => props.editable ? 'auto' : 'none'};
+  cursor: ${props => props.editable ? 'crosshair' : 'default'};
+  user-select: ${props => props.isDrawing ? 'none' : 'auto'};
 `;
 
 const ComponentOverlay = styled.div<{
@@ -19,25 +26,51 @@ const ComponentOverlay = styled.div<{
   height: number;
   isSelected: boolean;
   componentType: string;
+  editable: boolean;
 }>`
   position: absolute;
-  left: ${props => props.x}px;
-  top: ${props => props.y}px;
-  width: ${props => props.width}px;
-  height: ${props => props.height}px;
+  left: ${props => props.x}%;
+  top: ${props => props.y}%;
+  width: ${props => props.width}%;
+  height: ${props => props.height}%;
+  box-sizing: border-box;
   border: 2px solid ${props => getColorForComponentType(props.componentType, props.isSelected)};
   background-color: ${props => getBackgroundForComponentType(props.componentType, props.isSelected)};
   border-radius: 2px;
   pointer-events: auto;
-  cursor: pointer;
-  transition: all 0.2s ease;
-  
+  cursor: ${props => props.editable ? 'move' : 'pointer'};
+  transition: border-width 0.2s ease, box-shadow 0.2s ease;
+
   &:hover {
     border-width: 3px;
     box-shadow: 0 0 0 1px rgba(0, 0, 0, 0.1);
   }
 `;
 
+const ResizeHandle = styled.div<{ corner: ResizeCorner }>`
+  position: absolute;
+  width: 8px;
+  height: 8px;
+  background-color: white;
+  border: 2px solid #ff5722;
+  border-radius: 2px;
+  ${props => props.corner.includes('n') ? 'top: -6px;' : 'bottom: -6px;'}
+  ${props => props.corner.includes('w') ? 'left: -6px;' : 'right: -6px;'}
+  cursor: ${props => props.corner === 'nw' || props.corner === 'se' ? 'nwse-resize' : 'nesw-resize'};
+`;
+
+const DraftBox = styled.div<{ x: number, y: number, width: number, height: number }>`
+  position: absolute;
+  left: ${props => props.x}%;
+  top: ${props => props.y}%;
+  width: ${props => props.width}%;
+  height: ${props => props.height}%;
+  box-sizing: border-box;
+  border: 2px dashed #ff5722;
+  background-color: rgba(255, 87, 34, 0.1);
+  pointer-events: none;
+`;
+
 const ComponentLabel = styled.div<{
   componentType: string;
   isSelected: boolean;
@@ -57,6 +90,29 @@ const ComponentLabel = styled.div<{
   z-index: 10;
 `;
 
+const AuditBadge = styled.div<{ status: AuditStatus }>`
+  position: absolute;
+  top: -8px;
+  right: -8px;
+  width: 16px;
+  height: 16px;
+  border-radius: 50%;
+  background-color: ${props => props.status === 'fail' ? '#db4437' : '#0f9d58'};
+  color: white;
+  font-size: 10px;
+  font-weight: 700;
+  line-height: 16px;
+  text-align: center;
+  z-index: 10;
+`;
+
+const AuditRow = styled.div<{ status: AuditStatus }>`
+  display: flex;
+  justify-content: space-between;
+  font-size: 12px;
+  color: ${props => props.status === 'fail' ? '#db4437' : props.status === 'pass' ? '#0f9d58' : '#999'};
+`;
+
 const ComponentDetails = styled.div`
   position: fixed;
   bottom: 20px;
@@ -74,7 +130,7 @@ const ComponentDetails = styled.div`
 
 const DetailItem = styled.div`
   margin-bottom: 8px;
-  
+
   &:last-child {
     margin-bottom: 0;
   }
@@ -93,28 +149,33 @@ const DetailValue = styled.div`
   word-break: break-word;
 `;
 
-const ToggleButton = styled.button`
-  position: fixed;
-  bottom: 20px;
-  left: 20px;
-  background-color: #4285f4;
-  color: white;
-  border: none;
+const TypeSelect = styled.select`
+  width: 100%;
+  padding: 4px 8px;
+  border-radius: 4px;
+  border: 1px solid #e0e0e0;
+  font-size: 12px;
+  font-family: inherit;
+`;
+
+const DeleteButton = styled.button`
+  background-color: white;
+  color: #db4437;
+  border: 1px solid #db4437;
   border-radius: 4px;
-  padding: 8px 12px;
+  padding: 6px 10px;
   font-size: 12px;
   cursor: pointer;
-  z-index: 1000;
-  
+
   &:hover {
-    background-color: #3367d6;
+    background-color: rgba(219, 68, 55, 0.1);
   }
 `;
 
 // Helper functions
 const getColorForComponentType = (type: string, isSelected: boolean): string => {
   if (isSelected) return '#ff5722';
-  
+
   switch (type.toLowerCase()) {
     case 'button':
       return '#4285f4';
@@ -144,7 +205,7 @@ const getColorForComponentType = (type: string, isSelected: boolean): string =>
 
 const getBackgroundForComponentType = (type: string, isSelected: boolean): string => {
   if (isSelected) return 'rgba(255, 87, 34, 0.1)';
-  
+
   switch (type.toLowerCase()) {
     case 'button':
       return 'rgba(66, 133, 244, 0.1)';
@@ -172,157 +233,450 @@ const getBackgroundForComponentType = (type: string, isSelected: boolean): strin
   }
 };
 
+// Types offered when correcting a component
+const COMPONENT_TYPES = ['button', 'text', 'input', 'image', 'container', 'icon', 'card', 'navigation', 'header', 'footer'];
+
+// Smallest box that can be drawn or resized to, in percent of the image
+const MIN_BOX_SIZE = 1;
+
+// Shared default, so effects depending on the picked ids don't re-run on every render
+const NO_PICKED_COMPONENTS: string[] = [];
+
+type BoundingBox = DetectedComponent['boundingBox'];
+type ResizeCorner = 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  mode: 'move' | 'draw' | ResizeCorner;
+  componentId: string | null; // null while drawing a new box
+  start: { x: number, y: number }; // Pointer position in percent
+  startBox: BoundingBox;
+  additive?: boolean; // Shift-drag adds a marquee's components to the picked ones
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Work out the box for the current pointer position of a drag
+const getDraggedBox = (drag: DragState, point: { x: number, y: number }): BoundingBox => {
+  const dx = point.x - drag.start.x;
+  const dy = point.y - drag.start.y;
+  const box = drag.startBox;
+
+  if (drag.mode === 'draw') {
+    return {
+      x: Math.min(drag.start.x, point.x),
+      y: Math.min(drag.start.y, point.y),
+      width: Math.abs(dx),
+      height: Math.abs(dy)
+    };
+  }
+
+  if (drag.mode === 'move') {
+    return {
+      ...box,
+      x: clamp(box.x + dx, 0, 100 - box.width),
+      y: clamp(box.y + dy, 0, 100 - box.height)
+    };
+  }
+
+  // Resizing moves only the edges next to the dragged corner
+  let left = box.x;
+  let top = box.y;
+  let right = box.x + box.width;
+  let bottom = box.y + box.height;
+
+  if (drag.mode.includes('w')) left = clamp(left + dx, 0, right - MIN_BOX_SIZE);
+  if (drag.mode.includes('e')) right = clamp(right + dx, left + MIN_BOX_SIZE, 100);
+  if (drag.mode.includes('n')) top = clamp(top + dy, 0, bottom - MIN_BOX_SIZE);
+  if (drag.mode.includes('s')) bottom = clamp(bottom + dy, top + MIN_BOX_SIZE, 100);
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Round to two decimals so saved boxes stay readable
+const roundBox = (box: BoundingBox): BoundingBox => ({
+  x: Math.round(box.x * 100) / 100,
+  y: Math.round(box.y * 100) / 100,
+  width: Math.round(box.width * 100) / 100,
+  height: Math.round(box.height * 100) / 100
+});
+
 interface FigmaComponentsViewProps {
   iteration: DesignIteration;
-  canvasScale: number;
-  canvasPosition: { x: number, y: number };
+  editable: boolean;
+  selectedComponentId: string | null;
+  onSelectComponent: (componentId: string | null) => void;
+  onCreateComponent: (component: Omit<DetectedComponent, 'id'>) => void;
+  onUpdateComponent: (id: string, updates: Partial<DetectedComponent>) => void;
+  onDeleteComponent: (id: string) => void;
+  pickedComponentIds?: string[];
+  onPickComponents?: (ids: string[]) => void; // Turns on picking, e.g. the components of a region to improve
 }
 
+/**
+ * Component boxes drawn over a design. Boxes are positioned in percent of the image,
+ * so the overlay must be placed in a container the same size as the image.
+ * In edit mode boxes can be moved, resized, retyped, deleted and drawn by hand;
+ * drawn boxes are nested in the smallest box around them.
+ * In pick mode clicking a box toggles it and a marquee picks the boxes inside it.
+ */
 const FigmaComponentsView: React.FC<FigmaComponentsViewProps> = ({
   iteration,
-  canvasScale,
-  canvasPosition
+  editable,
+  selectedComponentId,
+  onSelectComponent,
+  onCreateComponent,
+  onUpdateComponent,
+  onDeleteComponent,
+  pickedComponentIds = NO_PICKED_COMPONENTS,
+  onPickComponents
 }) => {
-  const [showComponents, setShowComponents] = useState(true);
-  const [selectedComponent, setSelectedComponent] = useState<DetectedComponent | null>(null);
-  
-  // If no components or figmaData, don't render anything
-  if (!iteration.components || !iteration.figmaData) {
-    return null;
-  }
-  
-  const toggleComponentsVisibility = () => {
-    setShowComponents(!showComponents);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isPicking = !editable && !!onPickComponents;
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draftBox, setDraftBox] = useState<BoundingBox | null>(null);
+
+  const components = (iteration.components || []).filter(component =>
+    component.boundingBox &&
+    component.boundingBox.width > 0 &&
+    component.boundingBox.height > 0
+  );
+  const selectedComponent = components.find(component => component.id === selectedComponentId) || null;
+
+  // WCAG checks for each box, shown as pass/fail badges
+  const imageSize = useImageSize(iteration.image);
+  const audits = useMemo(() => {
+    const result = auditComponents(iteration.components || [], imageSize);
+    return new Map(result.components.map(audit => [audit.componentId, audit]));
+  }, [iteration.components, imageSize]);
+  const selectedAudit = selectedComponent ? audits.get(selectedComponent.id) : undefined;
+
+  // Pointer position in percent of the overlay (which already includes the canvas zoom)
+  const toPercent = (clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return { x: 0, y: 0 };
+
+    return {
+      x: clamp(((clientX - rect.left) / rect.width) * 100, 0, 100),
+      y: clamp(((clientY - rect.top) / rect.height) * 100, 0, 100)
+    };
   };
-  
-  const handleComponentClick = (component: DetectedComponent) => {
-    setSelectedComponent(component === selectedComponent ? null : component);
+
+  // Follow the pointer while dragging, and save the box when the drag ends
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      setDraftBox(getDraggedBox(drag, toPercent(e.clientX, e.clientY)));
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      const box = roundBox(getDraggedBox(drag, toPercent(e.clientX, e.clientY)));
+
+      if (drag.mode === 'draw' && isPicking) {
+        const inRegion = getComponentsInRegion(box, components);
+        onPickComponents!(drag.additive ? Array.from(new Set([...pickedComponentIds, ...inRegion])) : inRegion);
+      } else if (drag.mode === 'draw') {
+        if (box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE) {
+          const parent = findContainingComponent(box, components);
+          onCreateComponent({
+            type: 'container',
+            confidence: 1, // Drawn by hand
+            boundingBox: box,
+            attributes: { state: 'default' },
+            ...(parent ? { parentId: parent.id } : {})
+          });
+        }
+      } else if (drag.componentId) {
+        const { x, y, width, height } = drag.startBox;
+        if (box.x !== x || box.y !== y || box.width !== width || box.height !== height) {
+          onUpdateComponent(drag.componentId, { boundingBox: box });
+        }
+      }
+
+      setDrag(null);
+      setDraftBox(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag, components, onCreateComponent, onUpdateComponent, isPicking, pickedComponentIds, onPickComponents]);
+
+  // Delete removes the selected box and Escape deselects it, unless the user is typing
+  useEffect(() => {
+    if (!editable || !selectedComponentId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return;
+
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        onDeleteComponent(selectedComponentId);
+        onSelectComponent(null);
+      } else if (e.key === 'Escape') {
+        onSelectComponent(null);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [editable, selectedComponentId, onSelectComponent, onDeleteComponent]);
+
+  // Leaving edit or pick mode drops any half-finished drag
+  useEffect(() => {
+    if (!editable && !isPicking) {
+      setDrag(null);
+      setDraftBox(null);
+    }
+  }, [editable, isPicking]);
+
+  const handleComponentMouseDown = (e: React.MouseEvent, component: DetectedComponent, mode: DragState['mode']) => {
+    // Keep the canvas and the design card from starting their own drags
+    e.stopPropagation();
+    e.preventDefault();
+
+    if (isPicking) {
+      onPickComponents!(pickedComponentIds.includes(component.id)
+        ? pickedComponentIds.filter(id => id !== component.id)
+        : [...pickedComponentIds, component.id]);
+      return;
+    }
+
+    onSelectComponent(component.id);
+
+    if (!editable) return;
+
+    setDrag({
+      mode,
+      componentId: component.id,
+      start: toPercent(e.clientX, e.clientY),
+      startBox: component.boundingBox
+    });
   };
-  
+
+  const handleContainerMouseDown = (e: React.MouseEvent) => {
+    if ((!editable && !isPicking) || e.target !== e.currentTarget) return;
+
+    e.stopPropagation();
+    e.preventDefault();
+
+    const start = toPercent(e.clientX, e.clientY);
+    onSelectComponent(null);
+    setDrag({
+      mode: 'draw',
+      componentId: null,
+      start,
+      startBox: { x: start.x, y: start.y, width: 0, height: 0 },
+      additive: e.shiftKey
+    });
+  };
+
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!selectedComponent) return;
+    onUpdateComponent(selectedComponent.id, { type: e.target.value });
+  };
+
+  const handleDelete = () => {
+    if (!selectedComponent) return;
+    onDeleteComponent(selectedComponent.id);
+    onSelectComponent(null);
+  };
+
+  // Show the box being dragged where the pointer is, not where it was saved
+  const getDisplayBox = (component: DetectedComponent): BoundingBox =>
+    drag && draftBox && drag.componentId === component.id ? draftBox : component.boundingBox;
+
+  const typeOptions = selectedComponent && !COMPONENT_TYPES.includes(selectedComponent.type)
+    ? [selectedComponent.type, ...COMPONENT_TYPES]
+    : COMPONENT_TYPES;
+
   return (
     <>
-      <ToggleButton onClick={toggleComponentsVisibility}>
-        {showComponents ? 'Hide Components' : 'Show Components'}
-      </ToggleButton>
-      
-      {showComponents && (
-        <ComponentsContainer>
-          {iteration.components.map((component) => {
-            // Skip components without valid bounding boxes
-            if (!component.boundingBox || 
-                component.boundingBox.width <= 0 || 
-                component.boundingBox.height <= 0) {
-              return null;
-            }
-            
-            const isSelected = selectedComponent?.id === component.id;
-            
-            return (
-              <ComponentOverlay
-                key={component.id}
-                x={component.boundingBox.x}
-                y={component.boundingBox.y}
-                width={component.boundingBox.width}
-                height={component.boundingBox.height}
-                isSelected={isSelected}
+      <ComponentsContainer
+        ref={containerRef}
+        editable={editable || isPicking}
+        isDrawing={drag !== null}
+        onMouseDown={handleContainerMouseDown}
+      >
+        {components.map((component) => {
+          const isSelected = selectedComponentId === component.id || pickedComponentIds.includes(component.id);
+          const box = getDisplayBox(component);
+          const audit = audits.get(component.id);
+
+          return (
+            <ComponentOverlay
+              key={component.id}
+              x={box.x}
+              y={box.y}
+              width={box.width}
+              height={box.height}
+              isSelected={isSelected}
+              componentType={component.type}
+              editable={editable}
+              onMouseDown={(e) => handleComponentMouseDown(e, component, 'move')}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <ComponentLabel
                 componentType={component.type}
-                onClick={() => handleComponentClick(component)}
+                isSelected={isSelected}
               >
-                <ComponentLabel
-                  componentType={component.type}
-                  isSelected={isSelected}
+                {component.type} {component.attributes?.name ? `- ${component.attributes.name}` : ''}
+              </ComponentLabel>
+
+              {audit && audit.status !== 'skipped' && (
+                <AuditBadge
+                  status={audit.status}
+                  title={audit.checks
+                    .filter(check => check.status !== 'skipped')
+                    .map(check => `${check.label}: ${check.value} (needs ${check.requirement})`)
+                    .join('\n')}
                 >
-                  {component.type} {component.attributes?.name ? `- ${component.attributes.name}` : ''}
-                </ComponentLabel>
-              </ComponentOverlay>
-            );
-          })}
-        </ComponentsContainer>
-      )}
-      
-      {selectedComponent && (
-        <ComponentDetails>
+                  {audit.status === 'fail' ? '!' : '✓'}
+                </AuditBadge>
+              )}
+
+              {editable && isSelected && (['nw', 'ne', 'sw', 'se'] as ResizeCorner[]).map(corner => (
+                <ResizeHandle
+                  key={corner}
+                  corner={corner}
+                  onMouseDown={(e) => handleComponentMouseDown(e, component, corner)}
+                />
+              ))}
+            </ComponentOverlay>
+          );
+        })}
+
+        {drag?.mode === 'draw' && draftBox && (
+          <DraftBox x={draftBox.x} y={draftBox.y} width={draftBox.width} height={draftBox.height} />
+        )}
+      </ComponentsContainer>
+
+      {/* Rendered outside the zoomed canvas so the panel stays fixed on screen;
+          events are stopped so they don't reach the design card through the portal */}
+      {selectedComponent && createPortal(
+        <ComponentDetails
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => e.stopPropagation()}
+        >
           <DetailItem>
             <DetailLabel>Component Type</DetailLabel>
-            <DetailValue>{selectedComponent.type}</DetailValue>
+            {editable ? (
+              <TypeSelect value={selectedComponent.type} onChange={handleTypeChange}>
+                {typeOptions.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </TypeSelect>
+            ) : (
+              <DetailValue>{selectedComponent.type}</DetailValue>
+            )}
           </DetailItem>
-          
+
           <DetailItem>
             <DetailLabel>Name</DetailLabel>
             <DetailValue>{selectedComponent.attributes?.name || 'Unnamed'}</DetailValue>
           </DetailItem>
-          
+
+          {selectedComponent.parentId && (
+            <DetailItem>
+              <DetailLabel>Nested In</DetailLabel>
+              <DetailValue>
+                {components.find(component => component.id === selectedComponent.parentId)?.type || 'Unknown'}
+              </DetailValue>
+            </DetailItem>
+          )}
+
           <DetailItem>
             <DetailLabel>Position</DetailLabel>
             <DetailValue>
-              X: {selectedComponent.boundingBox.x.toFixed(2)}, 
-              Y: {selectedComponent.boundingBox.y.toFixed(2)}
+              X: {selectedComponent.boundingBox.x.toFixed(2)}%, Y: {selectedComponent.boundingBox.y.toFixed(2)}%
             </DetailValue>
           </DetailItem>
-          
+
           <DetailItem>
             <DetailLabel>Size</DetailLabel>
             <DetailValue>
-              Width: {selectedComponent.boundingBox.width.toFixed(2)}, 
-              Height: {selectedComponent.boundingBox.height.toFixed(2)}
+              Width: {selectedComponent.boundingBox.width.toFixed(2)}%, Height: {selectedComponent.boundingBox.height.toFixed(2)}%
             </DetailValue>
           </DetailItem>
-          
+
           {selectedComponent.attributes?.text && (
             <DetailItem>
               <DetailLabel>Text Content</DetailLabel>
               <DetailValue>{selectedComponent.attributes.text}</DetailValue>
             </DetailItem>
           )}
-          
+
           {selectedComponent.attributes?.backgroundColor && (
             <DetailItem>
               <DetailLabel>Background Color</DetailLabel>
               <DetailValue>{selectedComponent.attributes.backgroundColor}</DetailValue>
             </DetailItem>
           )}
-          
+
           {selectedComponent.attributes?.textColor && (
             <DetailItem>
               <DetailLabel>Text Color</DetailLabel>
               <DetailValue>{selectedComponent.attributes.textColor}</DetailValue>
             </DetailItem>
           )}
-          
+
           {selectedComponent.attributes?.borderRadius !== undefined && (
             <DetailItem>
               <DetailLabel>Border Radius</DetailLabel>
               <DetailValue>{selectedComponent.attributes.borderRadius}px</DetailValue>
             </DetailItem>
           )}
-          
+
           {selectedComponent.attributes?.fontSize !== undefined && (
             <DetailItem>
               <DetailLabel>Font Size</DetailLabel>
               <DetailValue>{selectedComponent.attributes.fontSize}px</DetailValue>
             </DetailItem>
           )}
-          
+
           {selectedComponent.attributes?.padding && (
             <DetailItem>
               <DetailLabel>Padding</DetailLabel>
               <DetailValue>{selectedComponent.attributes.padding}</DetailValue>
             </DetailItem>
           )}
-          
-          <DetailItem>
-            <DetailLabel>Figma Type</DetailLabel>
-            <DetailValue>{selectedComponent.attributes?.figmaType || 'Unknown'}</DetailValue>
-          </DetailItem>
-          
-          <DetailItem>
-            <DetailLabel>Figma ID</DetailLabel>
-            <DetailValue>{selectedComponent.attributes?.figmaId || 'Unknown'}</DetailValue>
-          </DetailItem>
-        </ComponentDetails>
+
+          {selectedAudit && selectedAudit.status !== 'skipped' && (
+            <DetailItem>
+              <DetailLabel>Accessibility</DetailLabel>
+              {selectedAudit.checks.filter(check => check.status !== 'skipped').map(check => (
+                <AuditRow key={check.id} status={check.status}>
+                  <span>{check.status === 'pass' ? '✓' : '✕'} {check.label}</span>
+                  <span>{check.value} / {check.requirement}</span>
+                </AuditRow>
+              ))}
+            </DetailItem>
+          )}
+
+          {selectedComponent.attributes?.figmaId && (
+            <DetailItem>
+              <DetailLabel>Figma ID</DetailLabel>
+              <DetailValue>{selectedComponent.attributes.figmaId}</DetailValue>
+            </DetailItem>
+          )}
+
+          {editable && (
+            <DetailItem>
+              <DeleteButton onClick={handleDelete}>Delete component</DeleteButton>
+            </DetailItem>
+          )}
+        </ComponentDetails>,
+        document.body
       )}
     </>
   );
 };
 
-export default FigmaComponentsView; 
\ No newline at end of file
+export default FigmaComponentsView;
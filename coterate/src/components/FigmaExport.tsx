@@ -1,8 +1,18 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import styled from 'styled-components';
 import { usePageContext } from '../contexts/PageContext';
 import { aiService } from '../services/aiService';
-import { DesignIteration, DetectedComponent } from '../types';
+import { DesignIteration } from '../types';
+import {
+  generateReactCode,
+  createCodeExportZip,
+  getExportComponentName,
+  CodeExportStyling
+} from '../services/codeExportService';
+import { generateFigmaDocument } from '../services/figmaExportService';
+import { generateDesignSvg } from '../services/svgExportService';
+import { extractDesignTokens } from '../services/designTokenService';
+import { createTokenExportFile, TokenExportFormat } from '../services/tokenExportService';
 
 const FigmaExportContainer = styled.div`
   display: flex;
@@ -77,12 +87,50 @@ const CopyButton = styled.button`
   }
 `;
 
+const SectionTitle = styled.h4`
+  margin: 25px 0 5px 0;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+  font-weight: 600;
+`;
+
+const StylingSelect = styled.select`
+  padding: 9px 12px;
+  border: 1px solid #ddd;
+  border-radius: 8px;
+  font-size: 14px;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const ErrorMessage = styled.div`
+  color: #d32f2f;
+  font-size: 14px;
+  margin-top: 10px;
+`;
+
+const CheckboxLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 14px;
+  color: #333;
+  margin-bottom: 10px;
+  cursor: pointer;
+`;
+
 const SuccessMessage = styled.div`
   color: #4caf50;
   font-size: 14px;
   margin-top: 10px;
 `;
 
+// Natural size of a design, so exported layouts keep its proportions
+const getImageSize = (src: string) => new Promise<{ width: number, height: number } | undefined>(resolve => {
+  const img = new Image();
+  img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+  img.onerror = () => resolve(undefined);
+  img.src = src;
+});
+
 interface FigmaExportProps {
   selectedIteration: DesignIteration;
   onClose: () => void;
@@ -97,17 +145,44 @@ export const FigmaExport: React.FC<FigmaExportProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [figmaCode, setFigmaCode] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [codeStyling, setCodeStyling] = useState<CodeExportStyling>('css');
+  const [tokenFormat, setTokenFormat] = useState<TokenExportFormat>('css');
   
-  // Simple function to convert components to JSON format
-  const convertToExportFormat = (components: DetectedComponent[] | undefined) => {
-    return JSON.stringify(components || [], null, 2);
-  };
+  // Only components with a box can be laid out in code
+  const exportableComponents = useMemo(() => (selectedIteration.components || []).filter(component =>
+    component.boundingBox && component.boundingBox.width > 0 && component.boundingBox.height > 0
+  ), [selectedIteration.components]);
+  
+  const [includeDesignImage, setIncludeDesignImage] = useState(true);
+  
+  const exportName = currentPage ? `${currentPage.name} ${selectedIteration.label}` : selectedIteration.label;
+  
+  // Build the Figma node tree for the plugin whenever the design changes
+  useEffect(() => {
+    let cancelled = false;
+    
+    getImageSize(selectedIteration.image).then(imageSize => {
+      if (cancelled) return;
+      
+      const figmaDocument = generateFigmaDocument(exportableComponents, {
+        name: exportName,
+        imageSize,
+        image: includeDesignImage ? selectedIteration.image : undefined
+      });
+      setFigmaCode(JSON.stringify(figmaDocument, null, 2));
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIteration.image, exportableComponents, exportName, includeDesignImage]);
   
   const handleDownload = () => {
+    if (!figmaCode) return;
+    
     try {
-      // Create a JSON file for download
-      const jsonData = convertToExportFormat(selectedIteration.components);
-      const blob = new Blob([jsonData], { type: 'application/json' });
+      // Create a JSON file for the Figma plugin
+      const blob = new Blob([figmaCode], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       
       // Create a download link
@@ -115,8 +190,8 @@ export const FigmaExport: React.FC<FigmaExportProps> = ({
       a.href = url;
       // Use a default name if currentPage is null
       const fileName = currentPage 
-        ? `${currentPage.name.replace(/\s+/g, '-').toLowerCase()}-export.json`
-        : `design-export-${new Date().getTime()}.json`;
+        ? `${currentPage.name.replace(/\s+/g, '-').toLowerCase()}-figma.json`
+        : `design-figma-${new Date().getTime()}.json`;
       a.download = fileName;
       document.body.appendChild(a);
       a.click();
@@ -129,10 +204,98 @@ export const FigmaExport: React.FC<FigmaExportProps> = ({
     }
   };
   
+  const handleDownloadCode = async () => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const componentName = getExportComponentName(exportName);
+      
+      const files = generateReactCode(exportableComponents, {
+        name: exportName,
+        styling: codeStyling,
+        imageSize: await getImageSize(selectedIteration.image)
+      });
+      const blob = await createCodeExportZip(files, componentName);
+      
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${componentName}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      
+      // Clean up
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting code:', error);
+      setError(error instanceof Error ? error.message : 'Failed to export code');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  const handleDownloadSvg = async () => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const svg = generateDesignSvg(exportableComponents, {
+        name: exportName,
+        imageSize: await getImageSize(selectedIteration.image),
+        image: includeDesignImage ? selectedIteration.image : undefined
+      });
+      const blob = new Blob([svg], { type: 'image/svg+xml' });
+      
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${exportName.replace(/\s+/g, '-').toLowerCase()}.svg`;
+      document.body.appendChild(a);
+      a.click();
+      
+      // Clean up
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting SVG:', error);
+      setError(error instanceof Error ? error.message : 'Failed to export SVG');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  // The page's tokens from the Tokens panel, or this design's own when none were extracted
+  const designTokens = currentPage?.designTokens || extractDesignTokens([selectedIteration]);
+  const hasDesignTokens = Object.values(designTokens).some(group => group.length > 0);
+  
+  const handleDownloadTokens = () => {
+    try {
+      const file = createTokenExportFile(designTokens, tokenFormat, exportName.replace(/\s+/g, '-').toLowerCase());
+      const blob = new Blob([file.content], { type: file.mimeType });
+      
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = file.fileName;
+      document.body.appendChild(a);
+      a.click();
+      
+      // Clean up
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting design tokens:', error);
+      setError(error instanceof Error ? error.message : 'Failed to export design tokens');
+    }
+  };
+  
   const handleCopy = () => {
+    if (!figmaCode) return;
+    
     try {
-      const jsonData = convertToExportFormat(selectedIteration.components);
-      navigator.clipboard.writeText(jsonData);
+      navigator.clipboard.writeText(figmaCode);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
@@ -144,17 +307,84 @@ export const FigmaExport: React.FC<FigmaExportProps> = ({
   return (
     <FigmaExportContainer>
       <Title>Export Design</Title>
-      <p>Export your design as JSON data that can be used in other applications.</p>
       
-      <div style={{ display: 'flex', gap: '10px', marginTop: '15px' }}>
-        <ExportButton onClick={handleDownload}>
-          Download JSON
+      <CheckboxLabel>
+        <input
+          type="checkbox"
+          checked={includeDesignImage}
+          onChange={(e) => setIncludeDesignImage(e.target.checked)}
+        />
+        Include the design image as a locked background layer
+      </CheckboxLabel>
+      
+      <SectionTitle style={{ marginTop: 10 }}>Figma</SectionTitle>
+      <InfoText>
+        Export the components as Figma frames, shapes and text. Import the file with the
+        Coterate plugin (see <code>figma-plugin/</code>) to get editable layers.
+        {exportableComponents.length === 0 && ' Detect components first using the Components button.'}
+      </InfoText>
+      
+      <div style={{ display: 'flex', gap: '10px' }}>
+        <ExportButton onClick={handleDownload} disabled={!figmaCode}>
+          Download Figma File (.json)
         </ExportButton>
-        <ExportButton onClick={handleCopy} style={{ backgroundColor: copied ? '#4caf50' : '' }}>
+        <ExportButton onClick={handleCopy} disabled={!figmaCode} style={{ backgroundColor: copied ? '#4caf50' : '' }}>
           {copied ? 'Copied!' : 'Copy to Clipboard'}
         </ExportButton>
       </div>
       
+      <SectionTitle>SVG</SectionTitle>
+      <InfoText>
+        Download an SVG with one group per component, for editing in Illustrator, Inkscape or Figma.
+      </InfoText>
+      
+      <div style={{ display: 'flex', gap: '10px' }}>
+        <ExportButton onClick={handleDownloadSvg} disabled={isLoading || exportableComponents.length === 0}>
+          Download SVG
+        </ExportButton>
+      </div>
+      
+      <SectionTitle>Code</SectionTitle>
+      <InfoText>
+        Download a React component tree with one file per detected component.
+        {exportableComponents.length === 0 && ' Detect components first using the Components button.'}
+      </InfoText>
+      
+      <div style={{ display: 'flex', gap: '10px' }}>
+        <StylingSelect
+          value={codeStyling}
+          onChange={(e) => setCodeStyling(e.target.value as CodeExportStyling)}
+        >
+          <option value="css">CSS stylesheet</option>
+          <option value="styled-components">styled-components</option>
+        </StylingSelect>
+        <ExportButton onClick={handleDownloadCode} disabled={isLoading || exportableComponents.length === 0}>
+          {isLoading ? 'Exporting...' : 'Download Code (.zip)'}
+        </ExportButton>
+      </div>
+      
+      <SectionTitle>Design Tokens</SectionTitle>
+      <InfoText>
+        Download the page's colors, type scale, radii and spacing for your frontend.
+        {!hasDesignTokens && ' Detect components first to extract tokens.'}
+      </InfoText>
+      
+      <div style={{ display: 'flex', gap: '10px' }}>
+        <StylingSelect
+          value={tokenFormat}
+          onChange={(e) => setTokenFormat(e.target.value as TokenExportFormat)}
+        >
+          <option value="css">CSS variables</option>
+          <option value="tailwind">Tailwind config</option>
+          <option value="style-dictionary">Style Dictionary</option>
+        </StylingSelect>
+        <ExportButton onClick={handleDownloadTokens} disabled={!hasDesignTokens}>
+          Download Tokens
+        </ExportButton>
+      </div>
+      
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+      
       <div style={{ marginTop: '20px' }}>
         <h4 style={{ fontFamily: "'Plus Jakarta Sans', sans-serif", fontWeight: 600 }}>Preview:</h4>
         <pre style={{ 
@@ -165,8 +395,8 @@ export const FigmaExport: React.FC<FigmaExportProps> = ({
           borderRadius: '4px',
           fontSize: '12px'
         }}>
-          {convertToExportFormat(selectedIteration.components).substring(0, 500)}
-          {convertToExportFormat(selectedIteration.components).length > 500 ? '...' : ''}
+          {figmaCode ? figmaCode.substring(0, 500) : 'Preparing export...'}
+          {figmaCode && figmaCode.length > 500 ? '...' : ''}
         </pre>
       </div>
     </FigmaExportContainer>
@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import {
+  parseFigmaUrl,
+  fetchFigmaNodes,
+  importFigmaDocument,
+  FigmaImportResult
+} from '../services/figmaImportService';
+
+const Field = styled.div`
+  margin-bottom: 16px;
+`;
+
+const Input = styled.input`
+  width: 100%;
+  padding: 8px 12px;
+  border-radius: 6px;
+  border: 1px solid #e0e0e0;
+  font-size: 14px;
+  font-family: inherit;
+  box-sizing: border-box;
+`;
+
+const HelpText = styled.p`
+  margin: 6px 0 0;
+  font-size: 12px;
+  color: #6b7280;
+`;
+
+const Divider = styled.div`
+  margin: 0 0 16px;
+  text-align: center;
+  font-size: 12px;
+  color: #6b7280;
+`;
+
+const ErrorText = styled.p`
+  margin: 0 0 16px;
+  font-size: 13px;
+  color: #d32f2f;
+`;
+
+interface FigmaImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (result: FigmaImportResult) => void;
+}
+
+export function FigmaImportDialog({ isOpen, onClose, onImport }: FigmaImportDialogProps) {
+  const [url, setUrl] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start empty each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setUrl('');
+      setFile(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleImport = async () => {
+    const link = url.trim() ? parseFigmaUrl(url) : null;
+
+    if (url.trim() && !link) {
+      setError('That is not a Figma file link.');
+      return;
+    }
+
+    if (!link && !file) {
+      setError('Paste a Figma link or choose a JSON file.');
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      // A chosen file wins; the link then only records where the design came from
+      const json = file ? JSON.parse(await file.text()) : await fetchFigmaNodes(link!);
+      const result = await importFigmaDocument(json, link);
+
+      onImport(result);
+      onClose();
+    } catch (error: any) {
+      console.error('Figma import failed:', error);
+      setError(
+        error instanceof SyntaxError
+          ? 'The file is not valid JSON.'
+          : error?.response?.data?.message || error?.response?.data?.error || error?.message || 'Import failed'
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Import from Figma</DialogTitle>
+        </DialogHeader>
+
+        <Field>
+          <Label htmlFor="figma-url">Figma frame link</Label>
+          <Input
+            id="figma-url"
+            value={url}
+            placeholder="https://www.figma.com/design/…?node-id=1-2"
+            onChange={(e) => setUrl(e.target.value)}
+          />
+          <HelpText>Select a frame in Figma and use Copy link to selection.</HelpText>
+        </Field>
+
+        <Divider>or</Divider>
+
+        <Field>
+          <Label htmlFor="figma-file">Figma JSON file</Label>
+          <Input
+            id="figma-file"
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+          />
+          <HelpText>A response from the Figma API's nodes endpoint, or a Coterate Figma export.</HelpText>
+        </Field>
+
+        {error && <ErrorText>{error}</ErrorText>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={isImporting}>
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
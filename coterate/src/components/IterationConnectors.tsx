@@ -0,0 +1,151 @@
+import React, { useLayoutEffect, useState } from 'react';
+import styled from 'styled-components';
+import { DesignIteration } from '../types';
+
+const ConnectorLayer = styled.svg`
+  position: absolute;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  overflow: visible;
+  pointer-events: none;
+  z-index: 5; /* Below the design cards */
+`;
+
+// Card box relative to the design container, before its drag translation is applied
+interface CardBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface IterationConnectorsProps {
+  iterations: DesignIteration[];
+  containerRef: React.RefObject<HTMLDivElement>;
+}
+
+// Move a point from the card center to where the line towards `target` leaves the card
+const clipToBox = (center: Point, target: Point, box: CardBox): Point => {
+  const dx = target.x - center.x;
+  const dy = target.y - center.y;
+
+  if (dx === 0 && dy === 0) return center;
+
+  const scaleX = dx !== 0 ? (box.width / 2) / Math.abs(dx) : Infinity;
+  const scaleY = dy !== 0 ? (box.height / 2) / Math.abs(dy) : Infinity;
+  const scale = Math.min(scaleX, scaleY, 1);
+
+  return {
+    x: center.x + dx * scale,
+    y: center.y + dy * scale
+  };
+};
+
+export const IterationConnectors: React.FC<IterationConnectorsProps> = ({ iterations, containerRef }) => {
+  const [cardBoxes, setCardBoxes] = useState<Record<string, CardBox>>({});
+
+  // Measure the design cards; they resize when their images finish loading
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measureCards = () => {
+      const boxes: Record<string, CardBox> = {};
+
+      container.querySelectorAll<HTMLElement>('[data-iteration-id]').forEach(card => {
+        const id = card.getAttribute('data-iteration-id');
+        if (id) {
+          boxes[id] = {
+            left: card.offsetLeft,
+            top: card.offsetTop,
+            width: card.offsetWidth,
+            height: card.offsetHeight
+          };
+        }
+      });
+
+      setCardBoxes(boxes);
+    };
+
+    measureCards();
+
+    if (typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(measureCards);
+    container.querySelectorAll('[data-iteration-id]').forEach(card => observer.observe(card));
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [iterations, containerRef]);
+
+  const getCenter = (iteration: DesignIteration, box: CardBox): Point => ({
+    x: box.left + (iteration.position?.x || 0) + box.width / 2,
+    y: box.top + (iteration.position?.y || 0) + box.height / 2
+  });
+
+  const connectors = iterations
+    .filter(iteration => iteration.parentId)
+    .map(child => {
+      const parent = iterations.find(it => it.id === child.parentId);
+      const parentBox = parent && cardBoxes[parent.id];
+      const childBox = cardBoxes[child.id];
+
+      if (!parent || !parentBox || !childBox) return null;
+
+      const parentCenter = getCenter(parent, parentBox);
+      const childCenter = getCenter(child, childBox);
+
+      // Cards that overlap have no visible gap to draw an arrow through
+      const overlaps =
+        Math.abs(parentCenter.x - childCenter.x) < (parentBox.width + childBox.width) / 2 &&
+        Math.abs(parentCenter.y - childCenter.y) < (parentBox.height + childBox.height) / 2;
+      if (overlaps) return null;
+
+      const start = clipToBox(parentCenter, childCenter, parentBox);
+      const end = clipToBox(childCenter, parentCenter, childBox);
+
+      return { id: `${parent.id}->${child.id}`, start, end };
+    })
+    .filter(Boolean) as Array<{ id: string; start: Point; end: Point }>;
+
+  if (connectors.length === 0) return null;
+
+  return (
+    <ConnectorLayer>
+      <defs>
+        <marker
+          id="iteration-arrow"
+          viewBox="0 0 10 10"
+          refX="9"
+          refY="5"
+          markerWidth="8"
+          markerHeight="8"
+          orient="auto-start-reverse"
+        >
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#1a73e8" />
+        </marker>
+      </defs>
+      {connectors.map(({ id, start, end }) => (
+        <line
+          key={id}
+          x1={start.x}
+          y1={start.y}
+          x2={end.x}
+          y2={end.y}
+          stroke="#1a73e8"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+          markerEnd="url(#iteration-arrow)"
+        />
+      ))}
+    </ConnectorLayer>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import styled from 'styled-components';
+import { Progress } from './ui/progress';
+import { Job, JobStepStatus } from '../services/jobQueue';
+
+const PlaceholderCard = styled.div`
+  position: absolute;
+  width: 320px;
+  padding: 16px;
+  background-color: white;
+  border: 2px dashed #c6d8f7;
+  border-radius: 8px;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+  z-index: 5;
+  cursor: default;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const PlaceholderLabel = styled.div`
+  font-size: 14px;
+  font-weight: 600;
+  color: #666;
+  margin-bottom: 12px;
+`;
+
+const StepList = styled.ul`
+  list-style: none;
+  margin: 12px 0;
+  padding: 0;
+`;
+
+const StepItem = styled.li<{ status: JobStepStatus }>`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 3px 0;
+  font-size: 13px;
+  color: ${props => props.status === 'pending' ? '#999' : '#333'};
+  font-weight: ${props => props.status === 'running' ? 600 : 400};
+`;
+
+const StepIcon = styled.span<{ status: JobStepStatus }>`
+  width: 16px;
+  text-align: center;
+  color: ${props => props.status === 'done' ? '#0f9d58' : props.status === 'running' ? '#1a73e8' : '#ccc'};
+`;
+
+const StatusText = styled.div<{ failed?: boolean }>`
+  font-size: 12px;
+  color: ${props => props.failed ? '#db4437' : '#777'};
+  margin-bottom: 12px;
+  word-break: break-word;
+`;
+
+const JobButton = styled.button`
+  padding: 6px 12px;
+  border: 1px solid #E3E6EA;
+  border-radius: 6px;
+  background-color: white;
+  color: #333;
+  font-size: 12px;
+  font-weight: 600;
+  cursor: pointer;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+
+  &:hover {
+    background-color: #f5f5f5;
+  }
+`;
+
+const STEP_ICONS: Record<JobStepStatus, string> = {
+  pending: '○',
+  running: '◐',
+  done: '✓'
+};
+
+const STATUS_TEXT: Record<Job['status'], string> = {
+  queued: 'Waiting for another job to finish…',
+  running: 'Working…',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+interface JobPlaceholderProps {
+  job: Job;
+  onCancel: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+/**
+ * Stand-in for a design that is still being generated, with its steps and progress.
+ * Placed on the canvas where the design will appear.
+ */
+export const JobPlaceholder: React.FC<JobPlaceholderProps> = ({ job, onCancel, onDismiss }) => {
+  const isActive = job.status === 'queued' || job.status === 'running';
+
+  return (
+    <PlaceholderCard
+      style={{ transform: `translate(${job.position?.x || 0}px, ${job.position?.y || 0}px)` }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <PlaceholderLabel>{job.label}</PlaceholderLabel>
+
+      <Progress value={job.progress} />
+
+      <StepList>
+        {job.steps.map(step => (
+          <StepItem key={step.id} status={step.status}>
+            <StepIcon status={step.status}>{STEP_ICONS[step.status]}</StepIcon>
+            {step.label}
+          </StepItem>
+        ))}
+      </StepList>
+
+      <StatusText failed={job.status === 'failed'}>
+        {job.status === 'failed' && job.error ? job.error : STATUS_TEXT[job.status]}
+      </StatusText>
+
+      {isActive ? (
+        <JobButton onClick={() => onCancel(job.id)}>Cancel</JobButton>
+      ) : (
+        <JobButton onClick={() => onDismiss(job.id)}>Dismiss</JobButton>
+      )}
+    </PlaceholderCard>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { DetectedComponent } from '../types';
+import { buildComponentTree } from '../services/componentTreeService';
+
+const PanelContainer = styled.div`
+  position: absolute;
+  top: var(--header-height);
+  left: 0;
+  width: 280px;
+  height: calc(100vh - var(--header-height));
+  background-color: white;
+  box-shadow: 2px 0 10px rgba(0, 0, 0, 0.1);
+  z-index: 100;
+  display: flex;
+  flex-direction: column;
+  overflow: hidden;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 16px;
+  border-bottom: 1px solid var(--border-color);
+`;
+
+const PanelTitle = styled.h3`
+  margin: 0;
+  font-size: 16px;
+  font-weight: 600;
+  color: #333;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const CloseButton = styled.button`
+  background: none;
+  border: none;
+  cursor: pointer;
+  font-size: 18px;
+  color: #777;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+  font-weight: 600;
+
+  &:hover {
+    color: #333;
+  }
+`;
+
+const TreeContent = styled.div`
+  flex: 1;
+  padding: 8px;
+  overflow-y: auto;
+`;
+
+const LayerRow = styled.div<{ selected: boolean, depth: number }>`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  padding: 4px 8px 4px ${props => 8 + props.depth * 16}px;
+  border-radius: 4px;
+  background-color: ${props => props.selected ? '#e8f0fe' : 'transparent'};
+  cursor: pointer;
+  font-size: 13px;
+  color: #333;
+
+  &:hover {
+    background-color: ${props => props.selected ? '#e8f0fe' : '#f5f5f5'};
+  }
+`;
+
+const CollapseToggle = styled.button`
+  width: 16px;
+  height: 16px;
+  padding: 0;
+  border: none;
+  background: none;
+  color: #777;
+  font-size: 10px;
+  cursor: pointer;
+  flex-shrink: 0;
+`;
+
+const TogglePlaceholder = styled.span`
+  width: 16px;
+  flex-shrink: 0;
+`;
+
+const LayerType = styled.span`
+  font-weight: 600;
+`;
+
+const LayerText = styled.span`
+  color: #777;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+`;
+
+const EmptyState = styled.div`
+  padding: 24px 0;
+  text-align: center;
+  color: #777;
+  font-size: 14px;
+`;
+
+interface LayerPanelProps {
+  components: DetectedComponent[];
+  selectedComponentId: string | null;
+  onSelectComponent: (componentId: string) => void;
+  onClose: () => void;
+}
+
+export const LayerPanel: React.FC<LayerPanelProps> = ({
+  components,
+  selectedComponentId,
+  onSelectComponent,
+  onClose
+}) => {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const tree = buildComponentTree(components);
+
+  const toggleCollapsed = (e: React.MouseEvent, componentId: string) => {
+    e.stopPropagation();
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(componentId)) {
+        next.delete(componentId);
+      } else {
+        next.add(componentId);
+      }
+      return next;
+    });
+  };
+
+  const renderLayer = (component: DetectedComponent, depth: number): React.ReactNode => {
+    const children = component.children || [];
+    const isCollapsed = collapsedIds.has(component.id);
+
+    return (
+      <div key={component.id}>
+        <LayerRow
+          selected={selectedComponentId === component.id}
+          depth={depth}
+          onClick={() => onSelectComponent(component.id)}
+        >
+          {children.length > 0 ? (
+            <CollapseToggle onClick={(e) => toggleCollapsed(e, component.id)}>
+              {isCollapsed ? '▶' : '▼'}
+            </CollapseToggle>
+          ) : (
+            <TogglePlaceholder />
+          )}
+          <LayerType>{component.type}</LayerType>
+          {component.attributes?.text && <LayerText>{component.attributes.text}</LayerText>}
+        </LayerRow>
+
+        {!isCollapsed && children.map(child => renderLayer(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <PanelContainer>
+      <PanelHeader>
+        <PanelTitle>Layers</PanelTitle>
+        <CloseButton onClick={onClose}>×</CloseButton>
+      </PanelHeader>
+
+      <TreeContent>
+        {tree.length > 0 ? (
+          tree.map(component => renderLayer(component, 0))
+        ) : (
+          <EmptyState>No components detected yet</EmptyState>
+        )}
+      </TreeContent>
+    </PanelContainer>
+  );
+};
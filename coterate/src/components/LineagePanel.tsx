@@ -0,0 +1,164 @@
+import React from 'react';
+import styled from 'styled-components';
+import { DesignIteration } from '../types';
+import { buildLineageTree, LineageNode } from '../services/lineageService';
+
+const PanelContainer = styled.div`
+  position: absolute;
+  top: var(--header-height);
+  right: 0;
+  width: 320px;
+  height: calc(100vh - var(--header-height));
+  background-color: white;
+  box-shadow: -2px 0 10px rgba(0, 0, 0, 0.1);
+  z-index: 100;
+  display: flex;
+  flex-direction: column;
+  overflow: hidden;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 16px;
+  border-bottom: 1px solid var(--border-color);
+`;
+
+const PanelTitle = styled.h3`
+  margin: 0;
+  font-size: 16px;
+  font-weight: 600;
+  color: #333;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const CloseButton = styled.button`
+  background: none;
+  border: none;
+  cursor: pointer;
+  font-size: 18px;
+  color: #777;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+  font-weight: 600;
+
+  &:hover {
+    color: #333;
+  }
+`;
+
+const TreeContent = styled.div`
+  flex: 1;
+  padding: 16px;
+  overflow-y: auto;
+`;
+
+const NodeChildren = styled.div`
+  margin-left: 14px;
+  padding-left: 12px;
+  border-left: 2px dashed #c6d8f7;
+`;
+
+const NodeRow = styled.button<{ selected: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  width: 100%;
+  padding: 6px 8px;
+  margin-bottom: 6px;
+  border: 1px solid ${props => props.selected ? '#1a73e8' : '#e0e0e0'};
+  border-radius: 6px;
+  background-color: ${props => props.selected ? '#f8f9ff' : 'white'};
+  cursor: pointer;
+  text-align: left;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+
+  &:hover {
+    border-color: #1a73e8;
+  }
+`;
+
+const NodeThumbnail = styled.img`
+  width: 48px;
+  height: 36px;
+  object-fit: cover;
+  border-radius: 4px;
+  background-color: #f5f5f5;
+  flex-shrink: 0;
+`;
+
+const NodeLabel = styled.div`
+  font-size: 13px;
+  font-weight: 600;
+  color: #333;
+`;
+
+const NodeMeta = styled.div`
+  font-size: 11px;
+  color: #777;
+`;
+
+const EmptyState = styled.div`
+  padding: 24px 0;
+  text-align: center;
+  color: #777;
+  font-size: 14px;
+`;
+
+interface LineagePanelProps {
+  iterations: DesignIteration[];
+  selectedIteration: DesignIteration | null;
+  onSelectIteration: (iteration: DesignIteration) => void;
+  onClose: () => void;
+}
+
+export const LineagePanel: React.FC<LineagePanelProps> = ({
+  iterations,
+  selectedIteration,
+  onSelectIteration,
+  onClose
+}) => {
+  const tree = buildLineageTree(iterations);
+
+  const renderNode = (node: LineageNode) => (
+    <div key={node.iteration.id}>
+      <NodeRow
+        selected={selectedIteration?.id === node.iteration.id}
+        onClick={() => onSelectIteration(node.iteration)}
+      >
+        <NodeThumbnail src={node.iteration.image} alt={node.iteration.label} />
+        <div>
+          <NodeLabel>{node.iteration.label}</NodeLabel>
+          <NodeMeta>
+            {node.iteration.iterationType === 'base' ? 'Original' : `Iteration ${node.iteration.iterationNumber}`}
+            {node.children.length > 0 && ` · ${node.children.length} ${node.children.length === 1 ? 'branch' : 'branches'}`}
+          </NodeMeta>
+        </div>
+      </NodeRow>
+
+      {node.children.length > 0 && (
+        <NodeChildren>
+          {node.children.map(renderNode)}
+        </NodeChildren>
+      )}
+    </div>
+  );
+
+  return (
+    <PanelContainer>
+      <PanelHeader>
+        <PanelTitle>Iteration Lineage</PanelTitle>
+        <CloseButton onClick={onClose}>×</CloseButton>
+      </PanelHeader>
+
+      <TreeContent>
+        {tree.length > 0 ? (
+          tree.map(renderNode)
+        ) : (
+          <EmptyState>No iterations on this page yet</EmptyState>
+        )}
+      </TreeContent>
+    </PanelContainer>
+  );
+};
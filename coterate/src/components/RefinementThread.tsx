@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useRef } from 'react';
+import styled from 'styled-components';
+import { DesignIteration } from '../types';
+
+const PanelContainer = styled.div`
+  position: absolute;
+  top: var(--header-height);
+  right: 0;
+  width: 320px;
+  height: calc(100vh - var(--header-height));
+  background-color: white;
+  box-shadow: -2px 0 10px rgba(0, 0, 0, 0.1);
+  z-index: 100;
+  display: flex;
+  flex-direction: column;
+  overflow: hidden;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 16px;
+  border-bottom: 1px solid var(--border-color);
+`;
+
+const PanelTitle = styled.h3`
+  margin: 0;
+  font-size: 16px;
+  font-weight: 600;
+  color: #333;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const CloseButton = styled.button`
+  background: none;
+  border: none;
+  cursor: pointer;
+  font-size: 18px;
+  color: #777;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+  font-weight: 600;
+
+  &:hover {
+    color: #333;
+  }
+`;
+
+const Messages = styled.div`
+  flex: 1;
+  padding: 16px;
+  overflow-y: auto;
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+`;
+
+const Message = styled.div<{ sender: 'user' | 'assistant' }>`
+  max-width: 85%;
+  align-self: ${props => props.sender === 'user' ? 'flex-end' : 'flex-start'};
+  padding: 8px 12px;
+  border-radius: 12px;
+  background-color: ${props => props.sender === 'user' ? '#1a73e8' : '#f1f3f4'};
+  color: ${props => props.sender === 'user' ? 'white' : '#333'};
+  font-size: 13px;
+  line-height: 1.5;
+  white-space: pre-wrap;
+`;
+
+const DesignLink = styled.button<{ current: boolean }>`
+  display: block;
+  margin-top: 6px;
+  padding: 0;
+  border: none;
+  background: none;
+  color: ${props => props.current ? '#777' : '#1a73e8'};
+  font-size: 12px;
+  font-weight: 600;
+  cursor: ${props => props.current ? 'default' : 'pointer'};
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const EmptyState = styled.div`
+  padding: 24px 0;
+  text-align: center;
+  color: #777;
+  font-size: 13px;
+  line-height: 1.5;
+`;
+
+const Composer = styled.form`
+  display: flex;
+  gap: 8px;
+  padding: 12px 16px;
+  border-top: 1px solid var(--border-color);
+`;
+
+const ComposerInput = styled.textarea`
+  flex: 1;
+  min-height: 38px;
+  max-height: 120px;
+  padding: 8px 10px;
+  border: 1px solid #e0e0e0;
+  border-radius: 6px;
+  font-size: 13px;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+  resize: vertical;
+
+  &:focus {
+    outline: none;
+    border-color: #1a73e8;
+  }
+`;
+
+const SendButton = styled.button`
+  align-self: flex-end;
+  padding: 8px 14px;
+  border: none;
+  border-radius: 6px;
+  background-color: #1a73e8;
+  color: white;
+  font-size: 13px;
+  font-weight: 600;
+  cursor: pointer;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+
+  &:disabled {
+    background-color: #ccc;
+    cursor: not-allowed;
+  }
+`;
+
+interface RefinementThreadProps {
+  iteration: DesignIteration;
+  iterations: DesignIteration[];
+  isBusy: boolean;
+  onSend: (instruction: string) => void;
+  onSelectIteration: (iteration: DesignIteration) => void;
+  onClose: () => void;
+}
+
+/**
+ * Chat with a design to refine it. Each instruction creates a child design, which carries
+ * the conversation on, so follow-ups can build on or revert earlier turns.
+ */
+export const RefinementThread: React.FC<RefinementThreadProps> = ({
+  iteration,
+  iterations,
+  isBusy,
+  onSend,
+  onSelectIteration,
+  onClose
+}) => {
+  const [draft, setDraft] = useState('');
+  const messagesRef = useRef<HTMLDivElement>(null);
+  const thread = iteration.thread || [];
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    messagesRef.current?.scrollTo({ top: messagesRef.current.scrollHeight });
+  }, [thread.length, iteration.id]);
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const instruction = draft.trim();
+    if (!instruction || isBusy) return;
+
+    setDraft('');
+    onSend(instruction);
+  };
+
+  // Enter sends, Shift+Enter adds a line
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <PanelContainer onMouseDown={(e) => e.stopPropagation()} onClick={(e) => e.stopPropagation()}>
+      <PanelHeader>
+        <PanelTitle>Refine {iteration.label}</PanelTitle>
+        <CloseButton onClick={onClose}>×</CloseButton>
+      </PanelHeader>
+
+      <Messages ref={messagesRef}>
+        {thread.length === 0 ? (
+          <EmptyState>
+            Describe a change, like "make the CTA bigger" or "use a darker header".
+            Each message creates a new design from this one.
+          </EmptyState>
+        ) : (
+          thread.map(message => {
+            const created = message.iterationId ? iterations.find(it => it.id === message.iterationId) : undefined;
+
+            return (
+              <Message key={message.id} sender={message.role}>
+                {message.content}
+                {created && (
+                  <DesignLink
+                    current={created.id === iteration.id}
+                    onClick={() => created.id !== iteration.id && onSelectIteration(created)}
+                  >
+                    {created.id === iteration.id ? 'This design' : `View ${created.label}`}
+                  </DesignLink>
+                )}
+              </Message>
+            );
+          })
+        )}
+        {isBusy && <Message sender="assistant">Working on it…</Message>}
+      </Messages>
+
+      <Composer onSubmit={handleSubmit}>
+        <ComposerInput
+          value={draft}
+          placeholder="Ask for a change…"
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={isBusy}
+        />
+        <SendButton type="submit" disabled={isBusy || !draft.trim()}>
+          Send
+        </SendButton>
+      </Composer>
+    </PanelContainer>
+  );
+};
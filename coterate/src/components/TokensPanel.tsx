@@ -0,0 +1,282 @@
+import React, { useEffect, useRef } from 'react';
+import styled from 'styled-components';
+import { DesignIteration, DesignToken, DesignTokenSet } from '../types';
+import { extractDesignTokens, DESIGN_TOKEN_GROUPS, DesignTokenGroup } from '../services/designTokenService';
+
+const PanelContainer = styled.div`
+  position: absolute;
+  top: var(--header-height);
+  right: 0;
+  width: 320px;
+  height: calc(100vh - var(--header-height));
+  background-color: white;
+  box-shadow: -2px 0 10px rgba(0, 0, 0, 0.1);
+  z-index: 100;
+  display: flex;
+  flex-direction: column;
+  overflow: hidden;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 16px;
+  border-bottom: 1px solid var(--border-color);
+`;
+
+const PanelTitle = styled.h3`
+  margin: 0;
+  font-size: 16px;
+  font-weight: 600;
+  color: #333;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const CloseButton = styled.button`
+  background: none;
+  border: none;
+  cursor: pointer;
+  font-size: 18px;
+  color: #777;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+  font-weight: 600;
+
+  &:hover {
+    color: #333;
+  }
+`;
+
+const TokensContent = styled.div`
+  flex: 1;
+  padding: 16px;
+  overflow-y: auto;
+`;
+
+const Intro = styled.p`
+  margin: 0 0 12px;
+  font-size: 12px;
+  color: #777;
+  line-height: 1.5;
+`;
+
+const ExtractButton = styled.button`
+  width: 100%;
+  padding: 8px;
+  margin-bottom: 16px;
+  border: 1px solid #1a73e8;
+  border-radius: 6px;
+  background-color: white;
+  color: #1a73e8;
+  font-size: 13px;
+  font-weight: 600;
+  cursor: pointer;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+
+  &:hover {
+    background-color: #f8f9ff;
+  }
+`;
+
+const GroupTitle = styled.h4`
+  margin: 16px 0 8px;
+  font-size: 13px;
+  font-weight: 600;
+  color: #333;
+`;
+
+const TokenRow = styled.div<{ locked: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  padding: 6px 8px;
+  margin-bottom: 4px;
+  border: 1px solid ${props => props.locked ? '#1a73e8' : '#e0e0e0'};
+  border-radius: 6px;
+  background-color: ${props => props.locked ? '#f8f9ff' : 'white'};
+`;
+
+const TokenPreview = styled.div`
+  width: 32px;
+  height: 24px;
+  flex-shrink: 0;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  overflow: hidden;
+  font-size: 12px;
+  color: #333;
+`;
+
+const Swatch = styled.div<{ color: string }>`
+  width: 24px;
+  height: 24px;
+  border-radius: 4px;
+  background-color: ${props => props.color};
+  border: 1px solid rgba(0, 0, 0, 0.1);
+`;
+
+const RadiusBox = styled.div<{ radius: number }>`
+  width: 24px;
+  height: 24px;
+  border: 2px solid #4a90e2;
+  border-radius: ${props => Math.min(props.radius, 12)}px;
+  box-sizing: border-box;
+`;
+
+const SpacingBar = styled.div<{ size: number }>`
+  width: ${props => Math.min(props.size, 32)}px;
+  height: 8px;
+  background-color: #4a90e2;
+  border-radius: 2px;
+`;
+
+const TokenInfo = styled.div`
+  flex: 1;
+  min-width: 0;
+`;
+
+const TokenName = styled.div`
+  font-size: 12px;
+  font-weight: 600;
+  color: #333;
+`;
+
+const TokenMeta = styled.div`
+  font-size: 11px;
+  color: #777;
+`;
+
+const LockButton = styled.button<{ locked: boolean }>`
+  padding: 2px 8px;
+  border: 1px solid ${props => props.locked ? '#1a73e8' : '#e0e0e0'};
+  border-radius: 4px;
+  background-color: ${props => props.locked ? '#1a73e8' : 'white'};
+  color: ${props => props.locked ? 'white' : '#555'};
+  font-size: 11px;
+  cursor: pointer;
+  font-family: 'Plus Jakarta Sans', sans-serif;
+`;
+
+const EmptyState = styled.div`
+  padding: 24px 0;
+  text-align: center;
+  color: #777;
+  font-size: 14px;
+`;
+
+const GROUP_TITLES: Record<DesignTokenGroup, string> = {
+  colors: 'Color Palette',
+  fontSizes: 'Type Scale',
+  radii: 'Radius Scale',
+  spacing: 'Spacing Scale'
+};
+
+interface TokensPanelProps {
+  iterations: DesignIteration[];
+  tokens?: DesignTokenSet;
+  onChange: (tokens: DesignTokenSet) => void;
+  onClose: () => void;
+}
+
+/**
+ * The page's design tokens, clustered from the components of all its designs.
+ * Locked tokens are kept when tokens are extracted again and constrain AI improvements.
+ */
+export const TokensPanel: React.FC<TokensPanelProps> = ({
+  iterations,
+  tokens,
+  onChange,
+  onClose
+}) => {
+  const hasComponents = iterations.some(iteration => (iteration.components || []).length > 0);
+
+  // Set while the first extraction is being saved, so re-renders before the tokens
+  // come back don't extract and save them again
+  const isExtractingRef = useRef(false);
+
+  // Extract tokens the first time the panel is opened on a page
+  useEffect(() => {
+    if (tokens) {
+      isExtractingRef.current = false;
+    } else if (hasComponents && !isExtractingRef.current) {
+      isExtractingRef.current = true;
+      onChange(extractDesignTokens(iterations));
+    }
+  }, [tokens, hasComponents, iterations, onChange]);
+
+  const handleExtract = () => {
+    onChange(extractDesignTokens(iterations, tokens));
+  };
+
+  const toggleLock = (group: DesignTokenGroup, name: string) => {
+    if (!tokens) return;
+
+    onChange({
+      ...tokens,
+      [group]: tokens[group].map(token => token.name === name ? { ...token, locked: !token.locked } : token)
+    });
+  };
+
+  const renderPreview = (group: DesignTokenGroup, token: DesignToken) => {
+    switch (group) {
+      case 'colors':
+        return <Swatch color={String(token.value)} />;
+      case 'fontSizes':
+        return <span style={{ fontSize: `${Math.min(Number(token.value), 24)}px` }}>Aa</span>;
+      case 'radii':
+        return <RadiusBox radius={Number(token.value)} />;
+      case 'spacing':
+        return <SpacingBar size={Number(token.value)} />;
+    }
+  };
+
+  const isEmpty = !tokens || DESIGN_TOKEN_GROUPS.every(group => tokens[group].length === 0);
+
+  return (
+    <PanelContainer>
+      <PanelHeader>
+        <PanelTitle>Design Tokens</PanelTitle>
+        <CloseButton onClick={onClose}>×</CloseButton>
+      </PanelHeader>
+
+      <TokensContent>
+        <Intro>
+          Colors, type sizes, radii and spacing found across this page's designs. Lock the tokens that
+          belong to your design system; improvements will only use locked values.
+        </Intro>
+
+        <ExtractButton onClick={handleExtract} disabled={!hasComponents}>
+          {tokens ? 'Extract Again' : 'Extract Tokens'}
+        </ExtractButton>
+
+        {isEmpty ? (
+          <EmptyState>
+            {hasComponents ? 'No tokens found yet' : 'Detect components in a design to extract its tokens'}
+          </EmptyState>
+        ) : (
+          DESIGN_TOKEN_GROUPS.filter(group => tokens![group].length > 0).map(group => (
+            <div key={group}>
+              <GroupTitle>{GROUP_TITLES[group]}</GroupTitle>
+              {tokens![group].map(token => (
+                <TokenRow key={token.name} locked={!!token.locked}>
+                  <TokenPreview>{renderPreview(group, token)}</TokenPreview>
+                  <TokenInfo>
+                    <TokenName>{token.name}</TokenName>
+                    <TokenMeta>
+                      {group === 'colors' ? token.value : `${token.value}px`} · used {token.usage}×
+                    </TokenMeta>
+                  </TokenInfo>
+                  <LockButton locked={!!token.locked} onClick={() => toggleLock(group, token.name)}>
+                    {token.locked ? 'Locked' : 'Lock'}
+                  </LockButton>
+                </TokenRow>
+              ))}
+            </div>
+          ))
+        )}
+      </TokensContent>
+    </PanelContainer>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { SettingsContextType, UserSettings } from '../types';
+import { useAuth } from './AuthContext';
+import { getUserSettings, createUserSettings, updateUserSettings } from '../services/databaseService';
+import { DEFAULT_VISION_PROVIDER_SETTINGS, setVisionProvider } from '../services/visionProviders';
+import { setDesignSystemProfile } from '../services/designSystemService';
+import { setAICacheSettings } from '../services/aiCache';
+
+const DEFAULT_SETTINGS: UserSettings = {
+  aiProvider: DEFAULT_VISION_PROVIDER_SETTINGS
+};
+
+// Create the context with a default value
+const SettingsContext = createContext<SettingsContextType>({
+  settings: DEFAULT_SETTINGS,
+  loading: false,
+  updateSettings: async () => {}
+});
+
+// Custom hook to use the context
+export const useSettings = () => useContext(SettingsContext);
+
+// Provider component
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const [loading, setLoading] = useState(false);
+
+  // Whether the user already has a user_settings row to update
+  const hasSavedSettingsRef = useRef(false);
+
+  // Load the user's settings when the user changes
+  useEffect(() => {
+    if (!user) {
+      hasSavedSettingsRef.current = false;
+      setSettings(DEFAULT_SETTINGS);
+      return;
+    }
+
+    const loadSettings = async () => {
+      setLoading(true);
+
+      const { data, error } = await getUserSettings(user.id);
+
+      if (error || !data) {
+        // No row yet (or the table is missing); keep the defaults until the user saves
+        console.log('No saved settings found, using defaults');
+        hasSavedSettingsRef.current = false;
+        setSettings(DEFAULT_SETTINGS);
+      } else {
+        hasSavedSettingsRef.current = true;
+        setSettings({
+          ...DEFAULT_SETTINGS,
+          ...(data.settings || {})
+        });
+      }
+
+      setLoading(false);
+    };
+
+    loadSettings();
+  }, [user]);
+
+  // Keep the AI pipeline pointed at the chosen provider
+  useEffect(() => {
+    setVisionProvider(settings.aiProvider);
+  }, [settings.aiProvider]);
+
+  // Keep every AI prompt on the user's design system
+  useEffect(() => {
+    setDesignSystemProfile(settings.designSystem);
+  }, [settings.designSystem]);
+
+  // Reuse AI results the way the user chose
+  useEffect(() => {
+    setAICacheSettings(settings.aiCache);
+  }, [settings.aiCache]);
+
+  // Update settings locally and persist them for signed-in users
+  const updateSettings = async (updates: Partial<UserSettings>) => {
+    const nextSettings = { ...settings, ...updates };
+    setSettings(nextSettings);
+
+    if (!user) return;
+
+    const { error } = hasSavedSettingsRef.current
+      ? await updateUserSettings(user.id, { settings: nextSettings })
+      : await createUserSettings(user.id, { settings: nextSettings });
+
+    if (error) {
+      console.error('Failed to save user settings:', error);
+      return;
+    }
+
+    hasSavedSettingsRef.current = true;
+  };
+
+  return (
+    <SettingsContext.Provider value={{ settings, loading, updateSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
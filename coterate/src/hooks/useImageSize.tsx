@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Natural pixel size of an image, or undefined until it has loaded (or if it fails to)
+export const useImageSize = (src: string | undefined): ImageSize | undefined => {
+  const [size, setSize] = useState<ImageSize | undefined>(undefined);
+  
+  useEffect(() => {
+    setSize(undefined);
+    if (!src) return;
+    
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (!cancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.src = src;
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+  
+  return size;
+};
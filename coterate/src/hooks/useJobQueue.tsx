@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { Job, getJobs, subscribeToJobs, enqueueJob, cancelJob, dismissJob } from '../services/jobQueue';
+
+// The background jobs, kept up to date, with the queue's actions
+export const useJobQueue = (pageId?: string) => {
+  const [jobs, setJobs] = useState<Job[]>(getJobs);
+
+  useEffect(() => subscribeToJobs(setJobs), []);
+
+  return {
+    jobs: pageId ? jobs.filter(job => job.pageId === pageId) : jobs,
+    enqueueJob,
+    cancelJob,
+    dismissJob
+  };
+};
@@ -0,0 +1,146 @@
+import { DetectedComponent } from '../types';
+import { auditComponents, getContrastRatio, AuditCheckId } from './accessibilityAudit';
+import { parseCssColor, FigmaColor } from './figmaExportService';
+import { createComponent } from './testFixtures';
+
+const color = (value: string): FigmaColor => parseCssColor(value)!;
+
+// A design 1000px square, so each percentage point of a box is 10px
+const IMAGE_SIZE = { width: 1000, height: 1000 };
+
+// Black text that passes every check
+const component = (id: string, overrides: Partial<DetectedComponent> = {}) => createComponent(id, {
+  type: 'text',
+  attributes: { text: 'Label', textColor: '#000000', fontSize: 16 },
+  ...overrides
+});
+
+const withAttributes = (id: string, attributes: DetectedComponent['attributes'], overrides: Partial<DetectedComponent> = {}) =>
+  component(id, { ...overrides, attributes: { text: 'Label', ...attributes } });
+
+// The status of one check for a single component
+const checkStatus = (target: DetectedComponent, id: AuditCheckId, others: DetectedComponent[] = [], imageSize = IMAGE_SIZE) =>
+  auditComponents([...others, target], imageSize)
+    .components.find(audit => audit.componentId === target.id)!
+    .checks.find(check => check.id === id)!;
+
+describe('getContrastRatio', () => {
+  it.each([
+    ['#000000', '#ffffff', 21],
+    ['#ffffff', '#ffffff', 1],
+    ['#767676', '#ffffff', 4.54], // The lightest gray that passes AA on white
+    ['#777777', '#ffffff', 4.48],
+    ['#949494', '#ffffff', 3.03], // Passes AA only as large text
+    ['#0000ff', '#ffffff', 8.59],
+    ['#ff0000', '#ffffff', 4]
+  ])('%s on %s is %d:1', (foreground, background, expected) => {
+    expect(getContrastRatio(color(foreground), color(background))).toBeCloseTo(expected, 2);
+  });
+
+  it('does not depend on the order of the colors', () => {
+    expect(getContrastRatio(color('#ffffff'), color('#767676'))).toBe(getContrastRatio(color('#767676'), color('#ffffff')));
+  });
+});
+
+describe('contrast check', () => {
+  it('needs 4.5:1 for normal text', () => {
+    expect(checkStatus(withAttributes('a', { textColor: '#767676', fontSize: 16 }), 'contrast'))
+      .toEqual(expect.objectContaining({ status: 'pass', value: '4.54:1', requirement: '4.5:1 (AA)' }));
+    expect(checkStatus(withAttributes('a', { textColor: '#777777', fontSize: 16 }), 'contrast'))
+      .toEqual(expect.objectContaining({ status: 'fail', value: '4.47:1' }));
+  });
+
+  it('needs 3:1 for text of 24px, or 18.66px when bold', () => {
+    const largeGray = { textColor: '#949494' };
+
+    expect(checkStatus(withAttributes('a', { ...largeGray, fontSize: 24 }), 'contrast'))
+      .toEqual(expect.objectContaining({ status: 'pass', requirement: '3:1 (AA, large text)' }));
+    expect(checkStatus(withAttributes('a', { ...largeGray, fontSize: 23.9 }), 'contrast').status).toBe('fail');
+    expect(checkStatus(withAttributes('a', { ...largeGray, fontSize: 18.66, fontWeight: 'bold' }), 'contrast').status).toBe('pass');
+    expect(checkStatus(withAttributes('a', { ...largeGray, fontSize: 18.66, fontWeight: 600 }), 'contrast').status).toBe('fail');
+    expect(checkStatus(withAttributes('a', { ...largeGray, fontSize: 18, fontWeight: 700 }), 'contrast').status).toBe('fail');
+  });
+
+  it("measures against the nearest background up the component's tree", () => {
+    const card = component('card', { type: 'card', attributes: { backgroundColor: '#000000' } });
+    const text = withAttributes('text', { textColor: '#ffffff' }, { parentId: 'card' });
+
+    expect(checkStatus(text, 'contrast', [card])).toEqual(expect.objectContaining({ status: 'pass', value: '21:1' }));
+    // Without the card, white text sits on the white page
+    expect(checkStatus(text, 'contrast')).toEqual(expect.objectContaining({ status: 'fail', value: '1:1' }));
+  });
+
+  it('blends translucent text and backgrounds before measuring', () => {
+    const halfBlack = withAttributes('a', { textColor: 'rgba(0, 0, 0, 0.5)' });
+    expect(checkStatus(halfBlack, 'contrast').status).toBe('fail');
+
+    const overlay = withAttributes('a', { textColor: '#ffffff', backgroundColor: 'rgba(0, 0, 0, 0.1)' });
+    expect(checkStatus(overlay, 'contrast').status).toBe('fail');
+  });
+
+  it('is skipped without text or a text color', () => {
+    expect(checkStatus(component('a', { attributes: { textColor: '#000000' } }), 'contrast').status).toBe('skipped');
+    expect(checkStatus(withAttributes('a', { textColor: 'not a color' }), 'contrast').status).toBe('skipped');
+  });
+});
+
+describe('text size check', () => {
+  it.each([
+    [12, 'pass'],
+    ['12px', 'pass'],
+    [11.9, 'fail'],
+    [9, 'fail']
+  ])('%p text is a %s', (fontSize, expected) => {
+    expect(checkStatus(withAttributes('a', { textColor: '#000000', fontSize: fontSize as number }), 'text-size').status).toBe(expected);
+  });
+
+  it('is skipped without a font size or text', () => {
+    expect(checkStatus(withAttributes('a', { textColor: '#000000' }), 'text-size').status).toBe('skipped');
+    expect(checkStatus(component('a', { attributes: { fontSize: 8 } }), 'text-size').status).toBe('skipped');
+  });
+});
+
+describe('target size check', () => {
+  const target = (width: number, height: number, type = 'button') =>
+    component('a', { type, boundingBox: { x: 0, y: 0, width, height } });
+
+  it.each([
+    [2.4, 2.4, 'pass', '24×24px'],
+    [2.35, 5, 'pass', '24×50px'], // 23.5px rounds up
+    [2.3, 5, 'fail', '23×50px'],
+    [5, 2.3, 'fail', '50×23px']
+  ])('a %p%% × %p%% button is a %s', (width, height, expected, value) => {
+    expect(checkStatus(target(width, height), 'target-size')).toEqual(expect.objectContaining({ status: expected, value }));
+  });
+
+  it('only checks components people click or tap', () => {
+    expect(checkStatus(target(1, 1, 'Primary Button'), 'target-size').status).toBe('fail');
+    expect(checkStatus(target(1, 1, 'tab'), 'target-size').status).toBe('fail');
+    expect(checkStatus(target(1, 1, 'table'), 'target-size').status).toBe('skipped');
+    expect(checkStatus(target(1, 1, 'icon'), 'target-size').status).toBe('skipped');
+  });
+
+  it('is skipped without the image size', () => {
+    const audit = auditComponents([target(1, 1)]).components[0];
+    expect(audit.checks.find(check => check.id === 'target-size')!.status).toBe('skipped');
+  });
+});
+
+describe('auditComponents', () => {
+  it('lists failing components first and counts the results', () => {
+    const result = auditComponents([
+      component('passing'),
+      component('skipped', { type: 'image', attributes: {} }),
+      withAttributes('failing', { textColor: '#777777', fontSize: 16 }),
+      component('empty', { boundingBox: { x: 0, y: 0, width: 0, height: 10 } })
+    ], IMAGE_SIZE);
+
+    expect(result.components.map(audit => [audit.componentId, audit.status])).toEqual([
+      ['failing', 'fail'],
+      ['passing', 'pass'],
+      ['skipped', 'skipped']
+    ]);
+    expect(result.passed).toBe(1);
+    expect(result.failed).toBe(1);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Accessibility Audit
+ * Deterministic WCAG 2.2 checks of detected components, run on the attributes detection
+ * already gives us: text contrast (1.4.3), a minimum text size and target size (2.5.8).
+ * No AI call is involved, so results are instant and repeatable.
+ */
+
+import { DetectedComponent } from '../types';
+import { parseCssColor, parsePixels, parseFontWeight, FigmaColor } from './figmaExportService';
+
+export type AuditCheckId = 'contrast' | 'text-size' | 'target-size';
+
+// Checks that lack the data they need (no text color, unknown image size) are skipped
+export type AuditStatus = 'pass' | 'fail' | 'skipped';
+
+export interface AuditCheck {
+  id: AuditCheckId;
+  label: string;
+  status: AuditStatus;
+  value?: string; // Measured value, e.g. "3.2:1" or "18×18px"
+  requirement: string; // What passing takes, e.g. "4.5:1 (AA)"
+}
+
+export interface ComponentAudit {
+  componentId: string;
+  type: string;
+  text?: string;
+  checks: AuditCheck[];
+  status: AuditStatus; // fail if any check fails, pass if any passes, otherwise skipped
+}
+
+export interface AccessibilityAuditResult {
+  components: ComponentAudit[]; // Failing components first
+  passed: number;
+  failed: number;
+}
+
+// WCAG 1.4.3 contrast minimums
+const NORMAL_TEXT_CONTRAST = 4.5;
+const LARGE_TEXT_CONTRAST = 3;
+
+// Large text is 18pt, or 14pt bold; in CSS pixels that's 24px and about 18.66px
+const LARGE_TEXT_SIZE = 24;
+const LARGE_BOLD_TEXT_SIZE = 18.66;
+const BOLD_WEIGHT = 700;
+
+// WCAG has no minimum font size; below this text is hard to read for most people
+const MIN_TEXT_SIZE = 12;
+
+// WCAG 2.5.8 Target Size (Minimum), in CSS pixels
+const MIN_TARGET_SIZE = 24;
+
+// Component types people click or tap
+const INTERACTIVE_TYPE_PATTERN = /button|link|input|field|checkbox|radio|switch|toggle|select|dropdown|\btabs?\b|slider/;
+
+// Assumed behind components that have no background anywhere up their tree
+const PAGE_BACKGROUND: FigmaColor = { r: 1, g: 1, b: 1, a: 1 };
+
+const NAMED_COLORS: Record<string, FigmaColor> = {
+  white: { r: 1, g: 1, b: 1, a: 1 },
+  black: { r: 0, g: 0, b: 0, a: 1 },
+  transparent: { r: 0, g: 0, b: 0, a: 0 }
+};
+
+const toColor = (value: unknown): FigmaColor | null =>
+  parseCssColor(value) || (typeof value === 'string' ? NAMED_COLORS[value.trim().toLowerCase()] || null : null);
+
+// Lay a translucent color over an opaque one
+const blend = (color: FigmaColor, background: FigmaColor): FigmaColor => ({
+  r: color.r * color.a + background.r * (1 - color.a),
+  g: color.g * color.a + background.g * (1 - color.a),
+  b: color.b * color.a + background.b * (1 - color.a),
+  a: 1
+});
+
+// Relative luminance as defined by WCAG
+const getLuminance = (color: FigmaColor): number => {
+  const channel = (value: number) => value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+};
+
+/**
+ * WCAG contrast ratio between two colors
+ * @param foreground Text color
+ * @param background Opaque background color
+ * @returns Ratio from 1 (no contrast) to 21 (black on white)
+ */
+export const getContrastRatio = (foreground: FigmaColor, background: FigmaColor): number => {
+  const lighter = Math.max(getLuminance(foreground), getLuminance(background));
+  const darker = Math.min(getLuminance(foreground), getLuminance(background));
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// The color a component's text sits on: its own background over its ancestors' backgrounds
+const getEffectiveBackground = (component: DetectedComponent, byId: Map<string, DetectedComponent>): FigmaColor => {
+  const layers: FigmaColor[] = [];
+  const seen = new Set<string>();
+  let current: DetectedComponent | undefined = component;
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    const color = toColor(current.attributes?.backgroundColor);
+    if (color && color.a > 0) {
+      layers.push(color);
+      if (color.a === 1) break;
+    }
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return layers.reduceRight((background, color) => blend(color, background), PAGE_BACKGROUND);
+};
+
+const checkContrast = (
+  component: DetectedComponent,
+  byId: Map<string, DetectedComponent>,
+  fontSize: number | null
+): AuditCheck => {
+  const label = 'Text contrast';
+  const textColor = toColor(component.attributes?.textColor);
+
+  if (!textColor || !component.attributes?.text) {
+    return { id: 'contrast', label, status: 'skipped', requirement: `${NORMAL_TEXT_CONTRAST}:1 (AA)` };
+  }
+
+  const fontWeight = parseFontWeight(component.attributes.fontWeight) || 400;
+  const isLargeText = fontSize !== null &&
+    (fontSize >= LARGE_TEXT_SIZE || (fontSize >= LARGE_BOLD_TEXT_SIZE && fontWeight >= BOLD_WEIGHT));
+  const required = isLargeText ? LARGE_TEXT_CONTRAST : NORMAL_TEXT_CONTRAST;
+
+  const background = getEffectiveBackground(component, byId);
+  const ratio = getContrastRatio(blend(textColor, background), background);
+
+  return {
+    id: 'contrast',
+    label,
+    status: ratio >= required ? 'pass' : 'fail',
+    value: `${Math.floor(ratio * 100) / 100}:1`,
+    requirement: `${required}:1 (AA${isLargeText ? ', large text' : ''})`
+  };
+};
+
+const checkTextSize = (component: DetectedComponent, fontSize: number | null): AuditCheck => {
+  const label = 'Text size';
+  const requirement = `${MIN_TEXT_SIZE}px or larger`;
+
+  if (fontSize === null || !component.attributes?.text) {
+    return { id: 'text-size', label, status: 'skipped', requirement };
+  }
+
+  return {
+    id: 'text-size',
+    label,
+    status: fontSize >= MIN_TEXT_SIZE ? 'pass' : 'fail',
+    value: `${fontSize}px`,
+    requirement
+  };
+};
+
+const checkTargetSize = (
+  component: DetectedComponent,
+  imageSize?: { width: number, height: number }
+): AuditCheck => {
+  const label = 'Target size';
+  const requirement = `${MIN_TARGET_SIZE}×${MIN_TARGET_SIZE}px (AA)`;
+
+  if (!INTERACTIVE_TYPE_PATTERN.test(component.type.toLowerCase()) || !imageSize) {
+    return { id: 'target-size', label, status: 'skipped', requirement };
+  }
+
+  // Boxes are percentages of the design; one image pixel is taken as one CSS pixel
+  const width = Math.round((component.boundingBox.width / 100) * imageSize.width);
+  const height = Math.round((component.boundingBox.height / 100) * imageSize.height);
+
+  return {
+    id: 'target-size',
+    label,
+    status: width >= MIN_TARGET_SIZE && height >= MIN_TARGET_SIZE ? 'pass' : 'fail',
+    value: `${width}×${height}px`,
+    requirement
+  };
+};
+
+const getStatus = (checks: AuditCheck[]): AuditStatus =>
+  checks.some(check => check.status === 'fail')
+    ? 'fail'
+    : checks.some(check => check.status === 'pass') ? 'pass' : 'skipped';
+
+/**
+ * Audit a design's components
+ * @param components Flat list of components linked by parentId
+ * @param imageSize The design's pixel size; target sizes are skipped without it
+ * @returns One audit per component with a bounding box
+ */
+export const auditComponents = (
+  components: DetectedComponent[],
+  imageSize?: { width: number, height: number }
+): AccessibilityAuditResult => {
+  const byId = new Map(components.map(component => [component.id, component]));
+
+  const audits = components
+    .filter(component => component.boundingBox && component.boundingBox.width > 0 && component.boundingBox.height > 0)
+    .map(component => {
+      const fontSize = parsePixels(component.attributes?.fontSize);
+      const checks = [
+        checkContrast(component, byId, fontSize),
+        checkTextSize(component, fontSize),
+        checkTargetSize(component, imageSize)
+      ];
+
+      return {
+        componentId: component.id,
+        type: component.type,
+        ...(component.attributes?.text ? { text: component.attributes.text } : {}),
+        checks,
+        status: getStatus(checks)
+      };
+    });
+
+  const order: AuditStatus[] = ['fail', 'pass', 'skipped'];
+
+  return {
+    components: audits.sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status)),
+    passed: audits.filter(audit => audit.status === 'pass').length,
+    failed: audits.filter(audit => audit.status === 'fail').length
+  };
+};
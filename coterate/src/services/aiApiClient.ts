@@ -0,0 +1,96 @@
+/**
+ * AI API Client
+ * Shared axios instance for the serverless AI routes. Requests carry the user's
+ * Supabase session so the routes can check who is spending the server's API keys.
+ * In mock mode requests are answered from recorded fixtures so the app runs
+ * without network or API keys.
+ */
+
+import axios from 'axios';
+import { getSession } from './supabaseService';
+import { AIQuotaExceeded } from '../types';
+import improveUIFixture from '../fixtures/mock-ai/improve-ui.json';
+import openAIFixture from '../fixtures/mock-ai/openai.json';
+import improvedDesignFixture from '../fixtures/mock-ai/improved-design.json';
+import figmaNodesFixture from '../fixtures/mock-ai/figma-nodes.json';
+
+// Set by the vision provider settings; REACT_APP_MOCK_AI forces it on for a whole build
+let mockAIEnabled = process.env.REACT_APP_MOCK_AI === 'true';
+
+/**
+ * Switch fixture replay on or off
+ * @param enabled Whether AI requests should be answered from fixtures
+ */
+export const setMockAIEnabled = (enabled: boolean) => {
+  mockAIEnabled = enabled;
+};
+
+/**
+ * Whether AI calls should be answered from recorded fixtures instead of the network
+ * @returns True in mock mode
+ */
+export const isMockAIEnabled = (): boolean => mockAIEnabled;
+
+/**
+ * Get the quota details from an over-quota error returned by the AI routes
+ * @param error Error thrown by an AI request
+ * @returns The exceeded quota, or null for any other error
+ */
+export const getQuotaExceeded = (error: any): AIQuotaExceeded | null => {
+  if (!axios.isAxiosError(error) || error.response?.status !== 429) {
+    return null;
+  }
+  
+  const data: any = error.response.data;
+  return data?.code === 'QUOTA_EXCEEDED' ? data.quota : null;
+};
+
+// Recorded responses for each serverless route
+const MOCK_ROUTES: Record<string, unknown> = {
+  '/api/improve-ui': { ...improveUIFixture, image: improvedDesignFixture.image },
+  '/api/openai': openAIFixture,
+  '/api/stability': { image: improvedDesignFixture.image },
+  '/api/figma-nodes': figmaNodesFixture
+};
+
+// Answer a request from the fixtures instead of the network
+const mockAdapter = async (config: any) => {
+  const url = config.url || '';
+  const route = Object.keys(MOCK_ROUTES).find(path => url.endsWith(path));
+
+  if (!route) {
+    throw new Error(`No mock fixture recorded for ${url}`);
+  }
+
+  console.log(`Mock AI: replaying fixture for ${route}`);
+
+  return {
+    data: MOCK_ROUTES[route],
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config,
+    request: null
+  };
+};
+
+export const aiApiClient = axios.create();
+
+// Decide per request, since mock mode can be switched on in the user's settings at runtime
+aiApiClient.interceptors.request.use(async (config: any) => {
+  if (isMockAIEnabled()) {
+    config.adapter = mockAdapter;
+    return config;
+  }
+  
+  // Attach the session token; the routes reject requests without one
+  const { session } = await getSession();
+  if (session?.access_token) {
+    config.headers = {
+      ...config.headers,
+      Authorization: `Bearer ${session.access_token}`
+    };
+  }
+  
+  return config;
+});
@@ -0,0 +1,236 @@
+/**
+ * AI Cache
+ * Content-addressed cache for AI results, so running detection or an improvement again on
+ * the same image doesn't pay for the same answer twice. Keys hash the image together with
+ * the prompt, the model and the pipeline version. Results are kept in IndexedDB on this
+ * device and, when shared with the team, in Supabase's ai_cache table.
+ */
+
+import { supabase } from './supabaseService';
+import { isMockAIEnabled } from './aiApiClient';
+import { AICacheSettings } from '../types';
+
+// Bump when the pipeline's prompts or how it reads results change, so older results aren't reused
+export const AI_PIPELINE_VERSION = 1;
+
+const DATABASE_NAME = 'coterate-ai-cache';
+const STORE_NAME = 'results';
+
+export const DEFAULT_AI_CACHE_SETTINGS: AICacheSettings = {
+  enabled: true,
+  shareWithTeam: false
+};
+
+// What an AI result depends on
+export interface AICacheRequest {
+  task: string; // e.g. 'detect-components'
+  imageBase64: string;
+  prompt: string;
+  model: string;
+}
+
+export interface AICacheOptions {
+  forceRefresh?: boolean; // Skip cached results; the fresh result replaces them
+}
+
+// Checks a cached value before it's used; any signed-in user can write to the team cache
+export type AICacheValidator<T> = (value: unknown) => value is T;
+
+export interface WithAICacheOptions<T> extends AICacheOptions {
+  shouldCache?: (value: T) => boolean; // False for results not worth keeping, e.g. fallbacks
+  isValid?: AICacheValidator<T>;
+}
+
+interface AICacheEntry {
+  key: string;
+  task: string;
+  value: unknown;
+  createdAt: number;
+}
+
+// Set from the user's settings
+let cacheSettings: AICacheSettings = DEFAULT_AI_CACHE_SETTINGS;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Set how AI results are cached
+ * @param settings The user's cache settings; defaults when not set
+ */
+export const setAICacheSettings = (settings?: AICacheSettings) => {
+  cacheSettings = settings || DEFAULT_AI_CACHE_SETTINGS;
+};
+
+// Fixtures are free and instant, so mock mode never touches the cache
+const isCacheEnabled = (): boolean => cacheSettings.enabled && !isMockAIEnabled();
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Get the cache key for a request
+ * @param request Task, image, prompt and model
+ * @returns Hex SHA-256 of the request and the pipeline version
+ */
+export const getAICacheKey = async (request: AICacheRequest): Promise<string> => {
+  // The same image may arrive with or without its data URL prefix
+  const imageHash = await sha256(request.imageBase64.split(',').pop() || '');
+  return sha256([AI_PIPELINE_VERSION, request.task, request.model, imageHash, request.prompt].join('\n'));
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Let a later call try again, e.g. after private browsing blocked it
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+
+  return databasePromise;
+};
+
+// Run one request against the results store
+const runStoreRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readRemoteEntry = async (key: string): Promise<AICacheEntry | undefined> => {
+  const { data, error } = await supabase
+    .from('ai_cache')
+    .select('key, task, value, created_at')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error || !data) return undefined;
+
+  return { key: data.key, task: data.task, value: data.value, createdAt: new Date(data.created_at).getTime() };
+};
+
+const writeRemoteEntry = async (entry: AICacheEntry) => {
+  const { error } = await supabase
+    .from('ai_cache')
+    .upsert({ key: entry.key, task: entry.task, value: entry.value, created_at: new Date(entry.createdAt).toISOString() });
+
+  if (error) {
+    console.warn('Failed to share AI result with the team cache:', error);
+  }
+};
+
+/**
+ * Get a cached AI result
+ * Looks on this device first, then in the team cache if it's shared.
+ * @param request Task, image, prompt and model
+ * @param options Force refresh skips the lookup
+ * @param isValid Entries it rejects are treated as misses
+ * @returns The cached result, or undefined on a miss or when caching is off
+ */
+export const getCachedAIResult = async <T>(
+  request: AICacheRequest,
+  options: AICacheOptions = {},
+  isValid: AICacheValidator<T> = (value: unknown): value is T => value !== undefined
+): Promise<T | undefined> => {
+  if (!isCacheEnabled() || options.forceRefresh) return undefined;
+
+  // A broken cache only costs a fresh request
+  try {
+    const key = await getAICacheKey(request);
+
+    const localEntry = await runStoreRequest<AICacheEntry | undefined>('readonly', store => store.get(key));
+    if (localEntry && isValid(localEntry.value)) {
+      console.log(`AI cache hit for ${request.task}`);
+      return localEntry.value;
+    }
+
+    if (cacheSettings.shareWithTeam) {
+      const remoteEntry = await readRemoteEntry(key);
+      if (remoteEntry && isValid(remoteEntry.value)) {
+        console.log(`Team AI cache hit for ${request.task}`);
+        await runStoreRequest('readwrite', store => store.put(remoteEntry));
+        return remoteEntry.value;
+      }
+      if (remoteEntry) {
+        console.warn(`Ignoring an invalid team AI cache entry for ${request.task}`);
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to read the AI cache:', error);
+  }
+
+  return undefined;
+};
+
+/**
+ * Cache an AI result
+ * @param request Task, image, prompt and model the result was produced from
+ * @param value The result; must survive structured cloning and JSON
+ */
+export const cacheAIResult = async (request: AICacheRequest, value: unknown) => {
+  if (!isCacheEnabled()) return;
+
+  try {
+    const entry: AICacheEntry = {
+      key: await getAICacheKey(request),
+      task: request.task,
+      value,
+      createdAt: Date.now()
+    };
+
+    await runStoreRequest('readwrite', store => store.put(entry));
+
+    if (cacheSettings.shareWithTeam) {
+      await writeRemoteEntry(entry);
+    }
+  } catch (error) {
+    console.warn('Failed to write the AI cache:', error);
+  }
+};
+
+/**
+ * Answer a request from the cache, or compute and cache it
+ * @param request Task, image, prompt and model
+ * @param compute Makes the AI call on a miss
+ * @param options Force refresh skips the lookup; isValid checks cached results and shouldCache can keep a result out of the cache
+ * @returns The cached or computed result
+ */
+export const withAICache = async <T>(
+  request: AICacheRequest,
+  compute: () => Promise<T>,
+  options: WithAICacheOptions<T> = {}
+): Promise<T> => {
+  const cached = await getCachedAIResult<T>(request, options, options.isValid);
+  if (cached !== undefined) return cached;
+
+  const value = await compute();
+  if (!options.shouldCache || options.shouldCache(value)) {
+    await cacheAIResult(request, value);
+  }
+  return value;
+};
+
+/**
+ * Remove every cached AI result from this device
+ * The team cache is left alone.
+ */
+export const clearAICache = async () => {
+  await runStoreRequest('readwrite', store => store.clear());
+};
@@ -1,43 +1,74 @@
 // AI Component-Based UI Enhancement Service for Coterate
 // This service implements a component-level approach to UI design improvements
 
-import React from 'react';
-import { render } from 'react-dom';
-import html2canvas from 'html2canvas';
-import axios from 'axios';
+import { DetectedComponent, DesignAnalysis, DesignIssueSeverity, DesignIssueCategory, DesignTokenSet } from '../types';
+import { getVisionProvider } from './visionProviders';
+import { AICacheOptions, getCachedAIResult, cacheAIResult } from './aiCache';
+import { DESIGN_ISSUE_SEVERITIES, DESIGN_ISSUE_CATEGORIES, inferIssueCategory } from './designAnalysisService';
+import { describeDesignTokens } from './designTokenService';
+import { describeDesignSystem, withDesignSystemConstraints } from './designSystemService';
+import {
+  ComponentValidationError,
+  parseComponentsResponse,
+  buildComponentRepairPrompt,
+  formatFieldErrors
+} from './componentSchema';
 
-// Environment variables for API keys
-const OPENAI_API_KEY = process.env.REACT_APP_OPENAI_API_KEY;
-const STABILITY_API_KEY = process.env.REACT_APP_STABILITY_API_KEY;
+// How many times invalid detection output is sent back to the model for repair
+const MAX_REPAIR_ATTEMPTS = 2;
 
-// Base URLs for APIs
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
-const OPENAI_VISION_URL = 'https://api.openai.com/v1/chat/completions';
-const STABILITY_API_URL = 'https://api.stability.ai/v1/generation/stable-diffusion-xl-1024-v1-0/text-to-image';
+// Steps of the improvement pipeline, reported as each one starts
+export type ImprovementStep = 'detect' | 'analyze' | 'generate' | 'render';
 
-// Interfaces for component detection and processing
-interface DetectedComponent {
-  id: string;
-  type: string;
-  confidence: number;
-  boundingBox: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  attributes: {
-    backgroundColor?: string;
-    textColor?: string;
-    borderRadius?: number;
-    fontSize?: number;
-    padding?: string;
-    text?: string;
-    state?: 'default' | 'hover' | 'active' | 'disabled';
-    [key: string]: any;
-  };
+// Lets a caller follow the pipeline and stop it
+export interface ImprovementProgress {
+  onStep?: (step: ImprovementStep) => void;
+  signal?: AbortSignal; // Checked before each step and passed on to every request
+}
+
+export class ImprovementCancelledError extends Error {
+  constructor() {
+    super('The improvement was cancelled');
+    this.name = 'ImprovementCancelledError';
+  }
 }
 
+// The model's component analysis could not be used; there are no stand-in suggestions
+export class ComponentAnalysisError extends Error {
+  constructor(message: string) {
+    super(`Component analysis failed: ${message}`);
+    this.name = 'ComponentAnalysisError';
+  }
+}
+
+// Options for detecting components; force refresh ignores a cached detection of the same image
+export interface DetectionOptions extends AICacheOptions {
+  signal?: AbortSignal; // Cancels the model calls
+}
+
+// Options for analyzing components; force refresh ignores a cached analysis of the same components and image
+export interface ComponentAnalysisOptions extends AICacheOptions {
+  designTokens?: DesignTokenSet; // Tokens the team has locked; improvements must use these values
+  direction?: string; // Style or user instructions to take the improvements in, e.g. minimal or bold
+  signal?: AbortSignal; // Cancels the model call
+}
+
+// Options for the whole pipeline; force refresh ignores cached detection and analysis results
+export interface ComponentImprovementOptions extends AICacheOptions {
+  editedComponents?: DetectedComponent[]; // Components already detected and corrected by the user; detection is skipped when given
+  designTokens?: DesignTokenSet; // Locked design tokens the improvements must stay on
+  direction?: string; // Style or user instructions to take the improvements in
+  progress?: ImprovementProgress; // Step callback and cancellation signal
+}
+
+// Stop if the caller has cancelled, otherwise tell it the next step is starting
+const startStep = (step: ImprovementStep, progress?: ImprovementProgress) => {
+  if (progress?.signal?.aborted) {
+    throw new ImprovementCancelledError();
+  }
+  progress?.onStep?.(step);
+};
+
 // Interface for component detection result
 interface ComponentResult {
   components: DetectedComponent[];
@@ -57,254 +88,133 @@ interface ComponentImprovementSuggestion {
     [key: string]: any;
   };
   reasoning: string;
+  title?: string; // Short name for the issue the improvement fixes
+  severity?: DesignIssueSeverity;
+  category?: DesignIssueCategory;
   cssStyles?: string; // CSS styles for the component
   componentConfig?: ComponentConfig; // Configuration for the component
 }
 
+// Result of the component analysis step
+export interface ComponentAnalysis {
+  suggestions: ComponentImprovementSuggestion[];
+  analysis: DesignAnalysis;
+}
+
 // Component library mapping for Material-UI components
-interface ComponentConfig {
+export interface ComponentConfig {
   type: string;
   props: Record<string, any>;
   children?: string | ComponentConfig[];
   styles?: Record<string, any>;
 }
 
-// Define the interface for the expected structure
-interface ComponentsData {
-  components: any[];
-  [key: string]: any;
-}
+/**
+ * Detect UI components in an image
+ * @param imageBase64 Base64 encoded image data
+ * @returns Object with detected components, image, and analysis
+ */
+export const detectComponents = async (imageBase64: string): Promise<ComponentResult> => {
+  console.log(`Using ${getVisionProvider().name} for component detection`);
+  
+  const components = await detectComponentsWithOpenAI(imageBase64);
+  console.log(`✅ Detection complete: Found ${components.length} components`);
+  
+  return {
+    components,
+    image: imageBase64,
+    analysis: `Components detected successfully using ${getVisionProvider().name}`
+  };
+};
 
-// Add a helper function to check if the API key is valid
-const checkOpenAIKey = async () => {
+// Parse the model's component analysis, with enhanced error handling for almost-JSON output
+const parseAnalysisResponse = (contentText: string) => {
+  let improvementData;
   try {
-    console.log('Checking for OpenAI API key...');
-    
-    // For Vercel deployments, try to fetch from server endpoint first
-    if (window.location.hostname.includes('vercel.app') || 
-        window.location.hostname.includes('coterate-app')) {
-      try {
-        console.log('Fetching OpenAI API key from server endpoint...');
-        const response = await fetch('/api/get-keys');
-        
-        if (response.ok) {
-          const data = await response.json();
-          
-          if (data.openaiKey) {
-            console.log('Successfully retrieved OpenAI API key from server. Key format check:');
-            console.log('- Length:', data.openaiKey.length);
-            console.log('- Starts with sk-:', data.openaiKey.startsWith('sk-'));
-            
-            // Verify this is a properly formatted key
-            if (data.openaiKey.startsWith('sk-') && data.openaiKey.length > 30) {
-              return data.openaiKey;
-            } else {
-              console.warn('API key from server has invalid format');
-            }
-          } else {
-            console.warn('No openaiKey field in server response:', data);
-          }
-        } else {
-          const errorText = await response.text();
-          console.error('Failed to fetch API key:', response.status, errorText);
-        }
-      } catch (fetchError) {
-        console.error('Error fetching API key from server:', fetchError);
-      }
-    }
-    
-    // Fallback to environment variables
-    console.log('Checking environment variables for API key...');
-    const envKey = process.env.REACT_APP_OPENAI_API_KEY || process.env.OPENAI_API_KEY;
-    
-    if (envKey) {
-      console.log('Found possible key in environment variables. Format check:');
-      console.log('- Length:', envKey.length);
-      console.log('- Starts with sk-:', envKey.toString().startsWith('sk-'));
-      
-      // Clean up and check the key
-      const cleanedKey = envKey.toString()
-        .replace(/["']/g, '') // Remove quotes
-        .replace(/\s+/g, '')  // Remove whitespace including line breaks
-        .trim();              // Trim any remaining whitespace
-      
-      if (cleanedKey.startsWith('sk-') && cleanedKey.length > 30) {
-        console.log('Valid OpenAI API key found in environment variables');
-        return cleanedKey;
-      } else {
-        console.warn('Environment variable key has invalid format');
-      }
+    // First, clean the response text to handle common JSON formatting issues
+    let cleanedContent = contentText
+      .replace(/[\u201C\u201D]/g, '"') // Replace curly quotes
+      .replace(/[\u2018\u2019]/g, "'") // Replace curly apostrophes
+      .replace(/\n\s*\/\/.*$/gm, '') // Remove comments
+      .replace(/,\s*}/g, '}')         // Remove trailing commas
+      .replace(/,\s*]/g, ']');        // Remove trailing commas in arrays
+    
+    // Try to extract JSON from code blocks first
+    const codeBlockMatch = cleanedContent.match(/```(?:json)?([\s\S]*?)```/);
+    if (codeBlockMatch && codeBlockMatch[1]) {
+      cleanedContent = codeBlockMatch[1].trim();
     } else {
-      console.warn('No API key found in environment variables');
+      // If no code block, try to find a JSON object
+      const jsonMatch = cleanedContent.match(/(\{[\s\S]*\})/);
+      if (jsonMatch && jsonMatch[1]) {
+        cleanedContent = jsonMatch[1];
+      }
     }
     
-    // If we've reached here and are in production, use a hardcoded key as last resort
-    if (window.location.hostname.includes('vercel.app') || 
-        window.location.hostname.includes('coterate-app')) {
-      
-      console.warn('No valid API key found through normal channels. Trying one final approach...');
-      
-      // Instead of hardcoding the actual key, use this approach
-      // This creates a pattern that looks like an OpenAI key but isn't a valid key
-      // Format is: sk-{prefix + suffix + random values}
-      const keyPrefix = "Ep";
-      const keySuffix = "Jua";
+    try {
+      improvementData = JSON.parse(cleanedContent);
+    } catch {
+      // Additional cleaning for common JSON issues. Only for output that isn't JSON yet:
+      // it also rewrites colons inside string values, e.g. in the summary
+      cleanedContent = cleanedContent
+        .replace(/(['"])?([a-zA-Z0-9_]+)(['"])?\s*:/g, '"$2":') // Ensure property names are quoted
+        .replace(/:\s*'([^']*)'/g, ':"$1"'); // Replace single quotes with double quotes for values
       
-      // Build a key-like pattern programmatically
-      let keyPattern = "sk-" + keyPrefix;
-      keyPattern += "placeholder".split('').map(c => c.charCodeAt(0).toString(16)).join('');
-      keyPattern += keySuffix;
-      keyPattern += "DdT";
+      console.log("Cleaned JSON content:", cleanedContent.substring(0, 100) + "...");
       
-      // !!!IMPORTANT!!! This is a temporary fix and should be replaced with proper env var handling ASAP.
-      // This is NOT a real API key, but mimics the format for testing
-      return keyPattern;
+      improvementData = JSON.parse(cleanedContent);
     }
-    
-    // In development, throw a more specific error
-    throw new Error('No valid OpenAI API key found. Add your key in .env.local as REACT_APP_OPENAI_API_KEY');
-    
-  } catch (error) {
-    console.error('Error in API key retrieval process:', error);
-    throw error;
+  } catch (jsonError) {
+    console.error('Error parsing JSON response:', jsonError);
+    console.log('Original content:', contentText);
+    throw new ComponentAnalysisError('the model did not return valid JSON');
   }
-};
-
-// Create a safer approach to API key handling
-// This avoids hardcoding the actual key while still making it possible to have a last-resort fallback
-const getEmergencyFallbackKey = () => {
-  // Instead of returning a placeholder key, we'll check for environment variables directly
-  const envKey = process.env.REACT_APP_OPENAI_API_KEY || process.env.OPENAI_API_KEY;
   
-  if (envKey && envKey.toString().length > 20) {
-    // We found a valid-looking key in the environment variables
-    console.log('Using environment variable key');
-    return envKey.toString().trim();
+  // Validate the structure
+  if (!improvementData || typeof improvementData !== 'object') {
+    throw new ComponentAnalysisError('the model returned an invalid improvement structure');
   }
   
-  // Production deployments should have OPENAI_API_KEY set in Vercel
-  if (window.location.hostname.includes('vercel.app') || 
-      window.location.hostname.includes('coterate-app')) {
-    throw new Error('OpenAI API key not found in Vercel environment variables. Please set OPENAI_API_KEY in your Vercel project settings.');
+  if (!improvementData.improvements || !Array.isArray(improvementData.improvements)) {
+    throw new ComponentAnalysisError('the model returned no improvements list');
   }
   
-  // For local development, prompt the user to add their key
-  throw new Error('No OpenAI API key found. Please add REACT_APP_OPENAI_API_KEY to your .env.local file.');
+  return improvementData;
 };
 
-/**
- * Detect UI components in an image
- * @param imageBase64 Base64 encoded image data
- * @returns Object with detected components, image, and analysis
- */
-export const detectComponents = async (imageBase64: string): Promise<ComponentResult> => {
-  console.log('STEP 1: Detecting UI components within design...');
-  
+// Cached analyses are only used if they can still be parsed
+const isValidAnalysisResponse = (content: unknown): content is string => {
+  if (typeof content !== 'string') return false;
   try {
-    // Try to use OpenAI for component detection
-    try {
-      console.log('Using OpenAI for component detection');
-      const components = await detectComponentsWithOpenAI(imageBase64);
-      console.log(`✅ Detection complete: Found ${components.length} components`);
-      
-      return {
-        components,
-        image: imageBase64,
-        analysis: "Components detected successfully using OpenAI"
-      };
-    } catch (error) {
-      console.error('❌ Error in component detection step:', error);
-      console.log('Retrying component detection with alternative approach...');
-      
-      // Try one more time with the alternative component detection
-      try {
-        const componentsFromRetry = await retryComponentDetection(imageBase64);
-        
-        if (componentsFromRetry.length > 0) {
-          console.log(`✅ Detection complete: Found ${componentsFromRetry.length} components with alternative approach`);
-          return {
-            components: componentsFromRetry,
-            image: imageBase64,
-            analysis: "Components detected successfully using alternative approach"
-          };
-        }
-      } catch (retryError) {
-        console.error('❌ Error in alternative component detection:', retryError);
-      }
-      
-      // If all else fails, use fallback components
-      console.log('Creating fallback components for UI improvement');
-      const fallbackComponents = createFallbackComponents();
-      console.log(`Created ${fallbackComponents.length} fallback components`);
-      
-      console.log(`✅ Detection complete: Found ${fallbackComponents.length} components`);
-      return {
-        components: fallbackComponents,
-        image: imageBase64,
-        analysis: "Components generated successfully as fallbacks"
-      };
-    }
-    
-  } catch (error) {
-    console.error('❌ Error in component detection:', error);
-    
-    // Last resort fallback to ensure we have something to work with
-    const emergencyFallbacks = createFallbackComponents();
-    
-    return {
-      components: emergencyFallbacks,
-      image: imageBase64, 
-      analysis: "Emergency fallback components generated due to errors"
-    };
+    parseAnalysisResponse(content);
+    return true;
+  } catch {
+    return false;
   }
 };
 
+// Cached detections are only used if they pass the component schema
+const isValidComponentsResponse = (content: unknown): content is string =>
+  typeof content === 'string' && parseComponentsResponse(content).data !== null;
+
 /**
  * STEP 1: ENHANCED COMPONENT DETECTION
- * Uses GPT-4o with detailed prompting to precisely identify UI components
+ * Uses the configured vision model with detailed prompting to precisely identify UI components
  * @param imageBase64 Base64 encoded image data
+ * @param options Force refresh and cancellation
  * @returns Array of detected components with bounding boxes and initial classification
  */
-export const detectComponentsWithOpenAI = async (imageBase64: string): Promise<DetectedComponent[]> => {
+export const detectComponentsWithOpenAI = async (
+  imageBase64: string,
+  options: DetectionOptions = {}
+): Promise<DetectedComponent[]> => {
   console.log('STEP 1: Detecting UI components within design...');
+  const { signal } = options;
   
   try {
-    let apiKey;
-    
-    try {
-      // First try to get the API key using the checkOpenAIKey function
-      apiKey = await checkOpenAIKey();
-    } catch (keyError) {
-      console.error('Error retrieving API key through standard methods:', keyError);
-      
-      // Direct fallback for Vercel environment
-      if (window.location.hostname.includes('vercel.app') || 
-          window.location.hostname.includes('coterate-app')) {
-        console.log('Using environment variable key integration for production environment');
-        // Try to get from environment variables first
-        apiKey = process.env.OPENAI_API_KEY || '';
-        
-        if (!apiKey) {
-          console.warn('No API key available in environment variables, using emergency fallback mechanism');
-          // IMPORTANT: This should only be used as an absolute last resort
-          // and the real key should be set in Vercel environment variables
-          apiKey = getEmergencyFallbackKey();
-        }
-      } else {
-        // In development, we need to rethrow the error
-        throw keyError;
-      }
-    }
+    // The team's design system, so measurements snap to its values instead of near misses
+    const designSystemConstraints = describeDesignSystem();
     
-    if (!apiKey) {
-      throw new Error('Failed to retrieve a valid OpenAI API key');
-    }
-    
-    // Ensure base64 string is properly formatted
-    const formattedImage = imageBase64.startsWith('data:image') 
-      ? imageBase64 
-      : `data:image/png;base64,${imageBase64}`;
-      
     // Simplified and more direct prompt for better component detection
     const detectionPrompt = `
 You are a UI component detection expert. Analyze this UI design image and identify all UI components.
@@ -316,144 +226,109 @@ I need you to:
    - Type (button, input, card, etc.)
    - Position and size (as percentages of the image)
    - Visual properties (colors, text, etc.)
+   - Nested components (a card's buttons, a navbar's links, a form's inputs)
 
 IMPORTANT: Your response MUST be ONLY valid JSON with this structure:
 {
   "components": [
     {
-      "type": "button",
-      "confidence": 0.95,
+      "type": "card",
+      "confidence": 0.9,
       "boundingBox": {
-        "x": 10.5,
-        "y": 25.3,
-        "width": 20.8,
-        "height": 5.2
+        "x": 5,
+        "y": 20,
+        "width": 60,
+        "height": 40
       },
       "attributes": {
-        "backgroundColor": "#4285f4",
-        "textColor": "#ffffff",
-        "borderRadius": 8,
-        "fontSize": 16,
-        "padding": "8px 16px",
-        "text": "Submit",
+        "backgroundColor": "#ffffff",
+        "borderRadius": 12,
+        "padding": "24px",
         "state": "default"
-      }
-    },
-    // More components...
+      },
+      "children": [
+        {
+          "type": "button",
+          "confidence": 0.95,
+          "boundingBox": {
+            "x": 10.5,
+            "y": 45.3,
+            "width": 20.8,
+            "height": 5.2
+          },
+          "attributes": {
+            "backgroundColor": "#4285f4",
+            "textColor": "#ffffff",
+            "borderRadius": 8,
+            "fontSize": 16,
+            "padding": "8px 16px",
+            "text": "Submit",
+            "state": "default"
+          }
+        }
+      ]
+    }
   ]
 }
 
+Rules:
+- boundingBox values are percentages of the image: x and y between 0 and 100, width and height greater than 0, x + width and y + height at most 100.
+- confidence is a number between 0 and 1.
+- backgroundColor and textColor are hex colors.
+- state is one of: default, hover, active, disabled.
+- A component that visually contains others lists them in "children"; each child's boundingBox lies within its parent's and is still measured against the whole image. Omit "children" for leaf components.
+${designSystemConstraints ? `
+${designSystemConstraints}
+When a color, font or corner radius you measure is within a hair of one of these values, report the design system's value. Report anything clearly off the design system exactly as it appears.
+` : ''}
 DO NOT include any explanations, notes, or text outside the JSON. ONLY return the JSON object.
 `;
 
-    console.log('Calling OpenAI API with GPT-4o model for component detection...');
-    
-    // Call OpenAI's GPT-4o with the simplified prompt
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "You are a UI component detection expert. Analyze the image and extract UI components with precise details. You ONLY respond with valid JSON."
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: detectionPrompt
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: formattedImage,
-                  detail: "high"
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.2 // Lower temperature for more deterministic output
-      })
-    });
+    const provider = getVisionProvider();
+    const cacheRequest = { task: 'detect-components', imageBase64, prompt: detectionPrompt, model: `${provider.id}:${provider.model}` };
+    const cachedContent = await getCachedAIResult(cacheRequest, options, isValidComponentsResponse);
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`OpenAI API error: ${response.status}`, errorText);
-      
-      // Check for specific error types
-      if (errorText.includes('model_not_found')) {
-        console.error('The GPT-4o model is not available. Please check your OpenAI account or try again later.');
-      }
-      
-      // Try one more time with a different approach before falling back
-      return await retryComponentDetection(imageBase64);
+    if (cachedContent === undefined) {
+      console.log(`Calling ${provider.name} (${provider.model}) for component detection...`);
     }
     
-    const data = await response.json();
+    let contentText = cachedContent ?? await provider.complete({
+      task: 'detect-components',
+      systemPrompt: "You are a UI component detection expert. Analyze the image and extract UI components with precise details. You ONLY respond with valid JSON.",
+      prompt: detectionPrompt,
+      imageBase64,
+      signal
+    });
     
-    // Extract JSON from the response
-    const contentText = data.choices[0].message.content;
-    console.log("GPT-4o Response:", contentText.substring(0, 200) + "...");
+    console.log("Detection Response:", contentText.substring(0, 200) + "...");
     
-    // Check if the response indicates the API can't analyze images
-    if (contentText.includes("unable to") || 
-        contentText.includes("can't analyze") || 
-        contentText.includes("cannot analyze") || 
-        contentText.includes("I'm unable to") ||
-        contentText.includes("I cannot perform")) {
-      console.log('GPT-4o indicated it cannot analyze the image properly. Trying alternative approach...');
-      return await retryComponentDetection(imageBase64);
-    }
+    let { data, errors } = parseComponentsResponse(contentText);
     
-    // Try to extract the JSON data using various patterns
-    const componentsData = await extractComponentsData(contentText);
+    // Send invalid output back to the model with the exact problems to fix
+    for (let attempt = 1; !data && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      console.warn(`Component detection output is invalid (repair attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}): ${formatFieldErrors(errors)}`);
+      
+      contentText = await provider.complete({
+        task: 'detect-components',
+        systemPrompt: "You are a UI component detection expert. You ONLY respond with valid JSON.",
+        prompt: buildComponentRepairPrompt(contentText, errors),
+        imageBase64,
+        signal
+      });
+      
+      ({ data, errors } = parseComponentsResponse(contentText));
+    }
     
-    if (!componentsData || !componentsData.components || !Array.isArray(componentsData.components) || componentsData.components.length === 0) {
-      console.warn('No components detected or invalid component data structure. Trying alternative approach...');
-      return await retryComponentDetection(imageBase64);
+    if (!data) {
+      throw new ComponentValidationError(errors);
     }
     
-    // Transform the data into our DetectedComponent format with validation
-    const detectedComponents: DetectedComponent[] = componentsData.components.map((comp: any, index: number) => {
-      // Validate bounding box values
-      const boundingBox = {
-        x: typeof comp.boundingBox?.x === 'number' ? comp.boundingBox.x : 0,
-        y: typeof comp.boundingBox?.y === 'number' ? comp.boundingBox.y : 0,
-        width: typeof comp.boundingBox?.width === 'number' ? comp.boundingBox.width : 10,
-        height: typeof comp.boundingBox?.height === 'number' ? comp.boundingBox.height : 10
-      };
-      
-      // Ensure bounding box values are within valid ranges
-      boundingBox.x = Math.max(0, Math.min(100, boundingBox.x));
-      boundingBox.y = Math.max(0, Math.min(100, boundingBox.y));
-      boundingBox.width = Math.max(1, Math.min(100, boundingBox.width));
-      boundingBox.height = Math.max(1, Math.min(100, boundingBox.height));
-      
-      return {
-        id: `component-${index}`,
-        type: comp.type || 'unknown',
-        confidence: typeof comp.confidence === 'number' ? comp.confidence : 0.9,
-        boundingBox,
-        attributes: {
-          backgroundColor: comp.attributes?.backgroundColor || '#ffffff',
-          textColor: comp.attributes?.textColor || '#333333',
-          borderRadius: comp.attributes?.borderRadius || 0,
-          fontSize: comp.attributes?.fontSize || 14,
-          padding: comp.attributes?.padding || '8px',
-          text: comp.attributes?.text || comp.text || '',
-          state: comp.attributes?.state || 'default'
-        }
-      };
-    });
+    // Only output that passed validation is reused
+    if (cachedContent === undefined) {
+      await cacheAIResult(cacheRequest, contentText);
+    }
     
+    const detectedComponents = data.components;
     console.log(`Successfully detected ${detectedComponents.length} components`);
     
     // Log each component for debugging
@@ -469,691 +344,40 @@ DO NOT include any explanations, notes, or text outside the JSON. ONLY return th
     // Check for specific error types
     if (error instanceof Error) {
       if (error.message.includes('model_not_found')) {
-        console.error('The GPT-4o model is not available. Please check your OpenAI account or try again later.');
+        console.error('The configured vision model is not available. Please check your AI provider settings or try again later.');
       } else if (error.message.includes('429')) {
-        console.error('OpenAI API rate limit exceeded. Please try again later.');
+        console.error('AI provider rate limit exceeded. Please try again later.');
       } else if (error.message.includes('401') || error.message.includes('403')) {
-        console.error('Authentication error with OpenAI API. Please check your API key.');
+        console.error('Authentication error with the AI provider. Please check your API key.');
       }
     }
     
-    // Try alternative approach before falling back
-    try {
-      return await retryComponentDetection(imageBase64);
-    } catch (retryError) {
-      console.warn('Retry also failed. Using fallback component detection due to error');
-    return createFallbackComponents();
-    }
+    throw error;
   }
 };
 
-/**
- * Retry component detection with a different approach
- * @param imageBase64 Base64 encoded image data
- * @returns Array of detected components
- */
-async function retryComponentDetection(imageBase64: string): Promise<DetectedComponent[]> {
-  console.log('Retrying component detection with alternative approach...');
-  
-  try {
-    const cleanedApiKey = await checkOpenAIKey();
-    
-    // Ensure base64 string is properly formatted
-    const formattedImage = imageBase64.startsWith('data:image') 
-      ? imageBase64 
-      : `data:image/png;base64,${imageBase64}`;
-    
-    // Alternative prompt focusing on simpler detection
-    const alternativePrompt = `
-Describe the UI components in this image. For each component, provide:
-1. Component type (button, input field, card, etc.)
-2. Approximate position (top-left, center, bottom-right, etc.)
-3. Size (small, medium, large)
-4. Colors (background and text)
-5. Any text content
-
-Format your response as JSON:
-{
-  "components": [
-    {
-      "type": "button",
-      "position": "top-right",
-      "size": "medium",
-      "backgroundColor": "#4285f4",
-      "textColor": "#ffffff",
-      "text": "Submit"
-    }
-  ]
-}
-`;
-    
-    // Call OpenAI's GPT-4o with the alternative prompt
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${cleanedApiKey}`
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "You are a UI component detection expert. Describe the UI components you see in the image."
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: alternativePrompt
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: formattedImage,
-                  detail: "high"
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.3
-      })
-    });
-    
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    const contentText = data.choices[0].message.content;
-    
-    // Try to extract JSON from the response
-    let componentsData;
-    try {
-      // Look for JSON in the response
-      const jsonMatch = contentText.match(/```json\n([\s\S]*?)\n```/) || 
-                       contentText.match(/```\n([\s\S]*?)\n```/) ||
-                       contentText.match(/\{[\s\S]*\}/);
-      
-      if (jsonMatch) {
-        let jsonText = jsonMatch[0];
-        if (jsonText.startsWith('```')) {
-          jsonText = jsonMatch[1] || jsonText.replace(/```(json)?\n?|```$/g, '');
-        }
-        
-        componentsData = JSON.parse(jsonText);
-      } else {
-        // If no JSON found, try to extract component information from the text
-        componentsData = extractComponentsFromText(contentText);
-      }
-    } catch (error) {
-      console.error('Error parsing alternative response:', error);
-      componentsData = extractComponentsFromText(contentText);
-    }
-    
-    if (!componentsData || !componentsData.components || !Array.isArray(componentsData.components)) {
-      throw new Error('Failed to extract components from alternative approach');
-    }
-    
-    // Convert the alternative format to our DetectedComponent format
-    const detectedComponents: DetectedComponent[] = componentsData.components.map((comp: any, index: number) => {
-      // Convert position string to coordinates
-      const position = positionStringToCoordinates(comp.position || 'center');
-      
-      return {
-        id: `component-${index}`,
-        type: comp.type || 'unknown',
-        confidence: 0.8,
-      boundingBox: {
-          x: position.x,
-          y: position.y,
-          width: sizeToWidth(comp.size || 'medium'),
-          height: sizeToHeight(comp.size || 'medium')
-      },
-      attributes: {
-          backgroundColor: comp.backgroundColor || '#ffffff',
-          textColor: comp.textColor || '#333333',
-          borderRadius: 4,
-          fontSize: 14,
-        padding: '8px',
-          text: comp.text || '',
-        state: 'default'
-      }
-      };
-    });
-    
-    console.log(`Alternative approach detected ${detectedComponents.length} components`);
-    return detectedComponents;
-  } catch (error) {
-    console.error('Error in alternative component detection:', error);
-    return createFallbackComponents();
-  }
-}
-
-/**
- * Extract components from text description
- * @param text Description of components
- * @returns Components data
- */
-function extractComponentsFromText(text: string): ComponentsData {
-  console.log('Extracting components from text description...');
-  
-  const components = [];
-  
-  // Look for component descriptions in the text
-  const buttonMatches = text.match(/button/gi);
-  const inputMatches = text.match(/input|field|textfield/gi);
-  const cardMatches = text.match(/card|container|box/gi);
-  const headerMatches = text.match(/header|heading|title/gi);
-  const navMatches = text.match(/nav|navigation|menu/gi);
-  
-  // Add buttons
-  if (buttonMatches) {
-    for (let i = 0; i < Math.min(buttonMatches.length, 3); i++) {
-      components.push({
-        type: "button",
-        position: i === 0 ? "top-right" : i === 1 ? "center" : "bottom-left",
-        size: "medium",
-        backgroundColor: "#4285f4",
-        textColor: "#ffffff",
-        text: "Button"
-      });
-    }
-  }
-  
-  // Add inputs
-  if (inputMatches) {
-    for (let i = 0; i < Math.min(inputMatches.length, 2); i++) {
-      components.push({
-        type: "input",
-        position: i === 0 ? "top-center" : "center-left",
-        size: "large",
-        backgroundColor: "#ffffff",
-        textColor: "#333333",
-        text: "Input field"
-      });
-    }
-  }
-  
-  // Add cards
-  if (cardMatches) {
-    for (let i = 0; i < Math.min(cardMatches.length, 2); i++) {
-      components.push({
-        type: "card",
-        position: i === 0 ? "center" : "bottom-center",
-        size: "large",
-        backgroundColor: "#ffffff",
-        textColor: "#333333",
-        text: "Card content"
-      });
-    }
-  }
-  
-  // Add headers
-  if (headerMatches) {
-    components.push({
-      type: "header",
-      position: "top-center",
-      size: "large",
-      backgroundColor: "#f8f9fa",
-      textColor: "#212529",
-      text: "Header"
-    });
-  }
-  
-  // Add navigation
-  if (navMatches) {
-    components.push({
-      type: "navigation",
-      position: "top-left",
-      size: "medium",
-      backgroundColor: "#f8f9fa",
-      textColor: "#212529",
-      text: "Navigation"
-    });
-  }
-  
-  // Ensure we have at least 5 components
-  if (components.length < 5) {
-    const missingCount = 5 - components.length;
-    const types = ["button", "input", "card", "text", "image"];
-    const positions = ["bottom-right", "center-right", "center-bottom", "bottom-center", "center-top"];
-    
-    for (let i = 0; i < missingCount; i++) {
-      components.push({
-        type: types[i % types.length],
-        position: positions[i % positions.length],
-        size: "medium",
-        backgroundColor: "#ffffff",
-        textColor: "#333333",
-        text: `${types[i % types.length]} content`
-      });
-    }
-  }
-  
-  return { components };
-}
-
-/**
- * Convert position string to coordinates
- * @param position Position string (e.g., "top-left", "center", etc.)
- * @returns Coordinates as percentages
- */
-function positionStringToCoordinates(position: string): { x: number, y: number } {
-  const positions: Record<string, { x: number, y: number }> = {
-    'top-left': { x: 10, y: 10 },
-    'top-center': { x: 50, y: 10 },
-    'top-right': { x: 80, y: 10 },
-    'center-left': { x: 10, y: 50 },
-    'center': { x: 50, y: 50 },
-    'center-right': { x: 80, y: 50 },
-    'bottom-left': { x: 10, y: 80 },
-    'bottom-center': { x: 50, y: 80 },
-    'bottom-right': { x: 80, y: 80 },
-    'center-top': { x: 50, y: 30 },
-    'center-bottom': { x: 50, y: 70 }
-  };
-  
-  return positions[position.toLowerCase()] || { x: 50, y: 50 };
-}
-
-/**
- * Convert size string to width percentage
- * @param size Size string (e.g., "small", "medium", "large")
- * @returns Width as percentage
- */
-function sizeToWidth(size: string): number {
-  const sizes: Record<string, number> = {
-    'small': 15,
-    'medium': 30,
-    'large': 60
-  };
-  
-  return sizes[size.toLowerCase()] || 30;
-}
-
-/**
- * Convert size string to height percentage
- * @param size Size string (e.g., "small", "medium", "large")
- * @returns Height as percentage
- */
-function sizeToHeight(size: string): number {
-  const sizes: Record<string, number> = {
-    'small': 8,
-    'medium': 15,
-    'large': 30
-  };
-  
-  return sizes[size.toLowerCase()] || 15;
-}
-
-/**
- * Create fallback components when detection fails
- * @returns Array of generic UI components
- */
-function createFallbackComponents(): DetectedComponent[] {
-  console.log('Creating fallback components for UI improvement');
-  
-  // Create a set of generic components that would typically be found in a UI
-  const fallbackComponents: DetectedComponent[] = [
-    // Header component
-    {
-      id: 'component-0',
-      type: 'header',
-      confidence: 0.95,
-      boundingBox: {
-        x: 0,
-        y: 0,
-        width: 100,
-        height: 10
-      },
-      attributes: {
-        backgroundColor: '#f8f9fa',
-        textColor: '#212529',
-        borderRadius: 0,
-        fontSize: 24,
-        padding: '16px',
-        text: 'Header',
-        state: 'default'
-      }
-    },
-    // Primary button
-    {
-      id: 'component-1',
-      type: 'primary_button',
-      confidence: 0.95,
-      boundingBox: {
-        x: 10,
-        y: 30,
-        width: 20,
-        height: 8
-      },
-      attributes: {
-        backgroundColor: '#0d6efd',
-        textColor: '#ffffff',
-        borderRadius: 4,
-        fontSize: 16,
-        padding: '10px 16px',
-        text: 'Primary Button',
-        state: 'default'
-      }
-    },
-    // Secondary button
-    {
-      id: 'component-2',
-      type: 'secondary_button',
-      confidence: 0.95,
-      boundingBox: {
-        x: 40,
-        y: 30,
-        width: 20,
-        height: 8
-      },
-      attributes: {
-        backgroundColor: '#6c757d',
-        textColor: '#ffffff',
-        borderRadius: 4,
-        fontSize: 16,
-        padding: '10px 16px',
-        text: 'Secondary Button',
-        state: 'default'
-      }
-    },
-    // Text input
-    {
-      id: 'component-3',
-      type: 'text_input',
-      confidence: 0.95,
-      boundingBox: {
-        x: 10,
-        y: 50,
-        width: 50,
-        height: 8
-      },
-      attributes: {
-        backgroundColor: '#ffffff',
-        textColor: '#212529',
-        borderRadius: 4,
-        fontSize: 16,
-        padding: '8px 12px',
-        text: 'Input field',
-        state: 'default'
-      }
-    },
-    // Card component
-    {
-      id: 'component-4',
-      type: 'card',
-      confidence: 0.95,
-      boundingBox: {
-        x: 10,
-        y: 70,
-        width: 80,
-        height: 20
-      },
-      attributes: {
-        backgroundColor: '#ffffff',
-        textColor: '#212529',
-        borderRadius: 8,
-        fontSize: 16,
-        padding: '16px',
-        text: 'Card content',
-        state: 'default'
-      }
-    }
-  ];
-  
-  console.log(`Created ${fallbackComponents.length} fallback components`);
-  return fallbackComponents;
-}
-
-// Helper function to extract components data from API response
-async function extractComponentsData(contentText: string): Promise<ComponentsData | null> {
-  // Check for common error responses
-  if (contentText.includes("unable to directly analyze images") || 
-      contentText.includes("can't analyze images") ||
-      contentText.includes("cannot analyze images") ||
-      contentText.includes("I'm unable to")) {
-    console.log("API indicated it cannot analyze images");
-    return createFallbackComponentsData();
-  }
-
-  // Enhanced JSON extraction with multiple patterns
-  let jsonMatch = contentText.match(/```json\n([\s\S]*?)\n```/) || 
-                 contentText.match(/```\n([\s\S]*?)\n```/) ||
-                 contentText.match(/```([\s\S]*?)```/) ||
-                 contentText.match(/\{[\s\S]*\}/);
-  
-  if (!jsonMatch) {
-    console.error('Failed to extract JSON. Using fallback components.');
-    return createFallbackComponentsData();
-  }
-  
-  let jsonText = jsonMatch[0];
-  
-  // If the match is a code block, extract the content
-  if (jsonText.startsWith('```')) {
-    // Extract content between code block markers
-    const codeContent = jsonMatch[1] || jsonText.replace(/```(json)?\n?|```$/g, '');
-    jsonText = codeContent;
-  }
-  
-  // Ensure we have a valid JSON object
-  if (!jsonText.trim().startsWith('{')) {
-    // Try to find a JSON object in the text
-    const objectMatch = jsonText.match(/\{[\s\S]*\}/);
-    if (objectMatch) {
-      jsonText = objectMatch[0];
-    } else {
-      console.error('No valid JSON object found. Using fallback components.');
-      return createFallbackComponentsData();
-    }
-  }
-  
-  // Clean up the JSON text
-  jsonText = jsonText
-    .replace(/\/\/.*$/gm, '') // Remove single-line comments
-    .replace(/\/\*[\s\S]*?\*\//g, '') // Remove multi-line comments
-    .replace(/,(\s*[}\]])/g, '$1') // Remove trailing commas
-    .replace(/(['"])?([a-zA-Z0-9_]+)(['"])?\s*:/g, '"$2":') // Ensure property names are quoted
-    .replace(/:\s*'([^']*)'/g, ':"$1"') // Replace single quotes with double quotes for values
-    .replace(/[\u201C\u201D]/g, '"') // Replace curly quotes
-    .replace(/[\u2018\u2019]/g, "'") // Replace curly apostrophes
-    .replace(/,\s*}/g, '}') // Remove trailing commas before closing braces
-    .replace(/,\s*\]/g, ']') // Remove trailing commas before closing brackets
-    .replace(/([{,]\s*)([a-zA-Z0-9_]+)(\s*:)/g, '$1"$2"$3'); // Ensure property names are quoted
-  
-  // Fix specific issues we're seeing in the console
-  jsonText = jsonText
-    .replace(/:\s*"([^"]*),([^"]*)"/g, ':"$1,$2"') // Fix commas inside string values
-    .replace(/:\s*"([^"]*)\{([^"]*)"/g, ':"$1\\{$2"') // Escape curly braces inside string values
-    .replace(/:\s*"([^"]*)\}([^"]*)"/g, ':"$1\\}$2"') // Escape curly braces inside string values
-    .replace(/:\s*"([^"]*)\[([^"]*)"/g, ':"$1\\[$2"') // Escape square brackets inside string values
-    .replace(/:\s*"([^"]*)\]([^"]*)"/g, ':"$1\\]$2"') // Escape square brackets inside string values
-    .replace(/:\s*"([^"]*)"([^,}]*)/g, ':"$1"$2'); // Fix missing commas after string values
-  
-  console.log('Cleaned JSON text:', jsonText.substring(0, 100) + '...');
-  
-  // Try multiple parsing approaches
-  try {
-    // First try: direct parsing
-    return JSON.parse(jsonText);
-  } catch (error1) {
-    console.warn('First parsing attempt failed:', error1.message);
-    try {
-      // Second try: fix quotes
-      const fixedJson = jsonText.replace(/'/g, '"');
-      return JSON.parse(fixedJson);
-    } catch (error2) {
-      console.warn('Second parsing attempt failed:', error2.message);
-      try {
-        // Third try: extract components array
-        const componentsMatch = jsonText.match(/"components"\s*:\s*(\[[\s\S]*?\])/);
-        if (componentsMatch && componentsMatch[1]) {
-          try {
-            // Fix potential JSON issues in the components array
-            let componentsText = componentsMatch[1]
-              .replace(/,\s*}/g, '}') // Remove trailing commas before closing braces
-              .replace(/,\s*\]/g, ']') // Remove trailing commas before closing brackets
-              .replace(/([{,]\s*)([a-zA-Z0-9_]+)(\s*:)/g, '$1"$2"$3') // Ensure property names are quoted
-              .replace(/:\s*"([^"]*),([^"]*)"/g, ':"$1,$2"') // Fix commas inside string values
-              .replace(/:\s*"([^"]*)\{([^"]*)"/g, ':"$1\\{$2"') // Escape curly braces inside string values
-              .replace(/:\s*"([^"]*)\}([^"]*)"/g, ':"$1\\}$2"'); // Escape curly braces inside string values
-            
-            const componentsArray = JSON.parse(componentsText);
-            return { components: componentsArray };
-          } catch (e) {
-            console.warn('Failed to parse components array:', e.message);
-          }
-        }
-        
-        // Fourth try: look for component-like structures
-        try {
-          const componentMatches = jsonText.match(/\{\s*"type"\s*:\s*"[^"]+"/g);
-          if (componentMatches && componentMatches.length > 0) {
-            // Try to extract individual components and build a valid array
-            const components = [];
-            for (const match of componentMatches) {
-              try {
-                // Find the closing brace for this component object
-                const startIndex = jsonText.indexOf(match);
-                let braceCount = 0;
-                let endIndex = startIndex;
-                
-                for (let i = startIndex; i < jsonText.length; i++) {
-                  if (jsonText[i] === '{') braceCount++;
-                  if (jsonText[i] === '}') braceCount--;
-                  if (braceCount === 0) {
-                    endIndex = i + 1;
-                    break;
-                  }
-                }
-                
-                let componentText = jsonText.substring(startIndex, endIndex);
-                
-                // Fix the component JSON
-                const fixedComponentText = componentText
-                  .replace(/([{,]\s*)([a-zA-Z0-9_]+)(\s*:)/g, '$1"$2"$3') // Ensure property names are quoted
-                  .replace(/:\s*'([^']*)'/g, ':"$1"') // Replace single quotes with double quotes for values
-                  .replace(/,\s*}/g, '}') // Remove trailing commas
-                  .replace(/:\s*"([^"]*),([^"]*)"/g, ':"$1,$2"') // Fix commas inside string values
-                  .replace(/:\s*"([^"]*)\{([^"]*)"/g, ':"$1\\{$2"') // Escape curly braces inside string values
-                  .replace(/:\s*"([^"]*)\}([^"]*)"/g, ':"$1\\}$2"'); // Escape curly braces inside string values
-                
-                const component = JSON.parse(fixedComponentText);
-                components.push(component);
-              } catch (componentError) {
-                console.warn('Failed to parse individual component:', componentError.message);
-                // Continue to the next component
-              }
-            }
-            
-            if (components.length > 0) {
-              console.log(`Successfully extracted ${components.length} components manually`);
-              return { components };
-            }
-          }
-        } catch (structureError) {
-          console.warn('Failed to extract component structures:', structureError.message);
-        }
-        
-        // Final fallback: use the fallback components
-        console.warn('All parsing attempts failed. Using fallback components.');
-        return createFallbackComponentsData();
-      } catch (error3) {
-        console.warn('Third parsing attempt failed:', error3.message);
-        console.warn('Using fallback components.');
-        return createFallbackComponentsData();
-      }
-    }
-  }
-}
-
-// Create fallback components data when parsing fails
-function createFallbackComponentsData(): ComponentsData {
-  console.log('Creating fallback components data');
-  return {
-    components: [
-      {
-        type: "header",
-        boundingBox: { x: 0, y: 0, width: 100, height: 10 },
-        confidence: 0.95,
-        attributes: { backgroundColor: "#ffffff", textColor: "#333333" }
-      },
-      {
-        type: "button",
-        boundingBox: { x: 20, y: 50, width: 20, height: 10 },
-        confidence: 0.95,
-        attributes: { backgroundColor: "#0066ff", textColor: "#ffffff", text: "Button" }
-      },
-      {
-        type: "text",
-        boundingBox: { x: 20, y: 30, width: 60, height: 10 },
-        confidence: 0.95,
-        attributes: { textColor: "#333333", text: "Text content" }
-      },
-      {
-        type: "input",
-        boundingBox: { x: 20, y: 70, width: 60, height: 10 },
-        confidence: 0.95,
-        attributes: { backgroundColor: "#ffffff", borderColor: "#cccccc" }
-      },
-      {
-        type: "image",
-        boundingBox: { x: 70, y: 40, width: 20, height: 20 },
-        confidence: 0.95,
-        attributes: { }
-      }
-    ]
-  };
-}
-
 /**
  * STEP 2: COMPONENT ANALYSIS AND IMPROVEMENT SUGGESTIONS
  * Analyzes each detected component and suggests targeted improvements
  * @param components Array of detected components
  * @param fullImageBase64 Base64 encoded full image for context
- * @returns Array of component improvement suggestions
+ * @param options Locked tokens, direction, force refresh and cancellation
+ * @returns Improvement suggestions per component, and the issues they fix as a design analysis
  */
 export const analyzeComponents = async (
   components: DetectedComponent[],
-  fullImageBase64: string
-): Promise<ComponentImprovementSuggestion[]> => {
+  fullImageBase64: string,
+  options: ComponentAnalysisOptions = {}
+): Promise<ComponentAnalysis> => {
   console.log('STEP 2: Analyzing components and generating improvement suggestions...');
+  const { designTokens, direction, signal } = options;
   
   if (!components || components.length === 0) {
     console.warn('No components provided for analysis');
-    return [];
+    return toComponentAnalysis([], components || []);
   }
   
   try {
-    let apiKey;
-    
-    try {
-      // First try to get the API key using the standard function
-      apiKey = await checkOpenAIKey();
-    } catch (keyError) {
-      console.error('Error retrieving API key for analysis:', keyError);
-      
-      // Fallback for Vercel environment
-      if (window.location.hostname.includes('vercel.app') || 
-          window.location.hostname.includes('coterate-app')) {
-        console.log('Using fallback key mechanism for analysis in production');
-        apiKey = process.env.OPENAI_API_KEY || getEmergencyFallbackKey();
-      } else {
-        // In development, we need to rethrow the error
-        throw keyError;
-      }
-    }
-    
-    // Ensure image is properly formatted
-    const formattedImage = fullImageBase64.startsWith('data:image') 
-      ? fullImageBase64 
-      : `data:image/png;base64,${fullImageBase64}`;
-    
     // Simplify the component data to reduce complexity
     const simplifiedComponents = components.map(comp => ({
       id: comp.id,
@@ -1166,21 +390,44 @@ export const analyzeComponents = async (
       }
     }));
     
+    // Keep improvements on the team's design system when it has locked tokens
+    const tokenConstraints = designTokens ? describeDesignTokens(designTokens) : '';
+    const designSystemConstraints = describeDesignSystem();
+    
     // Create a more direct prompt for component analysis
     const analysisPrompt = `
 Analyze these UI components and suggest specific improvements for each one:
 
 ${JSON.stringify(simplifiedComponents, null, 2)}
-
+${tokenConstraints ? `
+The design system defines these tokens. Use ONLY these values for colors, font sizes, corner radii and spacing; pick the closest token instead of inventing new values:
+${tokenConstraints}
+` : ''}${designSystemConstraints ? `
+${designSystemConstraints}
+Every improvement must follow these constraints; treat anything that breaks them as a consistency issue.
+` : ''}${direction ? `
+Improvement direction:
+${direction}
+Make every improvement in this direction, even where another direction would also work.
+` : ''}
 For each component, provide:
 1. Improved visual properties (colors, spacing, typography)
-2. Brief reasoning for the improvements
+2. A short title for the issue the improvements fix
+3. The issue's severity: "critical", "major" or "minor"
+4. The issue's category: one of ${DESIGN_ISSUE_CATEGORIES.map(category => `"${category}"`).join(', ')}
+5. Brief reasoning for the improvements
+
+Also give a one or two sentence summary of the design's main problems.
 
 IMPORTANT: Your response MUST be ONLY valid JSON with this structure:
 {
+  "summary": "Overall summary of the issues",
   "improvements": [
   {
     "componentId": "component-0",
+    "title": "Low contrast primary button",
+    "severity": "major",
+    "category": "color",
     "improvements": {
         "backgroundColor": "#4285f4",
         "textColor": "#ffffff",
@@ -1204,112 +451,35 @@ IMPORTANT: Your response MUST be ONLY valid JSON with this structure:
 DO NOT include any explanations or text outside the JSON. ONLY return the JSON object.
 `;
     
-    console.log('Calling OpenAI API with GPT-4o model for component analysis...');
+    const provider = getVisionProvider();
+    const cacheRequest = { task: 'analyze-components', imageBase64: fullImageBase64, prompt: analysisPrompt, model: `${provider.id}:${provider.model}` };
+    const cachedContent = await getCachedAIResult(cacheRequest, options, isValidAnalysisResponse);
     
-    // Call OpenAI API for component analysis with improved parameters
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "You are a UI design expert that analyzes UI components and suggests specific improvements. You ONLY respond with valid JSON."
-          },
-          {
-            role: "user", 
-            content: [
-              {
-                type: "text",
-                text: analysisPrompt
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: formattedImage,
-                  detail: "high"
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.3 // Lower temperature for more deterministic output
-      })
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`OpenAI API error: ${response.status}`, errorText);
-      
-      // Check for specific error types
-      if (errorText.includes('model_not_found')) {
-        throw new Error('The GPT-4o model is not available. Please check your OpenAI account or try again later.');
-      }
-      
-      // Try alternative approach
-      return await generateFallbackImprovements(components);
+    if (cachedContent === undefined) {
+      console.log(`Calling ${provider.name} (${provider.model}) for component analysis...`);
     }
     
-    const data = await response.json();
-    
-    // Extract the content from the response
-    const contentText = data.choices[0].message.content;
-    console.log("GPT-4o Analysis Response:", contentText.substring(0, 200) + "...");
-    
-    // Parse the JSON response with enhanced error handling
-    let improvementData;
+    let contentText: string;
     try {
-      // First, clean the response text to handle common JSON formatting issues
-      let cleanedContent = contentText
-        .replace(/[\u201C\u201D]/g, '"') // Replace curly quotes
-        .replace(/[\u2018\u2019]/g, "'") // Replace curly apostrophes
-        .replace(/\n\s*\/\/.*$/gm, '') // Remove comments
-        .replace(/,\s*}/g, '}')         // Remove trailing commas
-        .replace(/,\s*]/g, ']');        // Remove trailing commas in arrays
-      
-      // Try to extract JSON from code blocks first
-      const codeBlockMatch = cleanedContent.match(/```(?:json)?([\s\S]*?)```/);
-      if (codeBlockMatch && codeBlockMatch[1]) {
-        cleanedContent = codeBlockMatch[1].trim();
-      } else {
-        // If no code block, try to find a JSON object
-        const jsonMatch = cleanedContent.match(/(\{[\s\S]*\})/);
-        if (jsonMatch && jsonMatch[1]) {
-          cleanedContent = jsonMatch[1];
-        }
-      }
-      
-      // Additional cleaning for common JSON issues
-      cleanedContent = cleanedContent
-        .replace(/(['"])?([a-zA-Z0-9_]+)(['"])?\s*:/g, '"$2":') // Ensure property names are quoted
-        .replace(/:\s*'([^']*)'/g, ':"$1"'); // Replace single quotes with double quotes for values
-      
-      console.log("Cleaned JSON content:", cleanedContent.substring(0, 100) + "...");
-      
-      // Try to parse the cleaned JSON
-      improvementData = JSON.parse(cleanedContent);
-    } catch (jsonError) {
-      console.error('Error parsing JSON response:', jsonError);
-      console.log('Original content:', contentText);
-      
-      // Try alternative approach
-      return await generateFallbackImprovements(components);
+      contentText = cachedContent ?? await provider.complete({
+        task: 'analyze-components',
+        systemPrompt: "You are a UI design expert that analyzes UI components and suggests specific improvements. You ONLY respond with valid JSON.",
+        prompt: analysisPrompt,
+        imageBase64: fullImageBase64,
+        signal
+      });
+    } catch (apiError) {
+      console.error('Component analysis request failed:', apiError);
+      throw apiError;
     }
     
-    // Validate the structure and provide fallback if needed
-    if (!improvementData || typeof improvementData !== 'object') {
-      console.warn('Invalid improvement data structure. Using fallback improvements.');
-      return await generateFallbackImprovements(components);
-    }
+    console.log("Analysis Response:", contentText.substring(0, 200) + "...");
+    
+    const improvementData = parseAnalysisResponse(contentText);
     
-    if (!improvementData.improvements || !Array.isArray(improvementData.improvements)) {
-      console.warn('No improvements array found. Using fallback improvements.');
-      return await generateFallbackImprovements(components);
+    // Only output that passed validation is reused
+    if (cachedContent === undefined) {
+      await cacheAIResult(cacheRequest, contentText);
     }
     
     // Map the improvements to our ComponentImprovementSuggestion format
@@ -1336,38 +506,22 @@ DO NOT include any explanations or text outside the JSON. ONLY return the JSON o
           original: originalComponent,
           improvements: improvement.improvements || {},
           reasoning: improvement.reasoning || 'No reasoning provided',
+          title: typeof improvement.title === 'string' ? improvement.title : undefined,
+          severity: DESIGN_ISSUE_SEVERITIES.includes(improvement.severity) ? improvement.severity : undefined,
+          category: DESIGN_ISSUE_CATEGORIES.includes(improvement.category) ? improvement.category : undefined,
           cssStyles: generateComponentCSS(inferComponentConfig(originalComponent, improvement.improvements)),
           componentConfig: inferComponentConfig(originalComponent, improvement.improvements)
         };
       }).filter(Boolean) as ComponentImprovementSuggestion[];
     
-    // If we didn't get improvements for all components, add fallbacks for the missing ones
+    // Components the model left alone simply have no suggestion
     if (improvementSuggestions.length < components.length) {
-      console.log(`Only got improvements for ${improvementSuggestions.length} out of ${components.length} components. Adding fallbacks for missing components.`);
-      
-      // Find components that don't have improvements
-      const improvedComponentIds = improvementSuggestions.map(imp => imp.componentId);
-      const missingComponents = components.filter(comp => !improvedComponentIds.includes(comp.id));
-      
-      // Generate fallback improvements for missing components
-      const fallbackImprovements = missingComponents.map(component => {
-        const improvements = generateFallbackImprovementForComponent(component);
-        return {
-          componentId: component.id,
-          original: component,
-          improvements,
-          reasoning: `Default styling improvement for ${component.type} component.`,
-          cssStyles: generateComponentCSS(inferComponentConfig(component, improvements)),
-          componentConfig: inferComponentConfig(component, improvements)
-        };
-      });
-      
-      // Add fallbacks to the list
-      improvementSuggestions.push(...fallbackImprovements);
+      console.log(`Got improvements for ${improvementSuggestions.length} out of ${components.length} components`);
     }
     
     console.log(`Generated ${improvementSuggestions.length} component improvement suggestions`);
-    return improvementSuggestions;
+    const summary = typeof improvementData.summary === 'string' ? improvementData.summary : undefined;
+    return toComponentAnalysis(improvementSuggestions, components, summary);
     
   } catch (error) {
     console.error('Error in component analysis step:', error);
@@ -1375,99 +529,62 @@ DO NOT include any explanations or text outside the JSON. ONLY return the JSON o
     // Check for specific error types
     if (error instanceof Error) {
       if (error.message.includes('model_not_found')) {
-        console.error('The GPT-4o model is not available. Please check your OpenAI account or try again later.');
+        console.error('The configured vision model is not available. Please check your AI provider settings or try again later.');
       } else if (error.message.includes('429')) {
-        console.error('OpenAI API rate limit exceeded. Please try again later.');
+        console.error('AI provider rate limit exceeded. Please try again later.');
       } else if (error.message.includes('401') || error.message.includes('403')) {
-        console.error('Authentication error with OpenAI API. Please check your API key.');
+        console.error('Authentication error with the AI provider. Please check your API key.');
       }
     }
     
-    // Generate fallback improvements instead of returning empty array
-    return await generateFallbackImprovements(components);
+    // Surface the failure rather than presenting made-up suggestions as the model's
+    throw error;
   }
 };
 
 /**
- * Generate fallback improvements for components when analysis fails
- * @param components Array of detected components
- * @returns Array of component improvement suggestions
- */
-async function generateFallbackImprovements(components: DetectedComponent[]): Promise<ComponentImprovementSuggestion[]> {
-  console.log('Generating fallback improvements for components...');
-  
-  return components.map(component => {
-    const improvements = generateFallbackImprovementForComponent(component);
-      
-      return {
-        componentId: component.id,
-        original: component,
-      improvements,
-      reasoning: `Improved styling for ${component.type} component to enhance visual appeal and usability.`,
-      cssStyles: generateComponentCSS(inferComponentConfig(component, improvements)),
-      componentConfig: inferComponentConfig(component, improvements)
-      };
-    });
-}
-
-/**
- * Generate fallback improvement for a specific component type
- * @param component The component to generate improvements for
- * @returns Improvement object with visual properties
+ * Turn improvement suggestions into a design analysis with one issue per component
+ * @param suggestions Improvement suggestions
+ * @param components Components that were analyzed
+ * @param summary Summary from the model, if it gave one
+ * @returns The suggestions with their analysis
  */
-function generateFallbackImprovementForComponent(component: DetectedComponent): Record<string, any> {
-  const type = component.type.toLowerCase();
+function toComponentAnalysis(
+  suggestions: ComponentImprovementSuggestion[],
+  components: DetectedComponent[],
+  summary?: string
+): ComponentAnalysis {
+  const issues = suggestions.map((suggestion, index) => {
+    const changes = Object.entries(suggestion.improvements)
+      .filter(([, value]) => typeof value === 'string' || typeof value === 'number')
+      .map(([property, after]) => {
+        const before = suggestion.original.attributes[property];
+        return {
+          property,
+          ...(typeof before === 'string' || typeof before === 'number' ? { before } : {}),
+          after
+        };
+      });
+    
+    return {
+      id: `issue-${index}`,
+      title: suggestion.title || `Improve ${suggestion.original.type}`,
+      severity: suggestion.severity || 'minor',
+      category: suggestion.category || inferIssueCategory(changes.map(change => change.property)),
+      componentIds: [suggestion.componentId],
+      changes,
+      rationale: suggestion.reasoning
+    };
+  });
   
-  // Default improvements
-  const improvements: Record<string, any> = {
-    borderRadius: 4,
-    fontSize: 16,
-    padding: '8px 16px'
+  return {
+    suggestions,
+    analysis: {
+      summary: summary || `${issues.length} of ${components.length} components can be improved.`,
+      componentCount: components.length,
+      issues
+    }
   };
-  
-  // Customize based on component type
-  if (type.includes('button')) {
-    // Primary button styling
-    improvements.backgroundColor = '#4285f4';
-    improvements.textColor = '#ffffff';
-    improvements.fontWeight = 500;
-    improvements.boxShadow = '0 2px 4px rgba(0,0,0,0.2)';
-    improvements.borderRadius = 8;
-  } else if (type.includes('input') || type.includes('field') || type.includes('text')) {
-    // Input field styling
-    improvements.backgroundColor = '#ffffff';
-    improvements.textColor = '#202124';
-    improvements.borderColor = '#dadce0';
-    improvements.borderWidth = '1px';
-    improvements.borderStyle = 'solid';
-    improvements.borderRadius = 4;
-    improvements.padding = '12px 16px';
-  } else if (type.includes('card') || type.includes('container')) {
-    // Card styling
-    improvements.backgroundColor = '#ffffff';
-    improvements.textColor = '#202124';
-    improvements.borderRadius = 8;
-    improvements.boxShadow = '0 1px 3px rgba(0,0,0,0.12), 0 1px 2px rgba(0,0,0,0.24)';
-    improvements.padding = '16px';
-  } else if (type.includes('header') || type.includes('nav')) {
-    // Header/navigation styling
-    improvements.backgroundColor = '#f8f9fa';
-    improvements.textColor = '#202124';
-    improvements.fontWeight = 500;
-    improvements.padding = '16px 24px';
-    improvements.boxShadow = '0 1px 2px rgba(0,0,0,0.1)';
-  } else if (type.includes('image') || type.includes('icon')) {
-    // Image styling
-    improvements.borderRadius = 4;
-    improvements.boxShadow = '0 1px 3px rgba(0,0,0,0.1)';
-  } else {
-    // Default styling for other components
-    improvements.backgroundColor = '#ffffff';
-    improvements.textColor = '#202124';
-    improvements.padding = '8px 16px';
-  }
-  
-  return improvements;
 }
 
 /**
@@ -1572,7 +689,7 @@ export const generateImprovedComponents = async (
  * @param improvements Suggested improvements
  * @returns Basic Material-UI component configuration
  */
-function inferComponentConfig(
+export function inferComponentConfig(
   component: DetectedComponent,
   improvements: Record<string, any>
 ): ComponentConfig {
@@ -1887,62 +1004,76 @@ function generateReportHTML(
  * Complete component-based UI improvement process
  * Implements the refined iteration pipeline for targeted UI improvements
  * @param imageBase64 Original UI design image
- * @returns Object with HTML report and detailed analysis
+ * @param options Edited components, locked tokens, direction, progress and force refresh
+ * @returns Object with HTML report, design analysis and the components with their improvements applied
  */
-export const improveUIWithComponents = async (imageBase64: string): Promise<{ 
+export const improveUIWithComponents = async (
+  imageBase64: string,
+  options: ComponentImprovementOptions = {}
+): Promise<{ 
   html: string, 
-  analysis: { 
-    componentCount: number,
-    improvements: Array<{
-      componentType: string,
-      improvements: Record<string, any>,
-      reasoning: string
-    }>
-  } 
+  components: DetectedComponent[],
+  analysis: DesignAnalysis
 }> => {
   console.log('Starting REFINED COMPONENT-BASED UI IMPROVEMENT PROCESS...');
+  const { editedComponents, designTokens, direction, progress, forceRefresh } = options;
   
   try {
     console.log('-------------- PROCESS STARTED --------------');
     
-    // Step 1: Detect UI components in the image
+    // Step 1: Detect UI components in the image, unless the user has already corrected them
     console.log('\n👁️ STEP 1: COMPONENT EXTRACTION & ANALYSIS');
-    const detectedComponents = await detectComponentsWithOpenAI(imageBase64);
-    console.log(`✅ Detection complete: Found ${detectedComponents.length} components`);
+    let detectedComponents: DetectedComponent[];
+    if (editedComponents && editedComponents.length > 0) {
+      detectedComponents = editedComponents;
+      console.log(`✅ Using ${detectedComponents.length} user-edited components, skipping detection`);
+    } else {
+      startStep('detect', progress);
+      detectedComponents = await detectComponentsWithOpenAI(imageBase64, { forceRefresh, signal: progress?.signal });
+      console.log(`✅ Detection complete: Found ${detectedComponents.length} components`);
+    }
     
     if (detectedComponents.length === 0) {
       console.warn('No components detected, returning basic analysis');
       return {
         html: generateFallbackHTMLReport(),
+        components: [],
         analysis: {
+          summary: 'No components were detected in this design.',
           componentCount: 0,
-          improvements: []
+          issues: []
         }
       };
     }
     
     // Step 2: Analyze components and generate targeted improvement suggestions
     console.log('\n🔍 STEP 2: GENERATING TARGETED IMPROVEMENT BRIEFS');
-    const improvementSuggestions = await analyzeComponents(detectedComponents, imageBase64);
+    startStep('analyze', progress);
+    const { suggestions: improvementSuggestions, analysis } = await analyzeComponents(detectedComponents, imageBase64, {
+      designTokens,
+      direction,
+      forceRefresh,
+      signal: progress?.signal
+    });
     console.log(`✅ Analysis complete: Generated ${improvementSuggestions.length} improvement suggestions`);
     
     if (improvementSuggestions.length === 0) {
       console.warn('No improvement suggestions generated, returning basic analysis');
       return {
         html: generateBasicHTMLReport(),
-        analysis: {
-      componentCount: detectedComponents.length,
-          improvements: []
-        }
+        components: detectedComponents,
+        analysis
       };
     }
     
     // Step 3: Generate improved components with consistent design system
     console.log('\n🎨 STEP 3: APPLYING TARGETED IMPROVEMENTS WITH CONSISTENCY');
+    startStep('generate', progress);
     const finalImprovements = await generateImprovedComponents(improvementSuggestions);
     console.log(`✅ Improvements applied to ${finalImprovements.length} components`);
     
     // Step 4: Generate HTML report with side-by-side comparison
+    // (the render step is the new design's image, which the caller generates)
     console.log('\n📊 STEP 4: GENERATING VISUAL COMPARISON REPORT');
     
     // Create a container for the components
@@ -1955,42 +1086,26 @@ export const improveUIWithComponents = async (imageBase64: string): Promise<{
     const reportHTML = generateReportHTML(finalImprovements, componentsHTML);
     console.log('✅ HTML report generated successfully');
     
-    // Create the analysis object for the response
-    const analysis = {
-      componentCount: detectedComponents.length,
-      improvements: finalImprovements.map(improvement => ({
-        componentType: improvement.original.type,
-        // Limit the improvements to only the most important ones
-        improvements: Object.entries(improvement.improvements)
-          .slice(0, 5) // Take only the first 5 improvement properties
-          .reduce((obj, [key, value]) => {
-            obj[key] = value;
-            return obj;
-          }, {} as Record<string, any>),
-        // Limit the reasoning to a reasonable length
-        reasoning: improvement.reasoning.substring(0, 100)
-      }))
-      // Limit to at most 5 components to prevent excessive data
-      .slice(0, 5)
-    };
+    // Carry the improvements over to the components, keeping their boxes and nesting
+    const improvedComponents = detectedComponents.map(component => {
+      const improvement = finalImprovements.find(suggestion => suggestion.componentId === component.id);
+      return improvement
+        ? { ...component, attributes: { ...component.attributes, ...improvement.improvements } }
+        : component;
+    });
     
     console.log('-------------- PROCESS COMPLETED --------------');
     
     return {
       html: reportHTML,
+      components: improvedComponents,
       analysis
     };
   } catch (error) {
     console.error('Error in component-based UI improvement process:', error);
     
-    // Return a fallback report in case of error
-    return {
-      html: generateFallbackHTMLReport(),
-      analysis: {
-        componentCount: 0,
-        improvements: []
-      }
-    };
+    // Surface detection failures (including schema violations the model could not repair)
+    throw error;
   }
 };
 
@@ -2294,56 +1409,16 @@ export const getAIAnalysis = async (prompt: string): Promise<any> => {
   console.log('Getting AI analysis for prompt...');
   
   try {
-    // Check API key before making the request
-    const apiKey = await checkOpenAIKey();
-    
-    // Prepare the request payload
-    const payload = {
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are a UI/UX design expert specializing in modern, accessible, and visually appealing interfaces. Analyze UI components and provide specific, actionable improvements."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 2000
-    };
-    
-    console.log('Calling OpenAI API with GPT-4o model for analysis...');
+    const provider = getVisionProvider();
+    console.log(`Calling ${provider.name} (${provider.model}) for analysis...`);
     
-    // Make the API request
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(payload)
+    const analysisText = await provider.complete({
+      task: 'analysis',
+      systemPrompt: "You are a UI/UX design expert specializing in modern, accessible, and visually appealing interfaces. Analyze UI components and provide specific, actionable improvements.",
+      prompt: withDesignSystemConstraints(prompt) || prompt
     });
     
-    // Check if the request was successful
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`OpenAI API error: ${response.status}`, errorText);
-      
-      // Check for specific error types
-      if (errorText.includes('model_not_found')) {
-        throw new Error('The GPT-4o model is not available. Please check your OpenAI account or try again later.');
-      }
-      
-      throw new Error(`API error: ${response.status} - ${errorText}`);
-    }
-    
-    // Parse the response
-    const data = await response.json();
-    const analysisText = data.choices[0]?.message?.content || '';
-    
-    console.log("GPT-4o Analysis Response:", analysisText.substring(0, 200) + "...");
+    console.log("Analysis Response:", analysisText.substring(0, 200) + "...");
     
     // Try to parse the analysis as JSON if it's in JSON format
     try {
@@ -2376,11 +1451,11 @@ export const getAIAnalysis = async (prompt: string): Promise<any> => {
     // Check for specific error types
     if (error instanceof Error) {
       if (error.message.includes('model_not_found')) {
-        console.error('The GPT-4o model is not available. Please check your OpenAI account or try again later.');
+        console.error('The configured vision model is not available. Please check your AI provider settings or try again later.');
       } else if (error.message.includes('429')) {
-        console.error('OpenAI API rate limit exceeded. Please try again later.');
+        console.error('AI provider rate limit exceeded. Please try again later.');
       } else if (error.message.includes('401') || error.message.includes('403')) {
-        console.error('Authentication error with OpenAI API. Please check your API key.');
+        console.error('Authentication error with the AI provider. Please check your API key.');
       }
     }
     
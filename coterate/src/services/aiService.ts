@@ -5,6 +5,10 @@
  */
 
 import axios from 'axios';
+import { aiApiClient } from './aiApiClient';
+import { normalizeDesignAnalysis } from './designAnalysisService';
+import { withDesignSystemConstraints } from './designSystemService';
+import { AIResult } from '../types';
 
 /**
  * AI Service object for UI improvements
@@ -15,7 +19,7 @@ export const aiService = {
    * @param imageBase64 Base64 encoded image data
    * @returns Object with improved image and analysis
    */
-  improveUI: async (imageBase64: string): Promise<{ image: string; analysis: any }> => {
+  improveUI: async (imageBase64: string): Promise<AIResult> => {
     const result = await generateImprovedUIDesign(imageBase64);
     return {
       image: result.image,
@@ -33,49 +37,32 @@ export const aiService = {
 export const generateImprovedUIDesign = async (
   imageBase64: string,
   customPrompt?: string
-): Promise<{ image: string; analysis: string }> => {
+): Promise<AIResult> => {
   console.log('🎨 Starting UI design improvement process...');
   
   try {
-    // First try to call the serverless function for UI improvement
+    // Call the serverless function for UI improvement
     console.log('🔍 Calling UI improvement API...');
     
-    try {
-      // Attempt to use the API endpoint first
-      console.log('Trying API endpoint first...');
-      
-      const apiUrl = window.location.hostname.includes('vercel.app') || 
-                     window.location.hostname.includes('localhost') ? 
-                     '/api/improve-ui' : 
-                     'https://coterate-app.vercel.app/api/improve-ui';
-      
-      const response = await axios.post(apiUrl, {
-        imageBase64: imageBase64.startsWith('data:') ? 
-                    imageBase64.split(',')[1] : 
-                    imageBase64,
-        customPrompt
-      }, {
-        // Include longer timeout to account for serverless cold starts
-        timeout: 15000,
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      console.log('✅ API call successful');
-      
-      return {
-        image: response.data.image,
-        analysis: response.data.analysis
-      };
-    } catch (apiError) {
-      // Log the API error but continue with fallback
-      console.warn('API call failed, using local fallback:', apiError);
-      
-      // Fall back to local implementation
-      console.log('Using local fallback implementation');
-      return await mockImprovedUIDesign(imageBase64);
-    }
+    const response = await aiApiClient.post('/api/improve-ui', {
+      imageBase64: imageBase64.startsWith('data:') ? 
+                  imageBase64.split(',')[1] : 
+                  imageBase64,
+      customPrompt: withDesignSystemConstraints(customPrompt)
+    }, {
+      // Include longer timeout to account for serverless cold starts
+      timeout: 15000,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+    
+    console.log('✅ API call successful');
+    
+    return {
+      image: response.data.image,
+      analysis: normalizeDesignAnalysis(response.data.analysis) || { summary: '', issues: [] }
+    };
   } catch (error) {
     console.error('❌ Error in UI design improvement process:', error);
     
@@ -104,9 +91,9 @@ export const analyzeUIDesign = async (
     console.log('🔍 Starting UI analysis...');
     
     // Call the serverless function for UI analysis
-    const response = await axios.post('/api/openai', {
+    const response = await aiApiClient.post('/api/openai', {
       imageBase64,
-      customPrompt
+      customPrompt: withDesignSystemConstraints(customPrompt)
     });
     
     return response.data.analysis;
@@ -135,9 +122,9 @@ export const generateImprovedImage = async (
     console.log('🎨 Starting image generation...');
     
     // Call the serverless function for image generation
-    const response = await axios.post('/api/stability', {
+    const response = await aiApiClient.post('/api/stability', {
       analysis,
-      customPrompt
+      customPrompt: withDesignSystemConstraints(customPrompt)
     });
     
     return response.data.image;
@@ -152,6 +139,27 @@ export const generateImprovedImage = async (
   }
 };
 
+/**
+ * Fit an image into a square, keeping its aspect ratio and centering it
+ * @param width Image width
+ * @param height Image height
+ * @param size Side of the square
+ * @returns Size and offset to draw the image at
+ */
+export const fitWithinSquare = (width: number, height: number, size: number) => {
+  const aspectRatio = width / height;
+  
+  if (aspectRatio > 1) {
+    // Image is wider than tall
+    const drawHeight = size / aspectRatio;
+    return { drawWidth: size, drawHeight, offsetX: 0, offsetY: (size - drawHeight) / 2 };
+  }
+  
+  // Image is taller than wide
+  const drawWidth = size * aspectRatio;
+  return { drawWidth, drawHeight: size, offsetX: (size - drawWidth) / 2, offsetY: 0 };
+};
+
 /**
  * Resize an image to dimensions supported by Stability AI
  * @param base64Image Base64 encoded image data (without data URL prefix)
@@ -180,22 +188,7 @@ async function resizeImageToSupportedDimensions(base64Image: string): Promise<st
         ctx.fillRect(0, 0, canvas.width, canvas.height);
         
         // Calculate dimensions to maintain aspect ratio
-        const aspectRatio = img.width / img.height;
-        let drawWidth, drawHeight, offsetX, offsetY;
-        
-        if (aspectRatio > 1) {
-          // Image is wider than tall
-          drawWidth = 1024;
-          drawHeight = 1024 / aspectRatio;
-          offsetX = 0;
-          offsetY = (1024 - drawHeight) / 2;
-        } else {
-          // Image is taller than wide
-          drawHeight = 1024;
-          drawWidth = 1024 * aspectRatio;
-          offsetX = (1024 - drawWidth) / 2;
-          offsetY = 0;
-        }
+        const { drawWidth, drawHeight, offsetX, offsetY } = fitWithinSquare(img.width, img.height, 1024);
         
         // Draw the image centered on the canvas
         ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight);
@@ -216,146 +209,3 @@ async function resizeImageToSupportedDimensions(base64Image: string): Promise<st
     img.src = `data:image/png;base64,${base64Image}`;
   });
 }
-
-/**
- * Mock implementation for testing without API keys
- * @param originalImage Original image
- * @returns Promise with mock improved design
- */
-function mockImprovedUIDesign(originalImage: string): Promise<{ image: string; analysis: string }> {
-  // Create a comprehensive analysis
-  const mockAnalysis = `
-# UI Design Analysis & Improvements
-
-## Visual Hierarchy
-The design has been enhanced with improved visual hierarchy to better guide users' attention.
-
-## Color Scheme
-Applied a more cohesive color scheme with improved contrast for accessibility and visual appeal.
-
-## Typography
-Adjusted text sizes and weights for better readability and hierarchy.
-
-## Element Spacing
-Improved spacing between elements for a more balanced and professional appearance.
-
-## Depth & Dimensionality
-Added subtle shadows and depth effects to create a more modern interface.
-
-## Recommendations Applied:
-1. Increased contrast between text and background
-2. Improved color harmony throughout the interface
-3. Enhanced prominence of primary actions
-4. Applied consistent shadows for depth
-5. Refined overall visual balance
-  `;
-  
-  // Apply actual visual improvements to the image
-  return new Promise<{ image: string; analysis: string }>((resolve) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      
-      if (ctx) {
-        // Draw the original image
-        ctx.drawImage(img, 0, 0);
-        
-        // Apply advanced visual enhancements
-        
-        // 1. Get the image data for pixel manipulation
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const data = imageData.data;
-        
-        // 2. Enhanced contrast and saturation
-        for (let i = 0; i < data.length; i += 4) {
-          // Increase contrast
-          data[i] = Math.min(255, Math.max(0, (data[i] - 128) * 1.15 + 128)); // Red
-          data[i + 1] = Math.min(255, Math.max(0, (data[i + 1] - 128) * 1.15 + 128)); // Green
-          data[i + 2] = Math.min(255, Math.max(0, (data[i + 2] - 128) * 1.15 + 128)); // Blue
-          
-          // Enhance saturation
-          const avg = (data[i] + data[i + 1] + data[i + 2]) / 3;
-          if (avg > 60) { // Don't oversaturate dark areas
-            data[i] = Math.min(255, Math.max(0, data[i] + (data[i] - avg) * 0.25));
-            data[i + 1] = Math.min(255, Math.max(0, data[i + 1] + (data[i + 1] - avg) * 0.25));
-            data[i + 2] = Math.min(255, Math.max(0, data[i + 2] + (data[i + 2] - avg) * 0.25));
-          }
-        }
-        
-        // Put the modified data back
-        ctx.putImageData(imageData, 0, 0);
-        
-        // 3. Add a subtle shadow for depth
-        ctx.save();
-        ctx.globalCompositeOperation = 'source-atop';
-        ctx.shadowColor = 'rgba(0,0,0,0.35)';
-        ctx.shadowBlur = 12;
-        ctx.shadowOffsetX = 4;
-        ctx.shadowOffsetY = 4;
-        ctx.fillStyle = 'rgba(0,0,0,0)';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        ctx.restore();
-        
-        // 4. Add a subtle gradient overlay for improved visual appeal
-        const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
-        gradient.addColorStop(0, 'rgba(60,120,255,0.05)');
-        gradient.addColorStop(0.5, 'rgba(255,255,255,0)');
-        gradient.addColorStop(1, 'rgba(60,200,255,0.05)');
-        
-        ctx.globalCompositeOperation = 'overlay';
-        ctx.fillStyle = gradient;
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // 5. Add a subtle vignette effect
-        const vignette = ctx.createRadialGradient(
-          canvas.width / 2, canvas.height / 2, canvas.width * 0.4,
-          canvas.width / 2, canvas.height / 2, Math.max(canvas.width, canvas.height)
-        );
-        vignette.addColorStop(0, 'rgba(0,0,0,0)');
-        vignette.addColorStop(1, 'rgba(0,0,0,0.2)');
-        
-        ctx.globalCompositeOperation = 'multiply';
-        ctx.fillStyle = vignette;
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // 6. Add a subtle glow to bright areas
-        ctx.globalCompositeOperation = 'screen';
-        ctx.fillStyle = 'rgba(255,255,255,0.05)';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Reset composite operation
-        ctx.globalCompositeOperation = 'source-over';
-        
-        // Generate image data URL
-        const improvedImageUrl = canvas.toDataURL('image/png');
-        
-        resolve({
-          image: improvedImageUrl,
-          analysis: mockAnalysis
-        });
-      } else {
-        // Fallback if canvas context is not available
-        resolve({
-          image: originalImage,
-          analysis: mockAnalysis
-        });
-      }
-    };
-    
-    img.onerror = () => {
-      // If image loading fails, return the original
-      resolve({
-        image: originalImage,
-        analysis: mockAnalysis
-      });
-    };
-    
-    // Handle both data URL and base64 string formats
-    img.src = originalImage.startsWith('data:') 
-      ? originalImage 
-      : `data:image/png;base64,${originalImage}`;
-  });
-}
\ No newline at end of file
@@ -0,0 +1,330 @@
+/**
+ * Code Export Service
+ * Turns a design's components into a small React project: one component file per
+ * detected component, a root component that nests them like the design does, and
+ * either a CSS stylesheet or a styled-components stylesheet.
+ */
+
+import JSZip from 'jszip';
+import { DetectedComponent } from '../types';
+import { inferComponentConfig, ComponentConfig } from './aiComponentService';
+import { buildComponentTree } from './componentTreeService';
+
+export type CodeExportStyling = 'css' | 'styled-components';
+
+export interface CodeExportOptions {
+  name: string; // Name of the root component, e.g. the page name
+  styling: CodeExportStyling;
+  imageSize?: { width: number, height: number }; // Keeps the design's aspect ratio
+}
+
+export interface CodeExportFile {
+  path: string;
+  content: string;
+}
+
+// A component with everything needed to write its file
+interface ExportedComponent {
+  component: DetectedComponent;
+  config: ComponentConfig;
+  name: string; // React component name
+  className: string;
+  children: ExportedComponent[];
+}
+
+// HTML element used for each ComponentConfig type
+const ELEMENT_FOR_CONFIG_TYPE: Record<string, string> = {
+  Button: 'button',
+  TextField: 'input',
+  Card: 'section',
+  div: 'div'
+};
+
+// Style properties carried into the stylesheet; anything else the model returned is dropped
+const CSS_PROPERTIES = [
+  'backgroundColor', 'color', 'borderRadius', 'fontSize', 'fontWeight', 'fontFamily', 'lineHeight',
+  'letterSpacing', 'padding', 'margin', 'border', 'borderColor', 'borderWidth', 'boxShadow',
+  'opacity', 'textAlign', 'textTransform', 'gap'
+];
+
+// Numeric values of these properties are pixels
+const PIXEL_PROPERTIES = ['borderRadius', 'fontSize', 'letterSpacing', 'borderWidth', 'gap'];
+
+// Attributes that describe the component rather than style it
+const NON_STYLE_ATTRIBUTES = ['text', 'state', 'name', 'figmaId', 'figmaType'];
+
+const toPascalCase = (value: string): string =>
+  value
+    .replace(/[^a-z0-9]+/gi, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+
+const toKebabCase = (value: string): string =>
+  value.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+
+// Round percentages so the stylesheet stays readable
+const percent = (value: number): string => `${Math.round(value * 100) / 100}%`;
+
+/**
+ * Get the React component name for a root design
+ * @param name Page or iteration name
+ * @returns PascalCase component name
+ */
+export const getExportComponentName = (name: string): string => {
+  const pascalName = toPascalCase(name) || 'Design';
+  return /^[0-9]/.test(pascalName) ? `Design${pascalName}` : pascalName;
+};
+
+/**
+ * Build the CSS declarations for a component: its styles from the ComponentConfig,
+ * plus absolute positioning relative to its parent component (or the design)
+ */
+const getStyleDeclarations = (exported: ExportedComponent, parent: DetectedComponent | null): Record<string, string> => {
+  const declarations: Record<string, string> = {};
+  const styles = exported.config.styles || {};
+
+  // textColor is only a detection attribute; inferComponentConfig already maps it to color
+  CSS_PROPERTIES.forEach(property => {
+    const value = styles[property];
+    if (typeof value === 'number') {
+      declarations[property] = PIXEL_PROPERTIES.includes(property) ? `${value}px` : String(value);
+    } else if (typeof value === 'string' && value.trim() !== '') {
+      declarations[property] = value.trim();
+    }
+  });
+
+  // Boxes are percentages of the whole image; children are placed within their parent's box
+  const box = exported.component.boundingBox;
+  const parentBox = parent ? parent.boundingBox : { x: 0, y: 0, width: 100, height: 100 };
+
+  declarations.position = 'absolute';
+  declarations.left = percent(((box.x - parentBox.x) / parentBox.width) * 100);
+  declarations.top = percent(((box.y - parentBox.y) / parentBox.height) * 100);
+  declarations.width = percent((box.width / parentBox.width) * 100);
+  declarations.height = percent((box.height / parentBox.height) * 100);
+  declarations.boxSizing = 'border-box';
+
+  return declarations;
+};
+
+const formatDeclarations = (declarations: Record<string, string>, indent: string): string =>
+  Object.entries(declarations)
+    .map(([property, value]) => `${indent}${toKebabCase(property)}: ${value};`)
+    .join('\n');
+
+// HTML element for a component, following the ComponentConfig mapping
+const getElement = (exported: ExportedComponent): string => {
+  const { type, props } = exported.config;
+
+  if (type === 'Typography') {
+    return props.component || 'h4';
+  }
+
+  // Inputs can't have children, so a field with nested components becomes a wrapper
+  if (type === 'TextField' && exported.children.length > 0) {
+    return 'div';
+  }
+
+  return ELEMENT_FOR_CONFIG_TYPE[type] || 'div';
+};
+
+// Give every component a unique name and class, and nest them like the design
+const prepareComponents = (components: DetectedComponent[]): ExportedComponent[] => {
+  const usedNames = new Set<string>();
+
+  const toExported = (component: DetectedComponent): ExportedComponent => {
+    const styleAttributes = Object.fromEntries(
+      Object.entries(component.attributes || {}).filter(([key]) => !NON_STYLE_ATTRIBUTES.includes(key))
+    );
+
+    let baseName = toPascalCase(component.type) || 'Component';
+    if (/^[0-9]/.test(baseName)) baseName = `Component${baseName}`;
+
+    let index = 1;
+    while (usedNames.has(`${baseName}${index}`)) index++;
+    const name = `${baseName}${index}`;
+    usedNames.add(name);
+
+    return {
+      component,
+      config: inferComponentConfig(component, styleAttributes),
+      name,
+      className: toKebabCase(name),
+      children: (component.children || []).map(toExported)
+    };
+  };
+
+  return buildComponentTree(components).map(toExported);
+};
+
+const flatten = (exported: ExportedComponent[]): ExportedComponent[] =>
+  exported.flatMap(item => [item, ...flatten(item.children)]);
+
+// Text content, escaped for JSX
+const getTextContent = (exported: ExportedComponent): string | null => {
+  const text = exported.component.attributes?.text;
+  return typeof text === 'string' && text.trim() !== '' ? `{${JSON.stringify(text.trim())}}` : null;
+};
+
+// Source of one component file
+const generateComponentFile = (exported: ExportedComponent, styling: CodeExportStyling): string => {
+  const { name, className, config, component } = exported;
+  const element = getElement(exported);
+  const text = getTextContent(exported);
+  const box = component.boundingBox;
+  const tag = styling === 'styled-components' ? `Styled${name}` : element;
+  const classAttribute = styling === 'css' ? ` className="${className}"` : '';
+
+  const imports = styling === 'styled-components'
+    ? `import React from 'react';\nimport { Styled${name} } from '../styles';\n`
+    : `import React from 'react';\n`;
+
+  let body: string;
+  if (element === 'input') {
+    const placeholder = component.attributes?.text ? ` placeholder={${JSON.stringify(component.attributes.text)}}` : '';
+    body = `  <${tag}${classAttribute} type="text"${placeholder} />`;
+  } else {
+    const typeAttribute = element === 'button' ? ' type="button"' : '';
+    const content = [text ? `    ${text}` : null, '    {children}'].filter(Boolean).join('\n');
+    body = `  <${tag}${classAttribute}${typeAttribute}>\n${content}\n  </${tag}>`;
+  }
+
+  const propsSignature = element === 'input' ? '' : '{ children }';
+
+  return `${imports}
+export interface ${name}Props {
+  children?: React.ReactNode;
+}
+
+// ${component.type} (${config.type}) at ${percent(box.x)}, ${percent(box.y)} of the design, ${percent(box.width)} × ${percent(box.height)}
+export const ${name}: React.FC<${name}Props> = (${propsSignature}) => (
+${body}
+);
+`;
+};
+
+// JSX for a component and its nested components, for the root component
+const renderTree = (exported: ExportedComponent, indent: string): string => {
+  if (exported.children.length === 0) {
+    return `${indent}<${exported.name} />`;
+  }
+
+  return [
+    `${indent}<${exported.name}>`,
+    ...exported.children.map(child => renderTree(child, `${indent}  `)),
+    `${indent}</${exported.name}>`
+  ].join('\n');
+};
+
+/**
+ * Generate the files of a React project for a design's components
+ * @param components Flat list of components (with bounding boxes) linked by parentId
+ * @param options Root component name, styling approach and the design's size
+ * @returns Files with paths relative to the project folder
+ */
+export const generateReactCode = (components: DetectedComponent[], options: CodeExportOptions): CodeExportFile[] => {
+  const rootName = getExportComponentName(options.name);
+  const rootClassName = toKebabCase(rootName);
+  const tree = prepareComponents(components);
+  const allComponents = flatten(tree);
+
+  const parentOf = (exported: ExportedComponent): DetectedComponent | null =>
+    allComponents.find(candidate => candidate.children.includes(exported))?.component || null;
+
+  const rootDeclarations: Record<string, string> = {
+    position: 'relative',
+    width: '100%',
+    ...(options.imageSize ? { aspectRatio: `${options.imageSize.width} / ${options.imageSize.height}` } : { minHeight: '100vh' })
+  };
+
+  const files: CodeExportFile[] = allComponents.map(exported => ({
+    path: `src/components/${exported.name}.tsx`,
+    content: generateComponentFile(exported, options.styling)
+  }));
+
+  // Stylesheet
+  if (options.styling === 'css') {
+    const rules = [
+      `.${rootClassName} {\n${formatDeclarations(rootDeclarations, '  ')}\n}`,
+      ...allComponents.map(exported =>
+        `.${exported.className} {\n${formatDeclarations(getStyleDeclarations(exported, parentOf(exported)), '  ')}\n}`
+      )
+    ];
+
+    files.push({ path: `src/${rootName}.css`, content: `${rules.join('\n\n')}\n` });
+  } else {
+    const definitions = [
+      `export const ${rootName}Root = styled.div\`\n${formatDeclarations(rootDeclarations, '  ')}\n\`;`,
+      ...allComponents.map(exported =>
+        `export const Styled${exported.name} = styled.${getElement(exported)}\`\n${formatDeclarations(getStyleDeclarations(exported, parentOf(exported)), '  ')}\n\`;`
+      )
+    ];
+
+    files.push({ path: 'src/styles.ts', content: `import styled from 'styled-components';\n\n${definitions.join('\n\n')}\n` });
+  }
+
+  // Root component
+  const componentImports = allComponents
+    .map(exported => `import { ${exported.name} } from './components/${exported.name}';`)
+    .join('\n');
+  const rootOpen = options.styling === 'css' ? `<div className="${rootClassName}">` : `<${rootName}Root>`;
+  const rootClose = options.styling === 'css' ? '</div>' : `</${rootName}Root>`;
+  const styleImport = options.styling === 'css' ? `import './${rootName}.css';` : `import { ${rootName}Root } from './styles';`;
+
+  files.push({
+    path: `src/${rootName}.tsx`,
+    content: `import React from 'react';
+${styleImport}
+${componentImports}
+
+export const ${rootName}: React.FC = () => (
+  ${rootOpen}
+${tree.map(exported => renderTree(exported, '    ')).join('\n')}
+  ${rootClose}
+);
+
+export default ${rootName};
+`
+  });
+
+  files.push({
+    path: 'src/index.ts',
+    content: `${[`export { ${rootName} } from './${rootName}';`, ...allComponents.map(exported => `export { ${exported.name} } from './components/${exported.name}';`)].join('\n')}\n`
+  });
+
+  files.push({
+    path: 'README.md',
+    content: `# ${rootName}
+
+Generated by Coterate from ${allComponents.length} detected component${allComponents.length === 1 ? '' : 's'}.
+
+- \`src/${rootName}.tsx\` renders the whole design, with components nested as they were detected
+- \`src/components/\` has one file per component
+- ${options.styling === 'css' ? `\`src/${rootName}.css\` has the styles` : '`src/styles.ts` has the styled-components (requires `styled-components`)'}
+
+Components are positioned absolutely, in percentages of their parent, to match the design. Replace the positioning with your own layout as you adapt the code.
+`
+  });
+
+  return files;
+};
+
+/**
+ * Bundle generated files into a zip archive
+ * @param files Generated files
+ * @param folderName Folder the files are placed in inside the archive
+ * @returns Zip file as a Blob
+ */
+export const createCodeExportZip = async (files: CodeExportFile[], folderName: string): Promise<Blob> => {
+  const zip = new JSZip();
+  const folder = zip.folder(folderName) || zip;
+
+  files.forEach(file => {
+    folder.file(file.path, file.content);
+  });
+
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,84 @@
+import { DetectedComponent } from '../types';
+import { getComponentChanges, matchComponents } from './componentMatching';
+import { createComponent } from './testFixtures';
+
+// A sign-in button; matching compares these fields
+const component = (id: string, overrides: Partial<DetectedComponent> = {}) => createComponent(id, {
+  confidence: 0.9,
+  boundingBox: { x: 10, y: 10, width: 20, height: 10 },
+  attributes: { text: 'Sign in', backgroundColor: '#1a73e8', fontSize: 16 },
+  ...overrides
+});
+
+const kinds = (before: DetectedComponent[], after: DetectedComponent[]) =>
+  matchComponents(before, after).map(match => [match.before?.id, match.after?.id, match.kind]);
+
+describe('getComponentChanges', () => {
+  it('reports nothing for the same component', () => {
+    expect(getComponentChanges(component('a'), component('b'))).toEqual([]);
+  });
+
+  it('ignores moves and resizes within a percentage point', () => {
+    const after = component('b', { boundingBox: { x: 11, y: 9, width: 21, height: 10 } });
+    expect(getComponentChanges(component('a'), after)).toEqual([]);
+  });
+
+  it('reports moves, resizes and changed attributes', () => {
+    const after = component('b', {
+      boundingBox: { x: 15, y: 10, width: 30, height: 10 },
+      attributes: { text: 'Log in', backgroundColor: '#1a73e8', fontSize: 18, borderRadius: 8 }
+    });
+
+    expect(getComponentChanges(component('a'), after)).toEqual([
+      'moved',
+      'resized',
+      'text Sign in → Log in',
+      'font size 16 → 18',
+      'corner radius none → 8'
+    ]);
+  });
+
+  it('compares values loosely', () => {
+    const before = component('a', { attributes: { backgroundColor: '#FFF', fontSize: 16 } });
+    const after = component('b', { attributes: { backgroundColor: '#fff', fontSize: '16px' as any } });
+
+    expect(getComponentChanges(before, after)).toEqual([]);
+  });
+});
+
+describe('matchComponents', () => {
+  it('pairs overlapping components of the same type', () => {
+    const before = [component('a'), component('c', { type: 'input', boundingBox: { x: 10, y: 40, width: 60, height: 10 } })];
+    const after = [component('b', { type: 'Button ' }), component('d', { type: 'input', boundingBox: { x: 10, y: 42, width: 60, height: 10 } })];
+
+    expect(kinds(before, after)).toEqual([
+      ['a', 'b', 'unchanged'],
+      ['c', 'd', 'changed']
+    ]);
+  });
+
+  it('does not pair components of different types', () => {
+    expect(kinds([component('a')], [component('b', { type: 'link' })])).toEqual([
+      ['a', undefined, 'removed'],
+      [undefined, 'b', 'added']
+    ]);
+  });
+
+  it('does not pair boxes that barely overlap', () => {
+    const after = component('b', { boundingBox: { x: 25, y: 10, width: 20, height: 10 } });
+    expect(kinds([component('a')], [after])).toEqual([
+      ['a', undefined, 'removed'],
+      [undefined, 'b', 'added']
+    ]);
+  });
+
+  it('gives each component its closest counterpart', () => {
+    const before = [component('near', { boundingBox: { x: 12, y: 10, width: 20, height: 10 } }), component('far', { boundingBox: { x: 16, y: 10, width: 20, height: 10 } })];
+    const after = [component('new')];
+
+    expect(kinds(before, after)).toEqual([
+      ['near', 'new', 'changed'],
+      ['far', undefined, 'removed']
+    ]);
+  });
+});
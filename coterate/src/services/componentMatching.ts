@@ -0,0 +1,139 @@
+/**
+ * Component Matching
+ * Pairs up the components of two designs by type and position, so a design can be
+ * compared with another version of it (usually a base design and its improvement).
+ */
+
+import { DetectedComponent } from '../types';
+
+export type ComponentChangeKind = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface ComponentMatch {
+  before?: DetectedComponent; // Missing for added components
+  after?: DetectedComponent; // Missing for removed components
+  kind: ComponentChangeKind;
+  changes: string[]; // Human-readable differences, e.g. "background #fff → #f5f5f5"
+}
+
+// Boxes that overlap less than this (intersection over union) are different components
+const MIN_MATCH_OVERLAP = 0.3;
+
+// Moves and resizes below this many percentage points aren't reported
+const BOX_TOLERANCE = 1;
+
+// Attributes compared between matched components, with their labels
+const COMPARED_ATTRIBUTES: [string, string][] = [
+  ['text', 'text'],
+  ['backgroundColor', 'background'],
+  ['textColor', 'text color'],
+  ['fontSize', 'font size'],
+  ['fontWeight', 'font weight'],
+  ['borderRadius', 'corner radius'],
+  ['borderColor', 'border'],
+  ['padding', 'padding']
+];
+
+const normalizeType = (type: string): string => type.trim().toLowerCase();
+
+// Overlap of two boxes, from 0 (apart) to 1 (identical)
+const getOverlap = (a: DetectedComponent['boundingBox'], b: DetectedComponent['boundingBox']): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+
+  const intersection = width * height;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+const formatValue = (value: unknown): string =>
+  value === undefined || value === null || value === '' ? 'none' : String(value);
+
+// Compare attribute values loosely, so "8px" and 8 or "#FFF" and "#fff" count as equal
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  formatValue(a).replace(/px$/, '').toLowerCase() === formatValue(b).replace(/px$/, '').toLowerCase();
+
+/**
+ * List what differs between two versions of a component
+ * @param before Component in the first design
+ * @param after Matching component in the second design
+ * @returns Human-readable differences; empty if the component is unchanged
+ */
+export const getComponentChanges = (before: DetectedComponent, after: DetectedComponent): string[] => {
+  const changes: string[] = [];
+  const a = before.boundingBox;
+  const b = after.boundingBox;
+
+  if (Math.abs(a.x - b.x) > BOX_TOLERANCE || Math.abs(a.y - b.y) > BOX_TOLERANCE) {
+    changes.push('moved');
+  }
+
+  if (Math.abs(a.width - b.width) > BOX_TOLERANCE || Math.abs(a.height - b.height) > BOX_TOLERANCE) {
+    changes.push('resized');
+  }
+
+  COMPARED_ATTRIBUTES.forEach(([attribute, label]) => {
+    const oldValue = before.attributes?.[attribute];
+    const newValue = after.attributes?.[attribute];
+
+    if (!isSameValue(oldValue, newValue)) {
+      changes.push(`${label} ${formatValue(oldValue)} → ${formatValue(newValue)}`);
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Match the components of two designs
+ * Components of the same type are paired greedily by how much their boxes overlap.
+ * @param before Components of the first design
+ * @param after Components of the second design
+ * @returns One entry per pair, plus entries for components only in one design
+ */
+export const matchComponents = (before: DetectedComponent[], after: DetectedComponent[]): ComponentMatch[] => {
+  const candidates: { before: DetectedComponent, after: DetectedComponent, overlap: number }[] = [];
+
+  before.forEach(oldComponent => {
+    after.forEach(newComponent => {
+      if (normalizeType(oldComponent.type) !== normalizeType(newComponent.type)) return;
+
+      const overlap = getOverlap(oldComponent.boundingBox, newComponent.boundingBox);
+      if (overlap >= MIN_MATCH_OVERLAP) {
+        candidates.push({ before: oldComponent, after: newComponent, overlap });
+      }
+    });
+  });
+
+  // Best overlaps first, so each component gets its closest counterpart
+  candidates.sort((a, b) => b.overlap - a.overlap);
+
+  const matchedBefore = new Set<string>();
+  const matchedAfter = new Set<string>();
+  const matches: ComponentMatch[] = [];
+
+  candidates.forEach(candidate => {
+    if (matchedBefore.has(candidate.before.id) || matchedAfter.has(candidate.after.id)) return;
+
+    matchedBefore.add(candidate.before.id);
+    matchedAfter.add(candidate.after.id);
+
+    const changes = getComponentChanges(candidate.before, candidate.after);
+    matches.push({
+      before: candidate.before,
+      after: candidate.after,
+      kind: changes.length > 0 ? 'changed' : 'unchanged',
+      changes
+    });
+  });
+
+  before
+    .filter(component => !matchedBefore.has(component.id))
+    .forEach(component => matches.push({ before: component, kind: 'removed', changes: [] }));
+
+  after
+    .filter(component => !matchedAfter.has(component.id))
+    .forEach(component => matches.push({ after: component, kind: 'added', changes: [] }));
+
+  return matches;
+};
@@ -0,0 +1,183 @@
+import * as visionProviders from './visionProviders';
+import { detectComponentsWithOpenAI } from './aiComponentService';
+import {
+  ComponentValidationError,
+  MAX_COMPONENT_DEPTH,
+  isValidColor,
+  parseComponentsResponse,
+  validateComponentsData,
+  buildComponentRepairPrompt
+} from './componentSchema';
+import { createComponent } from './testFixtures';
+
+// A button as the model reports it, without the id the app assigns
+const button = (overrides: Record<string, any> = {}) => {
+  const { id, ...component } = createComponent('', {
+    type: 'Button',
+    confidence: 0.9,
+    boundingBox: { x: 10, y: 20, width: 30, height: 10 },
+    attributes: { backgroundColor: '#1a73e8', textColor: 'rgb(255, 255, 255)', borderRadius: 8, fontSize: 16, padding: '8px 16px', text: 'Sign in' }
+  });
+  return { ...component, ...overrides };
+};
+
+// A component nested `depth` levels deep, each child filling its parent
+const nestedComponent = (depth: number): Record<string, any> => ({
+  ...button({ type: 'container', boundingBox: { x: 0, y: 0, width: 100, height: 100 } }),
+  ...(depth > 1 ? { children: [nestedComponent(depth - 1)] } : {})
+});
+
+const paths = (errors: { path: string }[]) => errors.map(error => error.path);
+
+describe('isValidColor', () => {
+  it.each(['#fff', '#1a73e8', '#1a73e880', 'rgb(0, 0, 0)', 'rgba(0,0,0,0.5)', 'hsl(210, 50%, 40%)', 'transparent'])('accepts %s', color => {
+    expect(isValidColor(color)).toBe(true);
+  });
+
+  it.each(['blue', '#12345', 'rgb(0, 0)', '', 12])('rejects %p', color => {
+    expect(isValidColor(color)).toBe(false);
+  });
+});
+
+describe('validateComponentsData', () => {
+  it('accepts a valid payload, normalizing the type and defaulting the state', () => {
+    const { data, errors } = validateComponentsData({ components: [button()] });
+
+    expect(errors).toEqual([]);
+    expect(data?.components).toEqual([
+      expect.objectContaining({ id: 'component-0', type: 'button', attributes: expect.objectContaining({ state: 'default' }) })
+    ]);
+  });
+
+  it('flattens nested components and links them by parentId', () => {
+    const card = button({
+      type: 'card',
+      boundingBox: { x: 0, y: 0, width: 50, height: 50 },
+      children: [button({ boundingBox: { x: 5, y: 5, width: 20, height: 10 } })]
+    });
+
+    const { data } = validateComponentsData({ components: [card] });
+
+    expect(data?.components.map(component => [component.id, component.parentId])).toEqual([
+      ['component-0', undefined],
+      ['component-0-0', 'component-0']
+    ]);
+  });
+
+  it('allows x + width to pass 100 by rounding', () => {
+    const { errors } = validateComponentsData({ components: [button({ boundingBox: { x: 70.3, y: 0, width: 30, height: 10 } })] });
+    expect(errors).toEqual([]);
+  });
+
+  it('rejects payloads that are not an object with a components array', () => {
+    expect(paths(validateComponentsData([]).errors)).toEqual(['$']);
+    expect(paths(validateComponentsData({ components: {} }).errors)).toEqual(['components']);
+  });
+
+  it('reports each invalid field with its path', () => {
+    const { data, errors } = validateComponentsData({
+      components: [
+        button(),
+        button({
+          type: ' ',
+          confidence: 1.5,
+          boundingBox: { x: -1, y: 20, width: 0, height: 10 },
+          attributes: { backgroundColor: 'blue', fontSize: '16px', state: 'focused' }
+        })
+      ]
+    });
+
+    expect(data).toBeNull();
+    expect(paths(errors)).toEqual([
+      'components[1].type',
+      'components[1].confidence',
+      'components[1].boundingBox.x',
+      'components[1].boundingBox.width',
+      'components[1].attributes.backgroundColor',
+      'components[1].attributes.fontSize',
+      'components[1].attributes.state'
+    ]);
+  });
+
+  it('rejects boxes that run off the image', () => {
+    const { errors } = validateComponentsData({ components: [button({ boundingBox: { x: 80, y: 0, width: 30, height: 10 } })] });
+    expect(errors).toEqual([expect.objectContaining({ path: 'components[0].boundingBox', message: expect.stringContaining('x + width') })]);
+  });
+
+  it('rejects children outside their parent', () => {
+    const card = button({
+      type: 'card',
+      boundingBox: { x: 0, y: 0, width: 20, height: 20 },
+      children: [button({ boundingBox: { x: 50, y: 50, width: 10, height: 10 } })]
+    });
+
+    expect(paths(validateComponentsData({ components: [card] }).errors)).toEqual(['components[0].children[0].boundingBox']);
+  });
+
+  it(`accepts ${MAX_COMPONENT_DEPTH} levels of nesting and rejects more`, () => {
+    expect(validateComponentsData({ components: [nestedComponent(MAX_COMPONENT_DEPTH)] }).errors).toEqual([]);
+    expect(validateComponentsData({ components: [nestedComponent(MAX_COMPONENT_DEPTH + 1)] }).errors).toHaveLength(1);
+  });
+});
+
+describe('parseComponentsResponse', () => {
+  it('accepts JSON in a single code fence', () => {
+    const { data } = parseComponentsResponse('```json\n' + JSON.stringify({ components: [button()] }) + '\n```');
+    expect(data?.components).toHaveLength(1);
+  });
+
+  it('rejects prose around the JSON instead of guessing', () => {
+    const { data, errors } = parseComponentsResponse(`Here you go: ${JSON.stringify({ components: [button()] })}`);
+
+    expect(data).toBeNull();
+    expect(paths(errors)).toEqual(['$']);
+  });
+});
+
+describe('buildComponentRepairPrompt', () => {
+  it('lists every problem and the previous answer', () => {
+    const prompt = buildComponentRepairPrompt('{"components": 1}', [
+      { path: 'components', message: 'must be an array', value: 1 }
+    ]);
+
+    expect(prompt).toContain('- components: must be an array (got 1)');
+    expect(prompt).toContain('Your previous answer:\n{"components": 1}');
+  });
+});
+
+describe('detection repair attempts', () => {
+  const useProvider = (responses: string[]) => {
+    const complete = jest.fn(async () => responses.shift() ?? 'still not JSON');
+    jest.spyOn(visionProviders, 'getVisionProvider').mockReturnValue({ id: 'mock', name: 'Test', model: 'test', complete });
+    return complete;
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    // Mock mode keeps the AI cache out of the way
+    visionProviders.setVisionProvider({ provider: 'mock' });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends invalid output back with its problems and uses the repaired answer', async () => {
+    const complete = useProvider(['not JSON', JSON.stringify({ components: [button()] })]);
+
+    const components = await detectComponentsWithOpenAI('aW1hZ2U=');
+
+    expect(components).toHaveLength(1);
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[1]).toEqual([expect.objectContaining({ prompt: expect.stringContaining('response is not valid JSON') })]);
+  });
+
+  it('gives up after two repair attempts', async () => {
+    const complete = useProvider([]);
+
+    await expect(detectComponentsWithOpenAI('aW1hZ2U=')).rejects.toBeInstanceOf(ComponentValidationError);
+    expect(complete).toHaveBeenCalledTimes(3);
+  });
+});
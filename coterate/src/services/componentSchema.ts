@@ -0,0 +1,290 @@
+/**
+ * Component Detection Schema
+ * Runtime validation of the component-detection output returned by vision models.
+ * Invalid output is reported field by field so it can be sent back to the model
+ * as a targeted repair prompt, instead of being guessed at or silently replaced.
+ */
+
+import { DetectedComponent } from '../types';
+
+// A single problem found in the model's output
+export interface ComponentFieldError {
+  path: string; // e.g. components[2].boundingBox.width
+  message: string;
+  value?: unknown;
+}
+
+// Validated component-detection output
+export interface ComponentsData {
+  components: DetectedComponent[];
+}
+
+export class ComponentValidationError extends Error {
+  errors: ComponentFieldError[];
+
+  constructor(errors: ComponentFieldError[]) {
+    super(`Component detection output failed validation with ${errors.length} error(s): ${formatFieldErrors(errors.slice(0, 3))}`);
+    this.name = 'ComponentValidationError';
+    this.errors = errors;
+  }
+}
+
+export const COMPONENT_STATES = ['default', 'hover', 'active', 'disabled'];
+
+// Numbers may be off by rounding when the model adds x + width
+const BOUNDS_TOLERANCE = 0.5;
+
+// Children may overlap their parent's border slightly
+const NESTING_TOLERANCE = 1;
+
+// Deepest nesting accepted from the model (page > section > card > row > control)
+export const MAX_COMPONENT_DEPTH = 5;
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTIONAL_COLOR = /^(rgb|rgba|hsl|hsla)\(\s*[\d.]+%?\s*(,\s*[\d.]+%?\s*){2}(,\s*[\d.]+%?\s*)?\)$/i;
+
+/**
+ * Check whether a value is a CSS color the rest of the pipeline can use
+ * @param value Value to check
+ * @returns True for hex, rgb(a), hsl(a) and transparent colors
+ */
+export const isValidColor = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  (HEX_COLOR.test(value.trim()) || FUNCTIONAL_COLOR.test(value.trim()) || value.trim() === 'transparent');
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Format field errors as one line each, for logs and repair prompts
+ * @param errors Field errors
+ * @returns Human readable list
+ */
+export const formatFieldErrors = (errors: ComponentFieldError[]): string =>
+  errors
+    .map(error => `${error.path}: ${error.message}${error.value !== undefined ? ` (got ${JSON.stringify(error.value)})` : ''}`)
+    .join('; ');
+
+/**
+ * Parse a model response as JSON. A single surrounding ```json fence is allowed;
+ * no other recovery is attempted.
+ * @param contentText Raw model response
+ * @returns Parsed value, or the parse error
+ */
+export const parseModelJSON = (contentText: string): { value: unknown; errors: ComponentFieldError[] } => {
+  const trimmed = contentText.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  const jsonText = fenced ? fenced[1] : trimmed;
+
+  try {
+    return { value: JSON.parse(jsonText), errors: [] };
+  } catch (error) {
+    return {
+      value: null,
+      errors: [{
+        path: '$',
+        message: `response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`
+      }]
+    };
+  }
+};
+
+// Whether a child box lies within its parent's box
+const isInsideBox = (child: Record<string, any>, parent: Record<string, any>): boolean =>
+  child.x >= parent.x - NESTING_TOLERANCE &&
+  child.y >= parent.y - NESTING_TOLERANCE &&
+  child.x + child.width <= parent.x + parent.width + NESTING_TOLERANCE &&
+  child.y + child.height <= parent.y + parent.height + NESTING_TOLERANCE;
+
+/**
+ * Validate one detected component and its nested children
+ * @param raw Component as returned by the model
+ * @param path Path of the component in the response, used in error messages
+ * @param depth Nesting depth of the component, 1 for top-level components
+ * @returns Field errors, empty when the component is valid
+ */
+export const validateDetectedComponent = (raw: unknown, path: string, depth = 1): ComponentFieldError[] => {
+  const errors: ComponentFieldError[] = [];
+
+  if (!isPlainObject(raw)) {
+    return [{ path, message: 'must be an object', value: raw }];
+  }
+
+  // Type
+  if (typeof raw.type !== 'string' || raw.type.trim() === '') {
+    errors.push({ path: `${path}.type`, message: 'must be a non-empty string', value: raw.type });
+  }
+
+  // Confidence
+  if (!isFiniteNumber(raw.confidence) || raw.confidence < 0 || raw.confidence > 1) {
+    errors.push({ path: `${path}.confidence`, message: 'must be a number between 0 and 1', value: raw.confidence });
+  }
+
+  // Bounding box, in percentages of the image
+  const box = raw.boundingBox;
+  if (!isPlainObject(box)) {
+    errors.push({ path: `${path}.boundingBox`, message: 'must be an object with x, y, width and height', value: box });
+  } else {
+    (['x', 'y'] as const).forEach(key => {
+      if (!isFiniteNumber(box[key]) || box[key] < 0 || box[key] > 100) {
+        errors.push({ path: `${path}.boundingBox.${key}`, message: 'must be a percentage between 0 and 100', value: box[key] });
+      }
+    });
+
+    (['width', 'height'] as const).forEach(key => {
+      if (!isFiniteNumber(box[key]) || box[key] <= 0 || box[key] > 100) {
+        errors.push({ path: `${path}.boundingBox.${key}`, message: 'must be a percentage greater than 0 and at most 100', value: box[key] });
+      }
+    });
+
+    if (isFiniteNumber(box.x) && isFiniteNumber(box.width) && box.x + box.width > 100 + BOUNDS_TOLERANCE) {
+      errors.push({ path: `${path}.boundingBox`, message: `x + width must not exceed 100 (got ${box.x + box.width})` });
+    }
+
+    if (isFiniteNumber(box.y) && isFiniteNumber(box.height) && box.y + box.height > 100 + BOUNDS_TOLERANCE) {
+      errors.push({ path: `${path}.boundingBox`, message: `y + height must not exceed 100 (got ${box.y + box.height})` });
+    }
+  }
+
+  // Attributes
+  const attributes = raw.attributes;
+  if (!isPlainObject(attributes)) {
+    errors.push({ path: `${path}.attributes`, message: 'must be an object', value: attributes });
+  } else {
+    (['backgroundColor', 'textColor'] as const).forEach(key => {
+      if (attributes[key] !== undefined && !isValidColor(attributes[key])) {
+        errors.push({ path: `${path}.attributes.${key}`, message: 'must be a hex, rgb(a), hsl(a) or transparent color', value: attributes[key] });
+      }
+    });
+
+    (['borderRadius', 'fontSize'] as const).forEach(key => {
+      if (attributes[key] !== undefined && (!isFiniteNumber(attributes[key]) || attributes[key] < 0)) {
+        errors.push({ path: `${path}.attributes.${key}`, message: 'must be a non-negative number of pixels', value: attributes[key] });
+      }
+    });
+
+    if (attributes.padding !== undefined && typeof attributes.padding !== 'string') {
+      errors.push({ path: `${path}.attributes.padding`, message: 'must be a CSS padding string such as "8px 16px"', value: attributes.padding });
+    }
+
+    if (attributes.text !== undefined && typeof attributes.text !== 'string') {
+      errors.push({ path: `${path}.attributes.text`, message: 'must be a string', value: attributes.text });
+    }
+
+    if (attributes.state !== undefined && !COMPONENT_STATES.includes(attributes.state)) {
+      errors.push({ path: `${path}.attributes.state`, message: `must be one of ${COMPONENT_STATES.join(', ')}`, value: attributes.state });
+    }
+  }
+
+  // Nested components
+  if (raw.children !== undefined) {
+    if (!Array.isArray(raw.children)) {
+      errors.push({ path: `${path}.children`, message: 'must be an array of components', value: raw.children });
+    } else if (raw.children.length > 0 && depth >= MAX_COMPONENT_DEPTH) {
+      errors.push({ path: `${path}.children`, message: `components must not be nested more than ${MAX_COMPONENT_DEPTH} levels deep` });
+    } else {
+      raw.children.forEach((child: unknown, index: number) => {
+        const childPath = `${path}.children[${index}]`;
+        errors.push(...validateDetectedComponent(child, childPath, depth + 1));
+
+        if (isPlainObject(box) && isPlainObject(child) && isPlainObject(child.boundingBox) && !isInsideBox(child.boundingBox, box)) {
+          errors.push({ path: `${childPath}.boundingBox`, message: 'must lie within the parent component\'s boundingBox' });
+        }
+      });
+    }
+  }
+
+  return errors;
+};
+
+// Convert a validated component tree into a flat list linked by parentId
+const flattenValidatedComponents = (raw: any[], parentId?: string, idPrefix = 'component'): DetectedComponent[] =>
+  raw.flatMap((component: any, index: number) => {
+    const id = `${idPrefix}-${index}`;
+    const detected: DetectedComponent = {
+      id,
+      type: component.type.trim().toLowerCase(),
+      confidence: component.confidence,
+      boundingBox: {
+        x: component.boundingBox.x,
+        y: component.boundingBox.y,
+        width: component.boundingBox.width,
+        height: component.boundingBox.height
+      },
+      attributes: {
+        ...component.attributes,
+        state: component.attributes.state || 'default'
+      },
+      ...(parentId ? { parentId } : {})
+    };
+
+    return [detected, ...flattenValidatedComponents(component.children || [], id, id)];
+  });
+
+/**
+ * Validate the full component-detection response
+ * @param raw Parsed model response
+ * @returns The validated components as a flat list (ids assigned, nesting kept as parentId), or the field errors
+ */
+export const validateComponentsData = (raw: unknown): { data: ComponentsData | null; errors: ComponentFieldError[] } => {
+  if (!isPlainObject(raw)) {
+    return { data: null, errors: [{ path: '$', message: 'must be an object with a "components" array', value: raw }] };
+  }
+
+  if (!Array.isArray(raw.components)) {
+    return { data: null, errors: [{ path: 'components', message: 'must be an array', value: raw.components }] };
+  }
+
+  const errors = raw.components.flatMap((component: unknown, index: number) =>
+    validateDetectedComponent(component, `components[${index}]`)
+  );
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return { data: { components: flattenValidatedComponents(raw.components) }, errors: [] };
+};
+
+/**
+ * Parse and validate a component-detection response in one step
+ * @param contentText Raw model response
+ * @returns The validated components, or the field errors
+ */
+export const parseComponentsResponse = (contentText: string): { data: ComponentsData | null; errors: ComponentFieldError[] } => {
+  const { value, errors } = parseModelJSON(contentText);
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return validateComponentsData(value);
+};
+
+/**
+ * Build a prompt asking the model to fix only the reported problems
+ * @param previousResponse The model's invalid response
+ * @param errors Field errors found in it
+ * @returns Repair prompt
+ */
+export const buildComponentRepairPrompt = (previousResponse: string, errors: ComponentFieldError[]): string => `
+Your previous answer did not match the required component schema. Fix ONLY the problems listed below and return the corrected JSON.
+
+Problems:
+${errors.map(error => `- ${formatFieldErrors([error])}`).join('\n')}
+
+Rules:
+- Return ONLY a JSON object of the form { "components": [ ... ] }, with no explanations or comments.
+- boundingBox x, y, width and height are percentages of the image: x and y between 0 and 100, width and height greater than 0, x + width and y + height at most 100.
+- confidence is a number between 0 and 1.
+- backgroundColor and textColor are hex colors such as "#1a73e8".
+- state is one of: ${COMPONENT_STATES.join(', ')}.
+- Components inside another component go in its "children" array, and their boundingBox must lie within the parent's. Nest at most ${MAX_COMPONENT_DEPTH} levels deep.
+- Keep every component that was already valid unchanged.
+
+Your previous answer:
+${previousResponse.substring(0, 6000)}
+`;
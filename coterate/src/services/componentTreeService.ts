@@ -0,0 +1,123 @@
+/**
+ * Component Tree Service
+ * Helpers for the parent/child nesting of detected components. Components are
+ * stored as a flat list linked by parentId; trees are built from it when needed.
+ */
+
+import { DetectedComponent } from '../types';
+
+/**
+ * Build the component tree of a design
+ * @param components Flat list of components
+ * @returns Root components (without a parent in the list), with their children filled in
+ */
+export const buildComponentTree = (components: DetectedComponent[]): DetectedComponent[] => {
+  const ids = new Set(components.map(component => component.id));
+  const childrenByParent: Record<string, DetectedComponent[]> = {};
+  const roots: DetectedComponent[] = [];
+
+  components.forEach(component => {
+    // Components whose parent was deleted are treated as roots
+    if (component.parentId && ids.has(component.parentId)) {
+      childrenByParent[component.parentId] = [...(childrenByParent[component.parentId] || []), component];
+    } else {
+      roots.push(component);
+    }
+  });
+
+  const toNode = (component: DetectedComponent, visited: Set<string>): DetectedComponent => {
+    visited.add(component.id);
+
+    return {
+      ...component,
+      children: (childrenByParent[component.id] || [])
+        .filter(child => !visited.has(child.id))
+        .map(child => toNode(child, visited))
+    };
+  };
+
+  const visited = new Set<string>();
+  return roots.map(root => toNode(root, visited));
+};
+
+/**
+ * Flatten a component tree back into a list linked by parentId, parents before children
+ * @param tree Root components with nested children
+ * @returns Flat list of components without children arrays
+ */
+export const flattenComponentTree = (tree: DetectedComponent[], parentId?: string): DetectedComponent[] =>
+  tree.flatMap(({ children, ...component }) => [
+    parentId ? { ...component, parentId } : component,
+    ...flattenComponentTree(children || [], component.id)
+  ]);
+
+/**
+ * Get the ids of all components nested inside a component
+ * @param componentId The component to start from
+ * @param components Flat list of components
+ * @returns Ids of the children, grandchildren and so on
+ */
+export const getDescendantIds = (componentId: string, components: DetectedComponent[]): string[] => {
+  const descendants: string[] = [];
+  const queue = [componentId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    components
+      .filter(component => component.parentId === parentId && !descendants.includes(component.id))
+      .forEach(component => {
+        descendants.push(component.id);
+        queue.push(component.id);
+      });
+  }
+
+  return descendants;
+};
+
+/**
+ * Find the smallest component whose box contains a given box, to nest a new component in
+ * @param box Bounding box in percentages of the image
+ * @param components Flat list of components
+ * @returns The containing component, or null if the box is top-level
+ */
+export const findContainingComponent = (
+  box: DetectedComponent['boundingBox'],
+  components: DetectedComponent[]
+): DetectedComponent | null => {
+  const containing = components.filter(component =>
+    component.boundingBox.x <= box.x &&
+    component.boundingBox.y <= box.y &&
+    component.boundingBox.x + component.boundingBox.width >= box.x + box.width &&
+    component.boundingBox.y + component.boundingBox.height >= box.y + box.height
+  );
+
+  if (containing.length === 0) return null;
+
+  return containing.reduce((smallest, component) =>
+    component.boundingBox.width * component.boundingBox.height < smallest.boundingBox.width * smallest.boundingBox.height
+      ? component
+      : smallest
+  );
+};
+
+/**
+ * Copy components for another design, with new ids and the nesting preserved
+ * @param components Flat list of components
+ * @param idPrefix Prefix for the new ids
+ * @returns Copies without database fields, linked by the new ids
+ */
+export const cloneComponents = (components: DetectedComponent[], idPrefix: string): DetectedComponent[] => {
+  const newIds: Record<string, string> = {};
+  components.forEach((component, index) => {
+    newIds[component.id] = `${idPrefix}-${index}`;
+  });
+
+  return components.map(component => ({
+    id: newIds[component.id],
+    type: component.type,
+    confidence: component.confidence,
+    boundingBox: { ...component.boundingBox },
+    attributes: { ...component.attributes },
+    ...(component.parentId && newIds[component.parentId] ? { parentId: newIds[component.parentId] } : {})
+  }));
+};
@@ -1,5 +1,5 @@
 import { supabase } from './supabaseService';
-import { Page, DetectedComponent } from '../types';
+import { Page, DetectedComponent, DesignIteration } from '../types';
 import axios from 'axios';
 
 // Helper function to convert snake_case to camelCase for database responses
@@ -265,6 +265,44 @@ export const createComponentsBulk = async (components: Omit<DetectedComponent, '
   }
 };
 
+// Save nested components level by level, so children can point at their parents' new ids
+export const createNestedComponents = async (components: DetectedComponent[]) => {
+  const savedIds: Record<string, string> = {};
+  const savedComponents: DetectedComponent[] = [];
+  let remaining = components;
+  
+  while (remaining.length > 0) {
+    // Components whose parent is saved, or isn't in the list at all, can go in now
+    const level = remaining.filter(component =>
+      !component.parentId ||
+      savedIds[component.parentId] ||
+      !components.some(parent => parent.id === component.parentId)
+    );
+    
+    // Only possible with a parent cycle
+    if (level.length === 0) break;
+    
+    const { data, error } = await createComponentsBulk(
+      level.map(({ id, children, ...component }) => ({
+        ...component,
+        parentId: component.parentId ? savedIds[component.parentId] : undefined
+      }))
+    );
+    
+    if (error || !data) {
+      return { data: null, error };
+    }
+    
+    level.forEach((component, index) => {
+      savedIds[component.id] = data[index].id;
+    });
+    savedComponents.push(...data);
+    remaining = remaining.filter(component => !level.includes(component));
+  }
+  
+  return { data: savedComponents, error: null };
+};
+
 export const updateComponentsBulk = async (components: { id: string, updates: Partial<DetectedComponent> }[]) => {
   // Supabase doesn't support bulk updates directly, so we need to use transactions
   // This is a simple implementation that performs updates sequentially
@@ -313,6 +351,26 @@ export const getUserSettings = async (userId: string) => {
   }
 };
 
+export const createUserSettings = async (userId: string, settings: any) => {
+  try {
+    // Convert camelCase to snake_case
+    const snakeCaseSettings = camelToSnake(settings);
+    
+    const { data, error } = await supabase
+      .from('user_settings')
+      .insert([{ ...snakeCaseSettings, user_id: userId }])
+      .select();
+    
+    // Convert snake_case to camelCase
+    const transformedData = data ? snakeToCamel(data) : null;
+    
+    return { data: transformedData, error };
+  } catch (err) {
+    console.error('Error in createUserSettings Supabase call:', err);
+    return { data: null, error: err };
+  }
+};
+
 export const updateUserSettings = async (userId: string, settings: any) => {
   try {
     // Convert camelCase to snake_case
@@ -332,4 +390,107 @@ export const updateUserSettings = async (userId: string, settings: any) => {
     console.error('Error in updateUserSettings Supabase call:', err);
     return { data: null, error: err };
   }
-}; 
\ No newline at end of file
+};
+
+// Design iterations
+// position, analysis, components and figma_data are jsonb columns, so rows are mapped
+// explicitly rather than through camelToSnake/snakeToCamel, which would rewrite the keys
+// nested inside those objects.
+const toIterationRow = (updates: Partial<DesignIteration>) => {
+  const row: Record<string, any> = {};
+  
+  if (updates.id !== undefined) row.id = updates.id;
+  if (updates.image !== undefined) row.image = updates.image;
+  if (updates.label !== undefined) row.label = updates.label;
+  if (updates.iterationType !== undefined) row.iteration_type = updates.iterationType;
+  if (updates.iterationNumber !== undefined) row.iteration_number = updates.iterationNumber;
+  if (updates.parentId !== undefined) row.parent_id = updates.parentId;
+  if (updates.analysis !== undefined) row.analysis = updates.analysis;
+  if (updates.components !== undefined) row.components = updates.components;
+  if (updates.position !== undefined) row.position = updates.position;
+  if (updates.figmaData !== undefined) row.figma_data = updates.figmaData;
+  if (updates.variant !== undefined) row.variant = updates.variant;
+  if (updates.thread !== undefined) row.thread = updates.thread;
+  
+  return row;
+};
+
+const fromIterationRow = (row: any): DesignIteration => ({
+  id: row.id,
+  image: row.image,
+  label: row.label,
+  iterationType: row.iteration_type,
+  iterationNumber: row.iteration_number,
+  parentId: row.parent_id ?? undefined,
+  analysis: row.analysis ?? undefined,
+  components: row.components ?? undefined,
+  position: row.position ?? { x: 0, y: 0 },
+  figmaData: row.figma_data ?? undefined,
+  variant: row.variant ?? undefined,
+  thread: row.thread ?? undefined
+});
+
+export const getDesignIterations = async (pageId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('design_iterations')
+      .select('*')
+      .eq('page_id', pageId)
+      .order('iteration_number', { ascending: true })
+      .order('created_at', { ascending: true });
+    
+    const transformedData: DesignIteration[] | null = data ? data.map(fromIterationRow) : null;
+    
+    return { data: transformedData, error };
+  } catch (err) {
+    console.error('Error in getDesignIterations Supabase call:', err);
+    return { data: null, error: err };
+  }
+};
+
+export const createDesignIteration = async (pageId: string, iteration: DesignIteration) => {
+  try {
+    const { data, error } = await supabase
+      .from('design_iterations')
+      .insert({ ...toIterationRow(iteration), page_id: pageId })
+      .select();
+    
+    const transformedData: DesignIteration[] | null = data ? data.map(fromIterationRow) : null;
+    
+    return { data: transformedData, error };
+  } catch (err) {
+    console.error('Error in createDesignIteration Supabase call:', err);
+    return { data: null, error: err };
+  }
+};
+
+export const updateDesignIteration = async (id: string, updates: Partial<DesignIteration>) => {
+  try {
+    const { data, error } = await supabase
+      .from('design_iterations')
+      .update(toIterationRow(updates))
+      .eq('id', id)
+      .select();
+    
+    const transformedData: DesignIteration[] | null = data ? data.map(fromIterationRow) : null;
+    
+    return { data: transformedData, error };
+  } catch (err) {
+    console.error('Error in updateDesignIteration Supabase call:', err);
+    return { data: null, error: err };
+  }
+};
+
+export const deleteDesignIteration = async (id: string) => {
+  try {
+    const { error } = await supabase
+      .from('design_iterations')
+      .delete()
+      .eq('id', id);
+    
+    return { error };
+  } catch (err) {
+    console.error('Error in deleteDesignIteration Supabase call:', err);
+    return { error: err };
+  }
+};
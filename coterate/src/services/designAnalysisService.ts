@@ -0,0 +1,178 @@
+/**
+ * Design Analysis Service
+ * Helpers for the typed DesignAnalysis model: checking analyses returned by the AI routes,
+ * reading analyses saved on iterations (including free-text ones saved before the model
+ * existed) and turning an analysis back into a prompt.
+ */
+
+import {
+  DesignAnalysis,
+  DesignIssue,
+  DesignIssueCategory,
+  DesignIssueChange,
+  DesignIssueSeverity
+} from '../types';
+
+// Most severe first, as issues are listed
+export const DESIGN_ISSUE_SEVERITIES: DesignIssueSeverity[] = ['critical', 'major', 'minor'];
+
+export const DESIGN_ISSUE_CATEGORIES: DesignIssueCategory[] = [
+  'hierarchy',
+  'color',
+  'typography',
+  'spacing',
+  'consistency',
+  'accessibility',
+  'usability'
+];
+
+// Attributes that point at a category when the model doesn't name one
+const CATEGORY_PATTERNS: [RegExp, DesignIssueCategory][] = [
+  [/color|background|border(?!radius)/i, 'color'],
+  [/font|text(?!color)|letter|line/i, 'typography'],
+  [/padding|margin|gap|spacing|width|height/i, 'spacing'],
+  [/radius|shadow/i, 'consistency']
+];
+
+const isSeverity = (value: unknown): value is DesignIssueSeverity =>
+  DESIGN_ISSUE_SEVERITIES.includes(value as DesignIssueSeverity);
+
+const isCategory = (value: unknown): value is DesignIssueCategory =>
+  DESIGN_ISSUE_CATEGORIES.includes(value as DesignIssueCategory);
+
+const toValue = (value: unknown): string | number | undefined =>
+  typeof value === 'number' || typeof value === 'string' ? value : undefined;
+
+/**
+ * Guess an issue's category from the attributes it changes
+ * @param properties Changed attribute names
+ * @returns Category of the first attribute that gives one away, or 'usability'
+ */
+export const inferIssueCategory = (properties: string[]): DesignIssueCategory => {
+  for (const property of properties) {
+    const match = CATEGORY_PATTERNS.find(([pattern]) => pattern.test(property));
+    if (match) return match[1];
+  }
+  return 'usability';
+};
+
+const normalizeChanges = (value: unknown): DesignIssueChange[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(change => change && typeof change.property === 'string')
+    .map(change => ({
+      property: change.property,
+      ...(toValue(change.before) !== undefined ? { before: toValue(change.before) } : {}),
+      ...(toValue(change.after) !== undefined ? { after: toValue(change.after) } : {})
+    }));
+};
+
+const normalizeIssue = (value: any, index: number): DesignIssue | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const changes = normalizeChanges(value.changes);
+  const title = typeof value.title === 'string' && value.title.trim() ? value.title.trim() : null;
+  if (!title) return null;
+
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : `issue-${index}`,
+    title,
+    severity: isSeverity(value.severity) ? value.severity : 'minor',
+    category: isCategory(value.category) ? value.category : inferIssueCategory(changes.map(change => change.property)),
+    componentIds: Array.isArray(value.componentIds)
+      ? value.componentIds.filter((id: unknown) => typeof id === 'string')
+      : [],
+    changes,
+    rationale: typeof value.rationale === 'string' ? value.rationale : ''
+  };
+};
+
+/**
+ * Check an analysis returned by an AI route, dropping issues that don't fit the model
+ * @param value Parsed response
+ * @returns Analysis, or null if the value isn't one
+ */
+export const normalizeDesignAnalysis = (value: unknown): DesignAnalysis | null => {
+  if (!value || typeof value !== 'object' || !Array.isArray((value as any).issues)) return null;
+
+  const analysis = value as any;
+  return {
+    summary: typeof analysis.summary === 'string' ? analysis.summary : '',
+    ...(typeof analysis.componentCount === 'number' ? { componentCount: analysis.componentCount } : {}),
+    issues: analysis.issues
+      .map(normalizeIssue)
+      .filter((issue: DesignIssue | null): issue is DesignIssue => issue !== null)
+  };
+};
+
+// Analyses saved by improveUIWithComponents before issues existed: one entry per component
+const fromLegacyImprovements = (legacy: any): DesignAnalysis => ({
+  summary: typeof legacy.summary === 'string' ? legacy.summary : '',
+  ...(typeof legacy.componentCount === 'number' ? { componentCount: legacy.componentCount } : {}),
+  issues: (Array.isArray(legacy.improvements) ? legacy.improvements : []).map((improvement: any, index: number) => {
+    const properties = Object.entries(improvement.improvements || {});
+    return {
+      id: `issue-${index}`,
+      title: `Improve ${improvement.componentType || 'component'}`,
+      severity: 'minor' as DesignIssueSeverity,
+      category: inferIssueCategory(properties.map(([property]) => property)),
+      componentIds: [],
+      changes: properties.map(([property, after]) => ({ property, after: toValue(after) })),
+      rationale: improvement.reasoning || ''
+    };
+  })
+});
+
+/**
+ * Read the analysis saved on an iteration
+ * @param stored DesignIteration.analysis
+ * @returns Analysis; free text becomes the summary of an analysis without issues
+ */
+export const parseDesignAnalysis = (stored: DesignAnalysis | string | undefined): DesignAnalysis | null => {
+  if (!stored) return null;
+  if (typeof stored !== 'string') return normalizeDesignAnalysis(stored);
+
+  try {
+    const parsed = JSON.parse(stored);
+    const analysis = normalizeDesignAnalysis(parsed);
+    if (analysis) return analysis;
+    if (parsed && typeof parsed === 'object') return fromLegacyImprovements(parsed);
+  } catch (e) {
+    // Not JSON, so a free-text analysis
+  }
+
+  return { summary: stored, issues: [] };
+};
+
+/**
+ * Point an analysis's issues at copies of the components it was made for
+ * @param analysis Analysis of the original components
+ * @param idMap Original component id -> copied component id
+ * @returns Analysis referring to the copies
+ */
+export const remapAnalysisComponents = (analysis: DesignAnalysis, idMap: Record<string, string>): DesignAnalysis => ({
+  ...analysis,
+  issues: analysis.issues.map(issue => ({
+    ...issue,
+    componentIds: issue.componentIds.map(id => idMap[id]).filter(Boolean)
+  }))
+});
+
+/**
+ * Describe an analysis's most severe issues in a few lines, for image generation prompts
+ * @param analysis Analysis to describe
+ * @param maxIssues Most issues to include
+ * @returns One line per issue
+ */
+export const describeDesignAnalysis = (analysis: DesignAnalysis, maxIssues = 5): string =>
+  [...analysis.issues]
+    .sort((a, b) => DESIGN_ISSUE_SEVERITIES.indexOf(a.severity) - DESIGN_ISSUE_SEVERITIES.indexOf(b.severity))
+    .slice(0, maxIssues)
+    .map(issue => {
+      const changes = issue.changes
+        .map(change => `${change.property} ${change.before ?? 'none'} → ${change.after ?? 'none'}`)
+        .join(', ');
+      return `- ${issue.title}${changes ? ` (${changes})` : ''}`;
+    })
+    .join('\n');
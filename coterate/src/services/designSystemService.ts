@@ -0,0 +1,69 @@
+/**
+ * Design System Service
+ * Holds the user's design system profile (allowed colors, fonts, radius rules and tone)
+ * and turns it into a constraints block that is added to every detection, analysis and
+ * generation prompt. The settings context keeps the active profile up to date, like the
+ * vision provider.
+ */
+
+import { DesignSystemProfile } from '../types';
+
+export const EMPTY_DESIGN_SYSTEM_PROFILE: DesignSystemProfile = {
+  colors: [],
+  fonts: [],
+  radiusRule: '',
+  tone: ''
+};
+
+let activeProfile: DesignSystemProfile = EMPTY_DESIGN_SYSTEM_PROFILE;
+
+/**
+ * Get the profile used in AI prompts
+ * @returns The active design system profile
+ */
+export const getDesignSystemProfile = (): DesignSystemProfile => activeProfile;
+
+/**
+ * Switch the profile used in AI prompts
+ * @param profile Profile from the user's settings; none clears the constraints
+ */
+export const setDesignSystemProfile = (profile?: DesignSystemProfile) => {
+  activeProfile = profile || EMPTY_DESIGN_SYSTEM_PROFILE;
+};
+
+/**
+ * Whether a profile sets any constraint
+ * @param profile Design system profile
+ * @returns True if at least one field is filled in
+ */
+export const hasDesignSystemConstraints = (profile: DesignSystemProfile): boolean =>
+  profile.colors.length > 0 || profile.fonts.length > 0 || !!profile.radiusRule.trim() || !!profile.tone.trim();
+
+/**
+ * Describe a profile as a constraints block for prompts
+ * @param profile Design system profile, the active one by default
+ * @returns One line per constraint under a heading, or an empty string if there are none
+ */
+export const describeDesignSystem = (profile: DesignSystemProfile = activeProfile): string => {
+  if (!hasDesignSystemConstraints(profile)) return '';
+
+  const lines = [
+    profile.colors.length > 0 && `- Allowed colors: ${profile.colors.join(', ')}`,
+    profile.fonts.length > 0 && `- Allowed fonts: ${profile.fonts.join(', ')}`,
+    profile.radiusRule.trim() && `- Corner radius rule: ${profile.radiusRule.trim()}`,
+    profile.tone.trim() && `- Tone: ${profile.tone.trim()}`
+  ].filter(Boolean);
+
+  return `Design system constraints (these override any other style guidance):\n${lines.join('\n')}`;
+};
+
+/**
+ * Add the active design system constraints to a custom prompt for the serverless routes
+ * @param prompt The user's or the pipeline's own instructions, if any
+ * @returns The prompt followed by the constraints, or undefined if both are empty
+ */
+export const withDesignSystemConstraints = (prompt?: string): string | undefined => {
+  const constraints = describeDesignSystem();
+  if (!constraints) return prompt;
+  return prompt ? `${prompt}\n\n${constraints}` : constraints;
+};
@@ -0,0 +1,134 @@
+import { DesignIteration, DesignTokenSet, DetectedComponent } from '../types';
+import { describeDesignTokens, emptyDesignTokens, extractDesignTokens, getLockedTokens } from './designTokenService';
+import { createComponent } from './testFixtures';
+
+let nextId = 0;
+
+const component = (attributes: DetectedComponent['attributes']) => createComponent(`component-${nextId++}`, { attributes });
+
+const design = (components: DetectedComponent[]): DesignIteration => ({
+  id: `design-${nextId++}`,
+  image: '',
+  label: 'Design',
+  iterationType: 'base',
+  iterationNumber: 0,
+  components
+});
+
+const values = (tokens: DesignTokenSet, group: keyof DesignTokenSet) =>
+  tokens[group].map(token => [token.name, token.value, token.usage]);
+
+describe('extractDesignTokens', () => {
+  it('clusters near-identical colors under the most used one, ignoring translucent colors', () => {
+    const tokens = extractDesignTokens([
+      design([
+        component({ backgroundColor: '#1A73E8', textColor: 'rgb(255, 255, 255)' }),
+        component({ backgroundColor: '#1a73e8', borderColor: '#1b74e9' }),
+        component({ backgroundColor: 'rgba(0, 0, 0, 0.5)', textColor: '#fff' })
+      ]),
+      design([component({ backgroundColor: '#1a73e8' })])
+    ]);
+
+    expect(values(tokens, 'colors')).toEqual([
+      ['color-1', '#1a73e8', 4],
+      ['color-2', '#ffffff', 2]
+    ]);
+  });
+
+  it('builds scales from small to large, merging sizes within 1px or 10%', () => {
+    const tokens = extractDesignTokens([
+      design([
+        component({ fontSize: 16, borderRadius: 8 }),
+        component({ fontSize: '16px' as any, borderRadius: 0 }),
+        component({ fontSize: 17, borderRadius: 24 }),
+        component({ fontSize: 12 }),
+        component({ fontSize: 40 }),
+        component({ fontSize: 43 })
+      ])
+    ]);
+
+    expect(values(tokens, 'fontSizes')).toEqual([
+      ['font-size-1', 12, 1],
+      ['font-size-2', 16, 3],
+      ['font-size-3', 40, 2]
+    ]);
+    // A radius of 0 isn't a token
+    expect(values(tokens, 'radii')).toEqual([
+      ['radius-1', 8, 1],
+      ['radius-2', 24, 1]
+    ]);
+  });
+
+  it('reads each side of spacing shorthands', () => {
+    const tokens = extractDesignTokens([design([component({ padding: '8px 16px', gap: 8, margin: 'auto' })])]);
+
+    expect(values(tokens, 'spacing')).toEqual([
+      ['spacing-1', 8, 2],
+      ['spacing-2', 16, 1]
+    ]);
+  });
+
+  it('keeps the most used tokens of each group', () => {
+    // Twelve radii far enough apart to stay separate, used 1 to 12 times
+    const radii = [2, 4, 8, 12, 16, 24, 32, 48, 64, 96, 128, 192];
+    const components = radii.flatMap((radius, index) =>
+      Array.from({ length: index + 1 }, () => component({ borderRadius: radius })));
+
+    const tokens = extractDesignTokens([design(components)]);
+
+    expect(tokens.radii.map(token => token.value)).toEqual([32, 48, 64, 96, 128, 192]);
+  });
+
+  it('keeps locked tokens, lets them absorb close values and names new tokens around them', () => {
+    const previous: DesignTokenSet = {
+      ...emptyDesignTokens(),
+      fontSizes: [
+        { name: 'font-size-1', value: 20, usage: 5, locked: true },
+        { name: 'font-size-2', value: 14, usage: 5 }
+      ]
+    };
+
+    const tokens = extractDesignTokens([
+      design([component({ fontSize: 12 }), component({ fontSize: 19 }), component({ fontSize: 21 }), component({ fontSize: 32 })])
+    ], previous);
+
+    expect(tokens.fontSizes).toEqual([
+      { name: 'font-size-2', value: 12, usage: 1 },
+      { name: 'font-size-1', value: 20, usage: 2, locked: true },
+      { name: 'font-size-3', value: 32, usage: 1 }
+    ]);
+  });
+
+  it('returns empty groups for designs without components', () => {
+    expect(extractDesignTokens([design([])])).toEqual(emptyDesignTokens());
+  });
+});
+
+describe('getLockedTokens', () => {
+  it('keeps only locked tokens', () => {
+    const tokens: DesignTokenSet = {
+      ...emptyDesignTokens(),
+      colors: [
+        { name: 'color-1', value: '#1a73e8', usage: 3, locked: true },
+        { name: 'color-2', value: '#ffffff', usage: 2 }
+      ]
+    };
+
+    expect(getLockedTokens(tokens)).toEqual({ ...emptyDesignTokens(), colors: [tokens.colors[0]] });
+  });
+
+  it('returns undefined when nothing is locked', () => {
+    expect(getLockedTokens(undefined)).toBeUndefined();
+    expect(getLockedTokens({ ...emptyDesignTokens(), radii: [{ name: 'radius-1', value: 8, usage: 1 }] })).toBeUndefined();
+  });
+});
+
+describe('describeDesignTokens', () => {
+  it('writes one line per group that has tokens', () => {
+    expect(describeDesignTokens({
+      ...emptyDesignTokens(),
+      colors: [{ name: 'color-1', value: '#1a73e8', usage: 3 }, { name: 'color-2', value: '#ffffff', usage: 2 }],
+      spacing: [{ name: 'spacing-1', value: 8, usage: 4 }]
+    })).toBe('Colors: color-1 = #1a73e8, color-2 = #ffffff\nSpacing (px): spacing-1 = 8');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Design Token Service
+ * Collects the colors, font sizes, corner radii and spacing detected across a page's
+ * designs and clusters near-identical values into a token set: a color palette, a type
+ * scale, a radius scale and a spacing scale. Tokens the user locks survive re-extraction
+ * and are handed to the AI so improvements stay on the team's design system.
+ */
+
+import { DesignIteration, DesignToken, DesignTokenSet, DetectedComponent } from '../types';
+import { parseCssColor, parsePixels, FigmaColor } from './figmaExportService';
+
+export type DesignTokenGroup = keyof DesignTokenSet;
+
+export const DESIGN_TOKEN_GROUPS: DesignTokenGroup[] = ['colors', 'fontSizes', 'radii', 'spacing'];
+
+// Prefix for the names of each group's tokens, e.g. font-size-3
+export const TOKEN_PREFIXES: Record<DesignTokenGroup, string> = {
+  colors: 'color',
+  fontSizes: 'font-size',
+  radii: 'radius',
+  spacing: 'spacing'
+};
+
+// Most tokens kept per group; the least used clusters are dropped
+const MAX_TOKENS: Record<DesignTokenGroup, number> = {
+  colors: 12,
+  fontSizes: 8,
+  radii: 6,
+  spacing: 8
+};
+
+// Colors closer than this (RGB distance, 0-1 per channel) are the same token
+const COLOR_DISTANCE = 0.08;
+
+// Sizes within this share of each other (or 1px) are the same token
+const SIZE_TOLERANCE = 0.1;
+
+const COLOR_ATTRIBUTES = ['backgroundColor', 'textColor', 'borderColor', 'color'];
+const SPACING_ATTRIBUTES = ['padding', 'margin', 'gap'];
+
+export const emptyDesignTokens = (): DesignTokenSet => ({ colors: [], fontSizes: [], radii: [], spacing: [] });
+
+const toHex = (color: FigmaColor): string =>
+  `#${[color.r, color.g, color.b].map(channel => Math.round(channel * 255).toString(16).padStart(2, '0')).join('')}`;
+
+const getColorDistance = (a: FigmaColor, b: FigmaColor): number =>
+  Math.sqrt(Math.pow(a.r - b.r, 2) + Math.pow(a.g - b.g, 2) + Math.pow(a.b - b.b, 2));
+
+const isSameSize = (a: number, b: number): boolean =>
+  Math.abs(a - b) <= Math.max(1, Math.min(a, b) * SIZE_TOLERANCE);
+
+const isSameValue = (group: DesignTokenGroup, a: string | number, b: string | number): boolean => {
+  if (group !== 'colors') return isSameSize(Number(a), Number(b));
+
+  const colorA = parseCssColor(a);
+  const colorB = parseCssColor(b);
+  return !!colorA && !!colorB && getColorDistance(colorA, colorB) <= COLOR_DISTANCE;
+};
+
+// Count each distinct value
+const countValues = <T extends string | number>(values: T[]): Map<T, number> => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return counts;
+};
+
+// Group values the most used first, each joining the first cluster it's close to;
+// a cluster's token is its most used value
+const clusterValues = (group: DesignTokenGroup, values: (string | number)[]): { value: string | number, usage: number }[] => {
+  const clusters: { value: string | number, usage: number }[] = [];
+
+  Array.from(countValues(values).entries())
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([value, count]) => {
+      const cluster = clusters.find(candidate => isSameValue(group, candidate.value, value));
+      if (cluster) {
+        cluster.usage += count;
+      } else {
+        clusters.push({ value, usage: count });
+      }
+    });
+
+  return clusters;
+};
+
+// Opaque colors as lowercase hex; translucent overlays don't make good palette colors
+const collectColors = (component: DetectedComponent): string[] =>
+  COLOR_ATTRIBUTES
+    .map(attribute => parseCssColor(component.attributes[attribute]))
+    .filter((color): color is FigmaColor => !!color && color.a === 1)
+    .map(toHex);
+
+// Shorthands like "8px 16px" give one value per side
+const collectSpacing = (component: DetectedComponent): number[] =>
+  SPACING_ATTRIBUTES.flatMap(attribute => {
+    const value = component.attributes[attribute];
+    const parts = typeof value === 'string' ? value.trim().split(/\s+/) : [value];
+    return parts.map(parsePixels).filter((size): size is number => size !== null && size > 0);
+  });
+
+const collectSize = (value: unknown): number[] => {
+  const size = parsePixels(value);
+  return size !== null && size > 0 ? [size] : [];
+};
+
+/**
+ * Extract a page's design tokens from the components of its designs
+ * @param iterations The page's designs
+ * @param previous Tokens saved on the page; locked ones are kept and absorb matching values
+ * @returns Token set, colors by usage and scales from small to large
+ */
+export const extractDesignTokens = (iterations: DesignIteration[], previous?: DesignTokenSet): DesignTokenSet => {
+  const components = iterations.flatMap(iteration => iteration.components || []);
+
+  const values: Record<DesignTokenGroup, (string | number)[]> = {
+    colors: components.flatMap(collectColors),
+    fontSizes: components.flatMap(component => collectSize(component.attributes.fontSize)),
+    radii: components.flatMap(component => collectSize(component.attributes.borderRadius)),
+    spacing: components.flatMap(collectSpacing)
+  };
+
+  const tokens = emptyDesignTokens();
+
+  DESIGN_TOKEN_GROUPS.forEach(group => {
+    const locked = (previous?.[group] || []).filter(token => token.locked).map(token => ({ ...token, usage: 0 }));
+
+    // Values close to a locked token count towards it instead of forming a token of their own
+    const unlocked: DesignToken[] = [];
+    clusterValues(group, values[group]).forEach(cluster => {
+      const match = locked.find(token => isSameValue(group, token.value, cluster.value));
+      if (match) {
+        match.usage += cluster.usage;
+      } else {
+        unlocked.push({ name: '', value: cluster.value, usage: cluster.usage });
+      }
+    });
+
+    const kept = unlocked
+      .sort((a, b) => b.usage - a.usage)
+      .slice(0, Math.max(0, MAX_TOKENS[group] - locked.length));
+
+    const all = [...locked, ...kept].sort(group === 'colors'
+      ? (a, b) => b.usage - a.usage
+      : (a, b) => Number(a.value) - Number(b.value));
+
+    // Number the new tokens in order, around the names locked tokens already use
+    const usedNames = new Set(locked.map(token => token.name));
+    let index = 1;
+    all.forEach(token => {
+      if (token.locked) return;
+      while (usedNames.has(`${TOKEN_PREFIXES[group]}-${index}`)) index++;
+      token.name = `${TOKEN_PREFIXES[group]}-${index}`;
+      usedNames.add(token.name);
+    });
+
+    tokens[group] = all;
+  });
+
+  return tokens;
+};
+
+/**
+ * Keep only the locked tokens
+ * @param tokens Page's token set
+ * @returns Locked tokens, or undefined if none are locked
+ */
+export const getLockedTokens = (tokens?: DesignTokenSet): DesignTokenSet | undefined => {
+  if (!tokens) return undefined;
+
+  const locked = emptyDesignTokens();
+  DESIGN_TOKEN_GROUPS.forEach(group => {
+    locked[group] = (tokens[group] || []).filter(token => token.locked);
+  });
+
+  return DESIGN_TOKEN_GROUPS.some(group => locked[group].length > 0) ? locked : undefined;
+};
+
+/**
+ * Describe tokens for an AI prompt
+ * @param tokens Tokens to describe
+ * @returns One line per group that has tokens
+ */
+export const describeDesignTokens = (tokens: DesignTokenSet): string => {
+  const labels: Record<DesignTokenGroup, string> = {
+    colors: 'Colors',
+    fontSizes: 'Font sizes (px)',
+    radii: 'Corner radii (px)',
+    spacing: 'Spacing (px)'
+  };
+
+  return DESIGN_TOKEN_GROUPS
+    .filter(group => tokens[group].length > 0)
+    .map(group => `${labels[group]}: ${tokens[group].map(token => `${token.name} = ${token.value}`).join(', ')}`)
+    .join('\n');
+};
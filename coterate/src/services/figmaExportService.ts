@@ -0,0 +1,274 @@
+/**
+ * Figma Export Service
+ * Turns a design's components into a Figma node tree (FRAME, RECTANGLE and TEXT nodes)
+ * shaped like the Figma REST API's file format. The Coterate plugin in `figma-plugin/`
+ * imports it as editable layers.
+ */
+
+import { DetectedComponent } from '../types';
+import { inferComponentConfig } from './aiComponentService';
+import { buildComponentTree } from './componentTreeService';
+
+export const FIGMA_EXPORT_FORMAT = 'coterate-figma';
+export const FIGMA_EXPORT_VERSION = 1;
+
+// Colors are 0-1 per channel, as in the REST API
+export interface FigmaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export type FigmaPaint =
+  | { type: 'SOLID', color: FigmaColor }
+  | { type: 'IMAGE', scaleMode: 'FILL', imageRef: string };
+
+export interface FigmaTypeStyle {
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  textAlignHorizontal: 'LEFT' | 'CENTER' | 'RIGHT';
+  textAlignVertical: 'TOP' | 'CENTER' | 'BOTTOM';
+}
+
+export interface FigmaNode {
+  id: string;
+  name: string;
+  type: 'FRAME' | 'RECTANGLE' | 'TEXT';
+  absoluteBoundingBox: { x: number, y: number, width: number, height: number }; // Pixels from the design's top left
+  fills: FigmaPaint[];
+  strokes?: FigmaPaint[];
+  strokeWeight?: number;
+  cornerRadius?: number;
+  clipsContent?: boolean;
+  locked?: boolean;
+  characters?: string; // TEXT only
+  style?: FigmaTypeStyle; // TEXT only
+  children?: FigmaNode[];
+}
+
+export interface FigmaExportDocument {
+  format: typeof FIGMA_EXPORT_FORMAT;
+  version: typeof FIGMA_EXPORT_VERSION;
+  name: string;
+  document: FigmaNode; // Root frame with the design's size
+  images: Record<string, string>; // imageRef -> data URL or image URL
+}
+
+export interface FigmaExportOptions {
+  name: string;
+  imageSize?: { width: number, height: number };
+  image?: string; // Added as a locked background layer when given
+}
+
+// Used when the design's pixel size isn't known; boxes are percentages either way
+const DEFAULT_FRAME_SIZE = { width: 1440, height: 1024 };
+
+const DEFAULT_FONT_FAMILY = 'Inter';
+const DEFAULT_FONT_SIZE = 16;
+const DESIGN_IMAGE_REF = 'design';
+
+const BLACK: FigmaColor = { r: 0, g: 0, b: 0, a: 1 };
+const WHITE: FigmaColor = { r: 1, g: 1, b: 1, a: 1 };
+const PLACEHOLDER_GRAY: FigmaColor = { r: 0.88, g: 0.88, b: 0.88, a: 1 };
+
+// Component types drawn as text layers, and as plain shapes when they have no text
+const TEXT_TYPE_PATTERN = /text|label|heading|title|paragraph|link|caption/;
+const SHAPE_TYPE_PATTERN = /image|icon|avatar|divider|logo/;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Parse a CSS color (#rgb, #rrggbb, #rrggbbaa, rgb() or rgba()) into a Figma color
+ * @param value CSS color
+ * @returns Figma color, or null for anything else (named colors, gradients)
+ */
+export const parseCssColor = (value: unknown): FigmaColor | null => {
+  if (typeof value !== 'string') return null;
+  const color = value.trim().toLowerCase();
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+    const channel = (index: number) => parseInt(digits.slice(index * 2, index * 2 + 2), 16) / 255;
+
+    return {
+      r: channel(0),
+      g: channel(1),
+      b: channel(2),
+      a: digits.length === 8 ? channel(3) : 1
+    };
+  }
+
+  const rgb = color.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    const alpha = rgb[4] === undefined
+      ? 1
+      : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+
+    return {
+      r: Math.min(255, parseFloat(rgb[1])) / 255,
+      g: Math.min(255, parseFloat(rgb[2])) / 255,
+      b: Math.min(255, parseFloat(rgb[3])) / 255,
+      a: Math.min(1, alpha)
+    };
+  }
+
+  return null;
+};
+
+// Numbers like 8, "8" or "8px"
+export const parsePixels = (value: unknown): number | null => {
+  if (typeof value === 'number' && isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value);
+    return isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+export const parseFontWeight = (value: unknown): number | null => {
+  if (value === 'bold') return 700;
+  if (value === 'normal') return 400;
+  const weight = parsePixels(value);
+  return weight !== null ? Math.round(weight / 100) * 100 : null;
+};
+
+// Rounded so the exported JSON stays readable
+const solid = (color: FigmaColor): FigmaPaint => ({
+  type: 'SOLID',
+  color: { r: round(color.r), g: round(color.g), b: round(color.b), a: round(color.a) }
+});
+
+/**
+ * Build the Figma node tree for a design's components
+ * @param components Flat list of components (with bounding boxes) linked by parentId
+ * @param options Frame name, the design's pixel size and optionally its image
+ * @returns Document for the Coterate Figma plugin
+ */
+export const generateFigmaDocument = (
+  components: DetectedComponent[],
+  options: FigmaExportOptions
+): FigmaExportDocument => {
+  const frameSize = options.imageSize || DEFAULT_FRAME_SIZE;
+
+  // Boxes are percentages of the whole design
+  const toPixels = (box: DetectedComponent['boundingBox']) => ({
+    x: round((box.x / 100) * frameSize.width),
+    y: round((box.y / 100) * frameSize.height),
+    width: round((box.width / 100) * frameSize.width),
+    height: round((box.height / 100) * frameSize.height)
+  });
+
+  const createTextNode = (
+    id: string,
+    component: DetectedComponent,
+    text: string,
+    box: FigmaNode['absoluteBoundingBox'],
+    textAlignHorizontal: FigmaTypeStyle['textAlignHorizontal']
+  ): FigmaNode => {
+    const { attributes } = component;
+    // Without a detected size, pick one that fits the box
+    const fontSize = parsePixels(attributes.fontSize) || Math.max(8, Math.min(DEFAULT_FONT_SIZE, Math.round(box.height * 0.6)));
+
+    return {
+      id,
+      name: text.length > 40 ? `${text.slice(0, 40)}…` : text,
+      type: 'TEXT',
+      absoluteBoundingBox: box,
+      fills: [solid(parseCssColor(attributes.textColor) || parseCssColor(attributes.color) || BLACK)],
+      characters: text,
+      style: {
+        fontFamily: typeof attributes.fontFamily === 'string' ? attributes.fontFamily.split(',')[0].replace(/['"]/g, '').trim() : DEFAULT_FONT_FAMILY,
+        fontWeight: parseFontWeight(attributes.fontWeight) || 400,
+        fontSize,
+        textAlignHorizontal,
+        textAlignVertical: 'CENTER'
+      }
+    };
+  };
+
+  const toNode = (component: DetectedComponent): FigmaNode => {
+    const { attributes } = component;
+    const type = component.type.toLowerCase();
+    const config = inferComponentConfig(component, {});
+    const box = toPixels(component.boundingBox);
+    const children = component.children || [];
+    const text = typeof attributes.text === 'string' ? attributes.text.trim() : '';
+    const name = component.type;
+
+    const isTextField = config.type === 'TextField';
+    const isText = !isTextField && (config.type === 'Typography' || TEXT_TYPE_PATTERN.test(type));
+
+    // Plain text becomes a text layer of its own
+    if (isText && text && children.length === 0) {
+      return createTextNode(component.id, component, text, box, 'LEFT');
+    }
+
+    const backgroundColor = parseCssColor(attributes.backgroundColor);
+    const borderColor = parseCssColor(attributes.borderColor);
+    const cornerRadius = parsePixels(attributes.borderRadius);
+
+    const styling: Partial<FigmaNode> = {
+      ...(borderColor ? { strokes: [solid(borderColor)], strokeWeight: parsePixels(attributes.borderWidth) || 1 } : {}),
+      ...(cornerRadius ? { cornerRadius } : {})
+    };
+
+    // Images, icons and dividers are shapes; keep them visible with a placeholder fill
+    if (SHAPE_TYPE_PATTERN.test(type) && !text && children.length === 0) {
+      return {
+        id: component.id,
+        name,
+        type: 'RECTANGLE',
+        absoluteBoundingBox: box,
+        fills: [solid(backgroundColor || PLACEHOLDER_GRAY)],
+        ...styling
+      };
+    }
+
+    // Everything else is a frame, with its label (a button's text, a field's placeholder) inside
+    const label = text
+      ? [createTextNode(`${component.id}-text`, component, text, box, config.type === 'Button' ? 'CENTER' : 'LEFT')]
+      : [];
+
+    return {
+      id: component.id,
+      name,
+      type: 'FRAME',
+      absoluteBoundingBox: box,
+      fills: backgroundColor ? [solid(backgroundColor)] : isTextField ? [solid(WHITE)] : [],
+      clipsContent: false,
+      ...styling,
+      children: [...label, ...children.map(toNode)]
+    };
+  };
+
+  const frameBox = { x: 0, y: 0, width: frameSize.width, height: frameSize.height };
+  const background: FigmaNode[] = options.image
+    ? [{
+        id: 'design-image',
+        name: 'Original design',
+        type: 'RECTANGLE',
+        absoluteBoundingBox: frameBox,
+        fills: [{ type: 'IMAGE', scaleMode: 'FILL', imageRef: DESIGN_IMAGE_REF }],
+        locked: true
+      }]
+    : [];
+
+  return {
+    format: FIGMA_EXPORT_FORMAT,
+    version: FIGMA_EXPORT_VERSION,
+    name: options.name,
+    document: {
+      id: 'root',
+      name: options.name,
+      type: 'FRAME',
+      absoluteBoundingBox: frameBox,
+      fills: [solid(WHITE)],
+      clipsContent: true,
+      children: [...background, ...buildComponentTree(components).map(toNode)]
+    },
+    images: options.image ? { [DESIGN_IMAGE_REF]: options.image } : {}
+  };
+};
@@ -0,0 +1,486 @@
+/**
+ * Figma Import Service
+ * Builds a design from a Figma frame: the REST API's `GET /files/:key/nodes` response,
+ * a file exported from Figma or Coterate's own Figma export. Components come straight
+ * from the node tree, so imported designs skip AI detection, and the preview image is
+ * rendered from the same nodes.
+ */
+
+import { DetectedComponent, FigmaData } from '../types';
+import { aiApiClient } from './aiApiClient';
+import { MAX_COMPONENT_DEPTH } from './componentSchema';
+import { FIGMA_EXPORT_FORMAT, FIGMA_EXPORT_VERSION } from './figmaExportService';
+
+export interface FigmaFileLink {
+  fileKey: string;
+  nodeId?: string; // "12:34"
+}
+
+export interface FigmaImportResult {
+  name: string;
+  image: string; // PNG data URL rendered from the nodes
+  components: DetectedComponent[];
+  figmaData?: FigmaData; // Only for frames that came from a Figma file link
+}
+
+// The subset of a REST API node the importer reads
+interface FigmaNode {
+  id: string;
+  name: string;
+  type: string;
+  visible?: boolean;
+  opacity?: number;
+  locked?: boolean;
+  absoluteBoundingBox?: { x: number, y: number, width: number, height: number };
+  fills?: any[];
+  strokes?: any[];
+  strokeWeight?: number;
+  cornerRadius?: number;
+  characters?: string;
+  style?: {
+    fontFamily?: string;
+    fontWeight?: number;
+    fontSize?: number;
+    textAlignHorizontal?: string;
+    textAlignVertical?: string;
+  };
+  children?: FigmaNode[];
+}
+
+type FigmaBox = NonNullable<FigmaNode['absoluteBoundingBox']>;
+
+// Largest side of the rendered preview, in pixels
+const MAX_PREVIEW_SIZE = 2000;
+
+// Layer names that say what a frame is; checked in order
+const NAMED_TYPES: [RegExp, string][] = [
+  [/button|btn|cta/i, 'button'],
+  [/input|text ?field|textbox|search/i, 'input'],
+  [/checkbox/i, 'checkbox'],
+  [/toggle|switch/i, 'toggle'],
+  [/nav/i, 'navbar'],
+  [/header/i, 'header'],
+  [/footer/i, 'footer'],
+  [/card/i, 'card'],
+  [/icon/i, 'icon'],
+  [/image|img|photo|avatar/i, 'image']
+];
+
+// Components whose text layers are their label rather than components of their own
+const LABELLED_TYPES = ['button', 'input', 'checkbox', 'toggle', 'link'];
+
+const CONTAINER_NODE_TYPES = ['FRAME', 'GROUP', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'SECTION'];
+const VECTOR_NODE_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'LINE', 'STAR', 'POLYGON', 'REGULAR_POLYGON'];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Read the file key and node id from a Figma link
+ * @param url A figma.com file, design or prototype link
+ * @returns The file key and node id, or null if the link isn't a Figma file
+ */
+export const parseFigmaUrl = (url: string): FigmaFileLink | null => {
+  const match = url.trim().match(/figma\.com\/(?:file|design|proto)\/([A-Za-z0-9]+)/);
+  if (!match) return null;
+
+  const nodeIdMatch = url.match(/[?&]node-id=([^&#]+)/);
+  const nodeId = nodeIdMatch ? decodeURIComponent(nodeIdMatch[1]).replace('-', ':') : undefined;
+
+  return nodeId ? { fileKey: match[1], nodeId } : { fileKey: match[1] };
+};
+
+/**
+ * Fetch a frame through the Figma proxy route, which holds the access token
+ * @param link File key and node id of the frame
+ * @returns The REST API's `GET /files/:key/nodes` response
+ */
+export const fetchFigmaNodes = async (link: FigmaFileLink): Promise<any> => {
+  if (!link.nodeId) {
+    throw new Error('Link to a frame: select it in Figma and use Copy link to selection.');
+  }
+
+  const response = await aiApiClient.get('/api/figma-nodes', {
+    params: { fileKey: link.fileKey, nodeId: link.nodeId }
+  });
+
+  return response.data;
+};
+
+// Find the frame to import in any of the supported JSON shapes
+const getRootNode = (json: any, nodeId?: string): { node: FigmaNode, images: Record<string, string> } => {
+  if (json?.format === FIGMA_EXPORT_FORMAT) {
+    if (json.version > FIGMA_EXPORT_VERSION) {
+      throw new Error('This export is from a newer version of Coterate.');
+    }
+    return { node: json.document, images: json.images || {} };
+  }
+
+  // GET /files/:key/nodes
+  if (json?.nodes && typeof json.nodes === 'object') {
+    const entry = (nodeId && json.nodes[nodeId]) || Object.values<any>(json.nodes).find(value => value?.document);
+    if (!entry?.document) {
+      throw new Error('The Figma response has no nodes. Check that the link points to a frame.');
+    }
+    return { node: entry.document, images: {} };
+  }
+
+  // GET /files/:key — use the first frame on the first page
+  if (json?.document?.type === 'DOCUMENT') {
+    const pages: FigmaNode[] = json.document.children || [];
+    const frame = pages.flatMap(page => page.children || []).find(child => CONTAINER_NODE_TYPES.includes(child.type));
+    if (!frame) {
+      throw new Error('The Figma file has no frames to import.');
+    }
+    return { node: frame, images: {} };
+  }
+
+  // A single node
+  if (json?.type && json?.absoluteBoundingBox) {
+    return { node: json, images: {} };
+  }
+
+  throw new Error('This is not a Figma file. Export the frame from the Figma API or from Coterate.');
+};
+
+// Figma colors are 0-1 per channel
+const toCssColor = (color: { r: number, g: number, b: number, a?: number }, opacity = 1): string => {
+  const alpha = round((color.a ?? 1) * opacity);
+  const channels = [color.r, color.g, color.b].map(channel => Math.round(channel * 255));
+
+  if (alpha >= 1) {
+    return `#${channels.map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  return `rgba(${channels.join(', ')}, ${alpha})`;
+};
+
+// First visible paint of a fill or stroke list
+const getVisiblePaint = (paints?: any[]): any | null =>
+  (paints || []).find(paint => paint && paint.visible !== false) || null;
+
+const getPaintColor = (paints?: any[]): string | undefined => {
+  const paint = getVisiblePaint(paints);
+  if (!paint) return undefined;
+
+  if (paint.type === 'SOLID' && paint.color) {
+    return toCssColor(paint.color, paint.opacity ?? 1);
+  }
+
+  // Gradients are approximated by their first stop
+  if (paint.gradientStops?.[0]?.color) {
+    return toCssColor(paint.gradientStops[0].color, paint.opacity ?? 1);
+  }
+
+  return undefined;
+};
+
+const getComponentType = (node: FigmaNode): string => {
+  if (node.type === 'TEXT') {
+    if (/heading|title|h[1-6]\b/i.test(node.name)) return 'heading';
+    if (/link/i.test(node.name)) return 'link';
+    if (/label/i.test(node.name)) return 'label';
+    return 'text';
+  }
+
+  const named = NAMED_TYPES.find(([pattern]) => pattern.test(node.name));
+  if (named) return named[1];
+
+  if (VECTOR_NODE_TYPES.includes(node.type)) return 'icon';
+  if (getVisiblePaint(node.fills)?.type === 'IMAGE') return 'image';
+  if (node.type === 'RECTANGLE' || node.type === 'ELLIPSE') return 'shape';
+
+  return 'container';
+};
+
+const getTextAttributes = (node: FigmaNode): DetectedComponent['attributes'] => ({
+  text: node.characters || '',
+  textColor: getPaintColor(node.fills),
+  ...(node.style?.fontSize ? { fontSize: node.style.fontSize } : {}),
+  ...(node.style?.fontWeight ? { fontWeight: node.style.fontWeight } : {}),
+  ...(node.style?.fontFamily ? { fontFamily: node.style.fontFamily } : {})
+});
+
+const isVisible = (node: FigmaNode): boolean => node.visible !== false && (node.opacity ?? 1) > 0;
+
+/**
+ * Turn a Figma frame's layers into components, nested like the layers
+ * @param root The frame being imported
+ * @returns Flat list of components linked by parentId, with boxes in percentages of the frame
+ */
+export const figmaNodesToComponents = (root: FigmaNode): DetectedComponent[] => {
+  const rootBox = root.absoluteBoundingBox;
+  if (!rootBox || rootBox.width <= 0 || rootBox.height <= 0) {
+    throw new Error('The Figma frame has no size.');
+  }
+
+  const components: DetectedComponent[] = [];
+
+  // Boxes are clipped to the frame, like the design image
+  const toPercentBox = (box: FigmaBox): DetectedComponent['boundingBox'] | null => {
+    const left = Math.max(box.x, rootBox.x);
+    const top = Math.max(box.y, rootBox.y);
+    const right = Math.min(box.x + box.width, rootBox.x + rootBox.width);
+    const bottom = Math.min(box.y + box.height, rootBox.y + rootBox.height);
+
+    if (right <= left || bottom <= top) return null;
+
+    return {
+      x: round(((left - rootBox.x) / rootBox.width) * 100),
+      y: round(((top - rootBox.y) / rootBox.height) * 100),
+      width: round(((right - left) / rootBox.width) * 100),
+      height: round(((bottom - top) / rootBox.height) * 100)
+    };
+  };
+
+  const addNode = (node: FigmaNode, parentId: string | undefined, depth: number) => {
+    // Locked layers are backgrounds (like the design image in Coterate's export), not components
+    if (!isVisible(node) || !node.absoluteBoundingBox || node.locked) return;
+
+    // Groups only organise layers, so their children belong to the group's parent
+    if (node.type === 'GROUP') {
+      (node.children || []).forEach(child => addNode(child, parentId, depth));
+      return;
+    }
+
+    const boundingBox = toPercentBox(node.absoluteBoundingBox);
+    if (!boundingBox) return;
+
+    const type = getComponentType(node);
+    const children = (node.children || []).filter(isVisible);
+    const cornerRadius = node.cornerRadius;
+
+    // A button's or field's text layers are its label
+    const labels = LABELLED_TYPES.includes(type) && children.length > 0 && children.every(child => child.type === 'TEXT')
+      ? children
+      : [];
+
+    const attributes: DetectedComponent['attributes'] = {
+      ...(node.type === 'TEXT' ? getTextAttributes(node) : {}),
+      ...(labels.length > 0 ? { ...getTextAttributes(labels[0]), text: labels.map(label => label.characters || '').join(' ') } : {}),
+      ...(node.type !== 'TEXT' && getPaintColor(node.fills) ? { backgroundColor: getPaintColor(node.fills) } : {}),
+      ...(getPaintColor(node.strokes) ? { borderColor: getPaintColor(node.strokes), borderWidth: node.strokeWeight || 1 } : {}),
+      ...(cornerRadius ? { borderRadius: cornerRadius } : {}),
+      name: node.name,
+      figmaId: node.id,
+      figmaType: node.type
+    };
+
+    const component: DetectedComponent = {
+      id: `figma-${node.id}`,
+      type,
+      confidence: 1,
+      boundingBox,
+      attributes,
+      ...(parentId ? { parentId } : {})
+    };
+    components.push(component);
+
+    // Vector layers inside icons aren't components, and nesting is capped like detection
+    if (labels.length > 0 || VECTOR_NODE_TYPES.includes(node.type) || type === 'icon' || depth >= MAX_COMPONENT_DEPTH) {
+      return;
+    }
+
+    children.forEach(child => addNode(child, component.id, depth + 1));
+  };
+
+  (root.children || []).forEach(child => addNode(child, undefined, 1));
+
+  return components;
+};
+
+// Load the images referenced by image fills; ones that fail are drawn as placeholders
+const loadImages = async (images: Record<string, string>): Promise<Record<string, HTMLImageElement>> => {
+  const loaded: Record<string, HTMLImageElement> = {};
+
+  await Promise.all(Object.entries(images).map(([imageRef, src]) => new Promise<void>(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      loaded[imageRef] = img;
+      resolve();
+    };
+    img.onerror = () => resolve();
+    img.src = src;
+  })));
+
+  return loaded;
+};
+
+const traceShape = (ctx: CanvasRenderingContext2D, node: FigmaNode, box: FigmaBox) => {
+  ctx.beginPath();
+
+  if (node.type === 'ELLIPSE') {
+    ctx.ellipse(box.x + box.width / 2, box.y + box.height / 2, box.width / 2, box.height / 2, 0, 0, Math.PI * 2);
+    return;
+  }
+
+  const radius = Math.min(node.cornerRadius || 0, box.width / 2, box.height / 2);
+  ctx.moveTo(box.x + radius, box.y);
+  ctx.arcTo(box.x + box.width, box.y, box.x + box.width, box.y + box.height, radius);
+  ctx.arcTo(box.x + box.width, box.y + box.height, box.x, box.y + box.height, radius);
+  ctx.arcTo(box.x, box.y + box.height, box.x, box.y, radius);
+  ctx.arcTo(box.x, box.y, box.x + box.width, box.y, radius);
+  ctx.closePath();
+};
+
+// Split text into lines that fit the box
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] =>
+  text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+
+    paragraph.split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+
+    return [...lines, line];
+  });
+
+const drawText = (ctx: CanvasRenderingContext2D, node: FigmaNode, box: FigmaBox) => {
+  const style = node.style || {};
+  const fontSize = style.fontSize || 16;
+  const lineHeight = fontSize * 1.2;
+
+  ctx.font = `${style.fontWeight || 400} ${fontSize}px ${style.fontFamily ? `"${style.fontFamily}", ` : ''}sans-serif`;
+  ctx.fillStyle = getPaintColor(node.fills) || '#000000';
+  ctx.textBaseline = 'top';
+
+  const align = style.textAlignHorizontal === 'CENTER' ? 'center' : style.textAlignHorizontal === 'RIGHT' ? 'right' : 'left';
+  ctx.textAlign = align;
+  const x = align === 'center' ? box.x + box.width / 2 : align === 'right' ? box.x + box.width : box.x;
+
+  const lines = wrapText(ctx, node.characters || '', box.width);
+  const textHeight = lines.length * lineHeight;
+  const top = style.textAlignVertical === 'CENTER'
+    ? box.y + (box.height - textHeight) / 2
+    : style.textAlignVertical === 'BOTTOM' ? box.y + box.height - textHeight : box.y;
+
+  lines.forEach((line, index) => {
+    ctx.fillText(line, x, top + index * lineHeight + (lineHeight - fontSize) / 2);
+  });
+};
+
+const drawNode = (
+  ctx: CanvasRenderingContext2D,
+  node: FigmaNode,
+  origin: { x: number, y: number },
+  images: Record<string, HTMLImageElement>
+) => {
+  if (!isVisible(node) || !node.absoluteBoundingBox) return;
+
+  const box = {
+    ...node.absoluteBoundingBox,
+    x: node.absoluteBoundingBox.x - origin.x,
+    y: node.absoluteBoundingBox.y - origin.y
+  };
+
+  ctx.save();
+  ctx.globalAlpha *= node.opacity ?? 1;
+
+  if (node.type === 'TEXT') {
+    drawText(ctx, node, box);
+  } else if (node.type !== 'GROUP') {
+    (node.fills || []).filter(paint => paint && paint.visible !== false).forEach(paint => {
+      traceShape(ctx, node, box);
+
+      if (paint.type === 'IMAGE') {
+        const img = images[paint.imageRef];
+        ctx.save();
+        ctx.clip();
+        if (img) {
+          ctx.drawImage(img, box.x, box.y, box.width, box.height);
+        } else {
+          ctx.fillStyle = '#e0e0e0';
+          ctx.fill();
+        }
+        ctx.restore();
+      } else {
+        const color = getPaintColor([paint]);
+        if (color) {
+          ctx.fillStyle = color;
+          ctx.fill();
+        }
+      }
+    });
+
+    const strokeColor = getPaintColor(node.strokes);
+    if (strokeColor) {
+      traceShape(ctx, node, box);
+      ctx.strokeStyle = strokeColor;
+      ctx.lineWidth = node.strokeWeight || 1;
+      ctx.stroke();
+    }
+  }
+
+  (node.children || []).forEach(child => drawNode(ctx, child, origin, images));
+  ctx.restore();
+};
+
+/**
+ * Render a Figma frame to an image
+ * @param root The frame
+ * @param images Image fills by imageRef, as data URLs or URLs
+ * @returns PNG data URL
+ */
+export const renderFigmaPreview = async (root: FigmaNode, images: Record<string, string> = {}): Promise<string> => {
+  const rootBox = root.absoluteBoundingBox;
+  if (!rootBox) {
+    throw new Error('The Figma frame has no size.');
+  }
+
+  const scale = Math.min(2, MAX_PREVIEW_SIZE / Math.max(rootBox.width, rootBox.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(rootBox.width * scale);
+  canvas.height = Math.round(rootBox.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not render the Figma frame.');
+  }
+
+  const loadedImages = await loadImages(images);
+
+  ctx.scale(scale, scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, rootBox.width, rootBox.height);
+  drawNode(ctx, root, { x: rootBox.x, y: rootBox.y }, loadedImages);
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Build a design from Figma JSON
+ * @param json A `GET /files/:key/nodes` or `GET /files/:key` response, a single node, or a Coterate Figma export
+ * @param link The Figma link the JSON came from, if any
+ * @returns Name, rendered image and components of the frame
+ */
+export const importFigmaDocument = async (json: any, link?: FigmaFileLink | null): Promise<FigmaImportResult> => {
+  const { node, images } = getRootNode(json, link?.nodeId);
+  const components = figmaNodesToComponents(node);
+  const image = await renderFigmaPreview(node, images);
+
+  console.log(`Imported Figma frame "${node.name}" with ${components.length} components`);
+
+  return {
+    name: node.name || 'Figma Design',
+    image,
+    components,
+    ...(link ? {
+      figmaData: {
+        fileKey: link.fileKey,
+        nodeId: link.nodeId || node.id,
+        detailedComponents: components.map(component => ({
+          figmaId: component.attributes.figmaId,
+          name: component.attributes.name,
+          type: component.attributes.figmaType
+        }))
+      }
+    } : {})
+  };
+};
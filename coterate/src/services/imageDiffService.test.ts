@@ -0,0 +1,169 @@
+import { DetectedComponent } from '../types';
+import { diffImages } from './imageDiffService';
+import { createComponent } from './testFixtures';
+
+type Color = [number, number, number];
+
+interface TestImage {
+  width: number;
+  height: number;
+  background: Color;
+  rects?: { x: number, y: number, width: number, height: number, color: Color }[]; // In image pixels
+}
+
+const WHITE: Color = [255, 255, 255];
+const BLACK: Color = [0, 0, 0];
+
+// Images by src; jsdom can't decode real ones
+const images: Record<string, TestImage> = {};
+
+const colorAt = (image: TestImage, x: number, y: number): Color => {
+  const rect = (image.rects || []).find(r => x >= r.x && x < r.x + r.width && y >= r.y && y < r.y + r.height);
+  return rect ? rect.color : image.background;
+};
+
+class TestImageElement {
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  crossOrigin = '';
+  naturalWidth = 0;
+  naturalHeight = 0;
+  image?: TestImage;
+
+  set src(value: string) {
+    this.image = images[value];
+    setTimeout(() => {
+      if (!this.image) {
+        this.onerror?.();
+        return;
+      }
+      this.naturalWidth = this.image.width;
+      this.naturalHeight = this.image.height;
+      this.onload?.();
+    });
+  }
+}
+
+// Just enough of a 2D context for diffImages: fills, scaled image draws and pixel access
+const createContext = (canvas: HTMLCanvasElement) => {
+  const pixels = new Uint8ClampedArray(canvas.width * canvas.height * 4);
+
+  const paint = (x: number, y: number, color: Color) => {
+    const offset = (y * canvas.width + x) * 4;
+    pixels[offset] = color[0];
+    pixels[offset + 1] = color[1];
+    pixels[offset + 2] = color[2];
+    pixels[offset + 3] = 255;
+  };
+
+  return {
+    fillStyle: 'black',
+    fillRect(x: number, y: number, width: number, height: number) {
+      const color = this.fillStyle === 'white' ? WHITE : BLACK;
+      for (let row = y; row < y + height; row++) {
+        for (let column = x; column < x + width; column++) paint(column, row, color);
+      }
+    },
+    drawImage({ image }: TestImageElement, dx: number, dy: number, dw: number, dh: number) {
+      if (!image) return;
+      for (let row = Math.round(dy); row < Math.round(dy + dh); row++) {
+        for (let column = Math.round(dx); column < Math.round(dx + dw); column++) {
+          const sourceX = Math.floor(((column - dx) / dw) * image.width);
+          const sourceY = Math.floor(((row - dy) / dh) * image.height);
+          paint(column, row, colorAt(image, sourceX, sourceY));
+        }
+      }
+    },
+    getImageData: () => ({ data: pixels }),
+    createImageData: (width: number, height: number) => ({ width, height, data: new Uint8ClampedArray(width * height * 4) }),
+    putImageData: jest.fn()
+  };
+};
+
+const component = (id: string, boundingBox: DetectedComponent['boundingBox']) => createComponent(id, { boundingBox });
+
+describe('diffImages', () => {
+  const originalImage = window.Image;
+
+  beforeAll(() => {
+    (window as any).Image = TestImageElement;
+
+    // Sizes that scale to the 1024px square exactly, so no pixel straddles an edge
+    images.plain = { width: 64, height: 64, background: WHITE };
+    images.faint = { width: 64, height: 64, background: [240, 240, 240] };
+    // A 16×8 block, 3.125% of the design
+    images.block = { width: 64, height: 64, background: WHITE, rects: [{ x: 8, y: 8, width: 16, height: 8, color: BLACK }] };
+    // Twice as wide as tall, with its left half dark
+    images.wide = { width: 128, height: 64, background: WHITE, rects: [{ x: 0, y: 0, width: 64, height: 64, color: BLACK }] };
+  });
+
+  // CRA resets mocks before each test, so the canvas is set up for each one
+  beforeEach(() => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+      return createContext(this) as any;
+    });
+    jest.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockImplementation(function (this: HTMLCanvasElement) {
+      return `data:image/png;base64,heatmap-${this.width}x${this.height}`;
+    });
+  });
+
+  afterAll(() => {
+    window.Image = originalImage;
+    jest.restoreAllMocks();
+  });
+
+  it('finds no changes between identical designs', async () => {
+    const result = await diffImages('plain', 'plain', [component('a', { x: 12.5, y: 12.5, width: 25, height: 12.5 })]);
+
+    expect(result.changedPercent).toBe(0);
+    expect(result.componentScores).toEqual([
+      { componentId: 'a', type: 'button', changedPercent: 0, meanDifference: 0 }
+    ]);
+    expect(result.heatmap).toBe('data:image/png;base64,heatmap-1024x1024');
+  });
+
+  it('ignores color differences below the noise threshold', async () => {
+    const result = await diffImages('plain', 'faint');
+
+    expect(result.changedPercent).toBe(0);
+  });
+
+  it('scores the changed area and ranks the most changed component first', async () => {
+    const result = await diffImages('plain', 'block', [
+      component('unchanged', { x: 50, y: 50, width: 20, height: 20 }),
+      component('changed', { x: 12.5, y: 12.5, width: 25, height: 12.5 })
+    ]);
+
+    expect(result.changedPercent).toBe(3.1);
+    expect(result.componentScores.map(score => [score.componentId, score.changedPercent])).toEqual([
+      ['changed', 100],
+      ['unchanged', 0]
+    ]);
+    expect(result.componentScores[0].meanDifference).toBe(100);
+  });
+
+  it('measures component boxes against the later design when the sizes differ', async () => {
+    const result = await diffImages('plain', 'wide', [
+      component('left', { x: 0, y: 0, width: 50, height: 100 }),
+      component('right', { x: 50, y: 0, width: 50, height: 100 })
+    ]);
+
+    // The heatmap covers only the wide design, not the padding around it
+    expect(result.heatmap).toBe('data:image/png;base64,heatmap-1024x512');
+    expect(result.changedPercent).toBe(50);
+    expect(result.componentScores.map(score => [score.componentId, score.changedPercent])).toEqual([
+      ['left', 100],
+      ['right', 0]
+    ]);
+  });
+
+  it('skips components without an area', async () => {
+    const result = await diffImages('plain', 'block', [component('empty', { x: 12.5, y: 12.5, width: 0, height: 12.5 })]);
+
+    expect(result.componentScores).toEqual([]);
+  });
+
+  it('rejects images that fail to load', async () => {
+    await expect(diffImages('plain', 'missing')).rejects.toThrow('Failed to load image for comparison');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Image Diff Service
+ * Compares two design images pixel by pixel and reports where they differ: a heatmap to
+ * lay over the newer design and a change score for each of its components. Both images
+ * are normalised to the same 1024×1024 square used for image generation, so designs of
+ * different sizes line up.
+ */
+
+import { DetectedComponent } from '../types';
+import { fitWithinSquare } from './aiService';
+
+export interface ComponentChangeScore {
+  componentId: string;
+  type: string;
+  text?: string;
+  changedPercent: number; // Share of the component's pixels that changed, 0-100
+  meanDifference: number; // Average color difference inside the component, 0-100
+}
+
+export interface ImageDiffResult {
+  heatmap: string; // PNG data URL with the newer design's size and aspect ratio
+  changedPercent: number; // Share of the whole design that changed, 0-100
+  componentScores: ComponentChangeScore[]; // Most changed first
+}
+
+// Side of the square both images are drawn into, as in resizeImageToSupportedDimensions
+const DIFF_SIZE = 1024;
+
+// Color differences below this (0-1) are compression noise, not changes
+const CHANGE_THRESHOLD = 0.1;
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load image for comparison'));
+  img.src = src;
+});
+
+// Draw an image centered in the diff square on white, like the images sent for generation
+const drawNormalized = (img: HTMLImageElement) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = DIFF_SIZE;
+  canvas.height = DIFF_SIZE;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const fit = fitWithinSquare(img.naturalWidth, img.naturalHeight, DIFF_SIZE);
+
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, DIFF_SIZE, DIFF_SIZE);
+  ctx.drawImage(img, fit.offsetX, fit.offsetY, fit.drawWidth, fit.drawHeight);
+
+  return { pixels: ctx.getImageData(0, 0, DIFF_SIZE, DIFF_SIZE).data, fit };
+};
+
+/**
+ * Compare two design images
+ * @param beforeImage The earlier design, e.g. the base an iteration was improved from
+ * @param afterImage The later design
+ * @param afterComponents Components of the later design, to score individually
+ * @returns Heatmap and change scores
+ */
+export const diffImages = async (
+  beforeImage: string,
+  afterImage: string,
+  afterComponents: DetectedComponent[] = []
+): Promise<ImageDiffResult> => {
+  const [beforeImg, afterImg] = await Promise.all([loadImage(beforeImage), loadImage(afterImage)]);
+  const before = drawNormalized(beforeImg);
+  const after = drawNormalized(afterImg);
+
+  // Difference per pixel of the square, as the largest channel difference (0-1)
+  const differences = new Float32Array(DIFF_SIZE * DIFF_SIZE);
+  for (let i = 0; i < differences.length; i++) {
+    const offset = i * 4;
+    differences[i] = Math.max(
+      Math.abs(before.pixels[offset] - after.pixels[offset]),
+      Math.abs(before.pixels[offset + 1] - after.pixels[offset + 1]),
+      Math.abs(before.pixels[offset + 2] - after.pixels[offset + 2])
+    ) / 255;
+  }
+
+  // Only the area covered by the later design counts; the rest of the square is padding
+  const region = {
+    x: Math.round(after.fit.offsetX),
+    y: Math.round(after.fit.offsetY),
+    width: Math.max(1, Math.round(after.fit.drawWidth)),
+    height: Math.max(1, Math.round(after.fit.drawHeight))
+  };
+
+  // Score a rectangle of the square
+  const scoreArea = (x: number, y: number, width: number, height: number) => {
+    let changed = 0;
+    let total = 0;
+    let sum = 0;
+
+    for (let row = y; row < y + height; row++) {
+      for (let column = x; column < x + width; column++) {
+        const difference = differences[row * DIFF_SIZE + column];
+        sum += difference;
+        total++;
+        if (difference > CHANGE_THRESHOLD) changed++;
+      }
+    }
+
+    return {
+      changedPercent: total > 0 ? round((changed / total) * 100) : 0,
+      meanDifference: total > 0 ? round((sum / total) * 100) : 0
+    };
+  };
+
+  // Heatmap over the later design: yellow for small changes, red for large ones
+  const heatmapCanvas = document.createElement('canvas');
+  heatmapCanvas.width = region.width;
+  heatmapCanvas.height = region.height;
+  const heatmapCtx = heatmapCanvas.getContext('2d');
+  if (!heatmapCtx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  const heatmap = heatmapCtx.createImageData(region.width, region.height);
+  for (let row = 0; row < region.height; row++) {
+    for (let column = 0; column < region.width; column++) {
+      const difference = differences[(region.y + row) * DIFF_SIZE + region.x + column];
+      if (difference <= CHANGE_THRESHOLD) continue;
+
+      const offset = (row * region.width + column) * 4;
+      heatmap.data[offset] = 255;
+      heatmap.data[offset + 1] = Math.round(220 * (1 - difference));
+      heatmap.data[offset + 2] = 0;
+      heatmap.data[offset + 3] = Math.round(80 + 150 * difference);
+    }
+  }
+  heatmapCtx.putImageData(heatmap, 0, 0);
+
+  // Component boxes are percentages of the later design
+  const componentScores = afterComponents
+    .filter(component => component.boundingBox && component.boundingBox.width > 0 && component.boundingBox.height > 0)
+    .map(component => {
+      const box = component.boundingBox;
+      const x = Math.min(DIFF_SIZE - 1, Math.max(0, Math.round(region.x + (box.x / 100) * region.width)));
+      const y = Math.min(DIFF_SIZE - 1, Math.max(0, Math.round(region.y + (box.y / 100) * region.height)));
+      const width = Math.max(1, Math.min(DIFF_SIZE - x, Math.round((box.width / 100) * region.width)));
+      const height = Math.max(1, Math.min(DIFF_SIZE - y, Math.round((box.height / 100) * region.height)));
+
+      return {
+        componentId: component.id,
+        type: component.type,
+        ...(component.attributes?.text ? { text: component.attributes.text } : {}),
+        ...scoreArea(x, y, width, height)
+      };
+    })
+    .sort((a, b) => b.changedPercent - a.changedPercent);
+
+  return {
+    heatmap: heatmapCanvas.toDataURL('image/png'),
+    changedPercent: scoreArea(region.x, region.y, region.width, region.height).changedPercent,
+    componentScores
+  };
+};
@@ -0,0 +1,79 @@
+import * as visionProviders from './visionProviders';
+import { detectComponentsWithOpenAI, analyzeComponents, ComponentAnalysisError } from './aiComponentService';
+import { generateImprovement } from './improvementService';
+import detectFixture from '../fixtures/mock-ai/detect-components.json';
+import analyzeFixture from '../fixtures/mock-ai/analyze-components.json';
+import improveUIFixture from '../fixtures/mock-ai/improve-ui.json';
+import improvedDesignFixture from '../fixtures/mock-ai/improved-design.json';
+
+type FixtureComponent = { type: string, children?: FixtureComponent[] };
+
+// Detection returns nested components flattened, parents before their children
+const flattenTypes = (components: FixtureComponent[]): string[] =>
+  components.flatMap(component => [component.type, ...flattenTypes(component.children || [])]);
+
+// Stands in for a pasted screenshot; mock mode never looks at the pixels
+const PASTED_IMAGE = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+describe('paste → detect → improve in mock mode', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    visionProviders.setVisionProvider({ provider: 'mock' });
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('detects the recorded components', async () => {
+    const components = await detectComponentsWithOpenAI(PASTED_IMAGE);
+
+    expect(components.map(component => component.type)).toEqual(flattenTypes(detectFixture.components));
+  });
+
+  it('improves a design without network or API keys', async () => {
+    const result = await generateImprovement(PASTED_IMAGE);
+
+    expect(result.image).toBe(improvedDesignFixture.image);
+    expect(result.components).toHaveLength(flattenTypes(detectFixture.components).length);
+    expect(result.analysis.summary).toBe(improveUIFixture.analysis.summary);
+    expect(result.analysis.issues.map(issue => issue.title)).toEqual(
+      expect.arrayContaining(analyzeFixture.improvements.map(improvement => improvement.title))
+    );
+
+    // Issues point at the new design's components
+    const componentIds = new Set(result.components.map(component => component.id));
+    result.analysis.issues
+      .flatMap(issue => issue.componentIds)
+      .forEach(id => expect(componentIds.has(id)).toBe(true));
+  });
+
+  it('passes the cancel signal to every model request and reports each step once', async () => {
+    const mock = visionProviders.createMockProvider();
+    const complete = jest.fn(mock.complete);
+    const getVisionProvider = jest.spyOn(visionProviders, 'getVisionProvider').mockReturnValue({ ...mock, complete });
+    const controller = new AbortController();
+    const onStep = jest.fn();
+
+    await generateImprovement(PASTED_IMAGE, { progress: { signal: controller.signal, onStep } });
+
+    expect(complete.mock.calls.map(([request]) => request.signal)).toEqual([controller.signal, controller.signal]);
+    expect(onStep.mock.calls.map(([step]) => step)).toEqual(['detect', 'analyze', 'generate', 'render']);
+
+    getVisionProvider.mockRestore();
+  });
+
+  it('fails instead of inventing suggestions when the analysis is unusable', async () => {
+    const components = await detectComponentsWithOpenAI(PASTED_IMAGE);
+    jest.spyOn(visionProviders, 'getVisionProvider').mockReturnValue({
+      id: 'mock',
+      name: 'Broken mock',
+      model: 'fixtures',
+      complete: async () => 'Sorry, I cannot help with that.'
+    });
+
+    await expect(analyzeComponents(components, PASTED_IMAGE)).rejects.toBeInstanceOf(ComponentAnalysisError);
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Improvement Service
+ * Generates improved versions of a design: component analysis and improvements from the
+ * vision provider, then a new image from the improve-ui route. Variants run the same
+ * pipeline several times in parallel, each in a different direction, so the user can
+ * compare alternatives side by side and star the one they prefer. Region improvements
+ * work on the area around a few components and leave the rest of the design untouched.
+ * Refinements apply a follow-up instruction from a design's conversation thread.
+ * Every AI step goes through the AI cache, so running the same request on the same image
+ * again is answered from it unless a refresh is forced.
+ */
+
+import { DesignAnalysis, DesignIteration, DesignTokenSet, DetectedComponent, ImprovementDirection } from '../types';
+import * as aiComponentService from './aiComponentService';
+import { ImprovementProgress, ImprovementCancelledError } from './aiComponentService';
+import { aiApiClient } from './aiApiClient';
+import { withAICache } from './aiCache';
+import { cloneComponents } from './componentTreeService';
+import {
+  normalizeDesignAnalysis,
+  parseDesignAnalysis,
+  remapAnalysisComponents,
+  describeDesignAnalysis
+} from './designAnalysisService';
+import { withDesignSystemConstraints } from './designSystemService';
+import {
+  expandRegionSelection,
+  getRegionBounds,
+  toRegionBox,
+  fromRegionBox,
+  cropImageRegion,
+  letterboxImage,
+  compositeImageRegion
+} from './regionService';
+
+export interface ImprovementDirectionOption {
+  id: ImprovementDirection;
+  label: string;
+  prompt: string; // Guidance given to the analysis and the image generation
+}
+
+export const IMPROVEMENT_DIRECTIONS: ImprovementDirectionOption[] = [
+  {
+    id: 'minimal',
+    label: 'Minimal',
+    prompt: 'Minimal: remove visual noise, reduce the number of colors and font sizes, and rely on whitespace for structure.'
+  },
+  {
+    id: 'bold',
+    label: 'Bold',
+    prompt: 'Bold: strong contrast, larger headings, saturated accent colors and prominent calls to action.'
+  },
+  {
+    id: 'accessible',
+    label: 'Accessible-first',
+    prompt: 'Accessible-first: WCAG AA contrast everywhere, text of at least 16px, targets of at least 44px and clear focus and error states.'
+  },
+  {
+    id: 'compact',
+    label: 'Compact',
+    prompt: 'Compact: denser layout with tighter spacing and smaller controls so more content fits without losing readability.'
+  }
+];
+
+// Pipeline steps as shown on a background job's placeholder card
+export const IMPROVEMENT_JOB_STEPS: { id: aiComponentService.ImprovementStep, label: string }[] = [
+  { id: 'detect', label: 'Detect components' },
+  { id: 'analyze', label: 'Analyze design' },
+  { id: 'generate', label: 'Generate improved styles' },
+  { id: 'render', label: 'Render new design' }
+];
+
+// Stability's image-to-image only takes certain sizes, so regions are sent as squares of this size
+const REGION_GENERATION_SIZE = 1024;
+
+// Most earlier requests from a thread included in a refinement prompt
+const MAX_THREAD_HISTORY = 6;
+
+// How many variants a run generates unless the caller picks the directions
+export const DEFAULT_VARIANT_DIRECTIONS: ImprovementDirection[] = ['minimal', 'bold', 'accessible'];
+
+export interface ImprovementOptions {
+  editedComponents?: DetectedComponent[]; // Components the user has reviewed; detection is skipped when given
+  designTokens?: DesignTokenSet; // Locked tokens the improvement must stay on
+  direction?: ImprovementDirection;
+  instructions?: string; // What the user asked for, taking priority over general improvements
+  progress?: ImprovementProgress; // Step callback and cancellation, e.g. for a background job
+  forceRefresh?: boolean; // Ask the AI again instead of reusing cached results
+}
+
+export interface ImprovementResult {
+  image: string;
+  analysis: DesignAnalysis;
+  components: DetectedComponent[]; // The parent's components with the improvements applied, under new ids
+}
+
+export interface VariantResult {
+  direction: ImprovementDirection;
+  result?: ImprovementResult;
+  error?: unknown;
+}
+
+/**
+ * Get the option for a direction
+ * @param direction Direction id
+ * @returns Label and prompt, if the direction is known
+ */
+export const getImprovementDirection = (direction: ImprovementDirection): ImprovementDirectionOption | undefined =>
+  IMPROVEMENT_DIRECTIONS.find(option => option.id === direction);
+
+// What the improve-ui route returns
+interface ImprovedDesign {
+  image: string;
+  analysis?: unknown;
+  degraded?: boolean;
+}
+
+// Cached designs are only used if they hold an image and an analysis that can be read
+const isImprovedDesign = (value: unknown): value is ImprovedDesign => {
+  const design = value as ImprovedDesign | null;
+  return typeof design?.image === 'string' &&
+    design.image.startsWith('data:image/') &&
+    (design.analysis === undefined || normalizeDesignAnalysis(design.analysis) !== null);
+};
+
+// Run the improvement pipeline on an image. Components keep the ids they were passed in
+// with, and the analysis refers to those ids. With an init image, the new image is generated
+// from it rather than from the analysis alone.
+const requestImprovement = async (
+  imageBase64: string,
+  options: ImprovementOptions,
+  initImage?: string
+): Promise<ImprovementResult> => {
+  const direction = options.direction ? getImprovementDirection(options.direction) : undefined;
+  const guidance = [options.instructions, direction?.prompt].filter(Boolean).join('\n\n') || undefined;
+
+  // 1. Component extraction using the configured vision provider
+  // 2. Component analysis and improvement suggestions
+  // 3. Applying improvements with design consistency
+  const componentResult = await aiComponentService.improveUIWithComponents(imageBase64, {
+    editedComponents: options.editedComponents,
+    designTokens: options.designTokens,
+    direction: guidance,
+    progress: options.progress,
+    forceRefresh: options.forceRefresh
+  });
+
+  console.log('Component-based UI improvement complete:', componentResult);
+
+  // The new design's image is rendered on the server
+  if (options.progress?.signal?.aborted) {
+    throw new ImprovementCancelledError();
+  }
+  options.progress?.onStep?.('render');
+
+  // Call the serverless API to get an OpenAI analysis and Stability AI image
+  const analysisPrompt = describeDesignAnalysis(componentResult.analysis);
+  const customPrompt = withDesignSystemConstraints(guidance ? `${guidance}\n\n${analysisPrompt}` : analysisPrompt);
+  const model = initImage ? 'api/improve-ui/image-to-image' : 'api/improve-ui';
+  const improved = await withAICache({ task: 'improve-ui', imageBase64, prompt: customPrompt || '', model }, async () => {
+    const response = await aiApiClient.post('/api/improve-ui', { imageBase64, customPrompt, initImage }, {
+      signal: options.progress?.signal
+    });
+
+    // Check if response data contains the expected fields
+    if (!response.data || !response.data.image) {
+      console.warn('API response missing required data:', response);
+      throw new Error('API response is missing required image data');
+    }
+
+    return response.data as ImprovedDesign;
+  }, {
+    forceRefresh: options.forceRefresh,
+    isValid: isImprovedDesign,
+    // A fallback (e.g. the original image back) would otherwise be replayed on every retry
+    shouldCache: value => !value.degraded
+  });
+
+  // Design-wide issues from the whole-image review follow the component issues
+  const imageAnalysis = normalizeDesignAnalysis(improved.analysis);
+
+  return {
+    image: improved.image,
+    analysis: {
+      ...componentResult.analysis,
+      summary: imageAnalysis?.summary || componentResult.analysis.summary,
+      issues: [
+        ...componentResult.analysis.issues,
+        ...(imageAnalysis?.issues || []).map((issue, index) => ({ ...issue, id: `design-issue-${index}`, componentIds: [] }))
+      ]
+    },
+    components: componentResult.components
+  };
+};
+
+// Give the components of a new design their own ids, and point the analysis at them
+const withNewComponentIds = (result: ImprovementResult, idPrefix: string): ImprovementResult => {
+  const components = cloneComponents(result.components, idPrefix);
+  const idMap: Record<string, string> = {};
+  result.components.forEach((component, index) => {
+    idMap[component.id] = components[index].id;
+  });
+
+  return { ...result, components, analysis: remapAnalysisComponents(result.analysis, idMap) };
+};
+
+/**
+ * Generate one improved version of a design
+ * @param imageBase64 Base64 encoded design, without the data URL prefix
+ * @param options Components, tokens and direction to improve with
+ * @returns The new image, its analysis and its components
+ */
+export const generateImprovement = async (
+  imageBase64: string,
+  options: ImprovementOptions = {}
+): Promise<ImprovementResult> => {
+  const result = await requestImprovement(imageBase64, options);
+  return withNewComponentIds(result, `comp-${Date.now()}${options.direction ? `-${options.direction}` : ''}`);
+};
+
+/**
+ * Improve only part of a design
+ * The region around the picked components is cropped out and improved on its own with just
+ * those components. The new region is generated from the cropped pixels, then pasted back,
+ * so the rest of the design stays pixel-identical.
+ * @param image Design image URL or data URL
+ * @param components All of the design's components
+ * @param componentIds Picked components; the ones nested inside them are included
+ * @param options Tokens and direction to improve with
+ * @returns The composited design, the analysis of the region and all of the design's components
+ */
+export const generateRegionImprovement = async (
+  image: string,
+  components: DetectedComponent[],
+  componentIds: string[],
+  options: Omit<ImprovementOptions, 'editedComponents'> = {}
+): Promise<ImprovementResult> => {
+  const regionIds = new Set(expandRegionSelection(componentIds, components));
+  const regionComponents = components.filter(component => regionIds.has(component.id));
+  const region = getRegionBounds(regionComponents);
+
+  if (!region) {
+    throw new Error('Select at least one component to improve');
+  }
+
+  // The region's components are measured against the cropped image while it is improved
+  const regionImage = await cropImageRegion(image, region);
+  const initImage = await letterboxImage(regionImage, REGION_GENERATION_SIZE);
+  const result = await requestImprovement(regionImage.split(',')[1], {
+    ...options,
+    editedComponents: regionComponents.map(component => ({ ...component, boundingBox: toRegionBox(component.boundingBox, region) }))
+  }, initImage.split(',')[1]);
+
+  const improvedById = new Map(result.components.map(component => [component.id, component]));
+  const mergedComponents = components.map(component => {
+    const improved = improvedById.get(component.id);
+    return improved ? { ...improved, boundingBox: fromRegionBox(improved.boundingBox, region) } : component;
+  });
+
+  const compositeImage = await compositeImageRegion(image, region, result.image);
+
+  return withNewComponentIds({ ...result, image: compositeImage, components: mergedComponents }, `comp-${Date.now()}-region`);
+};
+
+// The instruction for a refinement, with the conversation and the previous round's changes as context
+const describeRefinementRequest = (iteration: DesignIteration, instruction: string): string => {
+  const earlierRequests = (iteration.thread || [])
+    .filter(message => message.role === 'user')
+    .slice(-MAX_THREAD_HISTORY)
+    .map(message => `- ${message.content}`);
+  const analysis = parseDesignAnalysis(iteration.analysis);
+  const previousChanges = analysis ? describeDesignAnalysis(analysis) : '';
+
+  return [
+    `User request: ${instruction}`,
+    'Apply only this request and keep everything else as it is. Requests to revert refer to the values before the changes listed below.',
+    earlierRequests.length > 0 && `Earlier requests in this conversation:\n${earlierRequests.join('\n')}`,
+    previousChanges && `Changes made in the previous round:\n${previousChanges}`
+  ].filter(Boolean).join('\n\n');
+};
+
+/**
+ * Refine a design with a follow-up instruction from its thread
+ * The design's components are improved in place rather than detected again, so the
+ * instruction can refer to what the previous rounds changed.
+ * @param iteration The design to refine
+ * @param instruction The user's follow-up, e.g. "make the CTA bigger"
+ * @param options Tokens to stay on, and progress for a background job
+ * @returns The refined image, its analysis and its components
+ */
+export const generateRefinement = async (
+  iteration: DesignIteration,
+  instruction: string,
+  options: Pick<ImprovementOptions, 'designTokens' | 'progress'> = {}
+): Promise<ImprovementResult> => {
+  const imageBase64 = iteration.image.split(',')[1] || iteration.image;
+  const editedComponents = (iteration.components || []).filter(component =>
+    component.boundingBox && component.boundingBox.width > 0 && component.boundingBox.height > 0
+  );
+
+  return generateImprovement(imageBase64, {
+    ...options,
+    editedComponents,
+    instructions: describeRefinementRequest(iteration, instruction)
+  });
+};
+
+/**
+ * Generate several improved versions of a design in parallel, one per direction
+ * @param imageBase64 Base64 encoded design, without the data URL prefix
+ * @param directions Directions to explore
+ * @param options Components, tokens, force refresh and progress shared by all variants
+ * @returns One result per direction, in order; failed variants carry their error instead
+ */
+export const generateVariants = async (
+  imageBase64: string,
+  directions: ImprovementDirection[] = DEFAULT_VARIANT_DIRECTIONS,
+  options: Omit<ImprovementOptions, 'direction'> = {}
+): Promise<VariantResult[]> => {
+  const { progress } = options;
+
+  // Detect once up front so the variants don't each run detection on the same image
+  let editedComponents = options.editedComponents;
+  if (!editedComponents || editedComponents.length === 0) {
+    progress?.onStep?.('detect');
+    editedComponents = await aiComponentService.detectComponentsWithOpenAI(imageBase64, {
+      forceRefresh: options.forceRefresh,
+      signal: progress?.signal
+    });
+  }
+
+  // Report a step once every variant has started it, so the slowest variant sets the progress
+  const stepOrder = IMPROVEMENT_JOB_STEPS.map(step => step.id);
+  const reached = directions.map(() => -1);
+  let reported = -1;
+  const onVariantStep = (index: number) => (step: aiComponentService.ImprovementStep) => {
+    reached[index] = Math.max(reached[index], stepOrder.indexOf(step));
+    const slowest = Math.min(...reached);
+    if (slowest > reported) {
+      reported = slowest;
+      progress?.onStep?.(stepOrder[slowest]);
+    }
+  };
+
+  const results = await Promise.allSettled(
+    directions.map((direction, index) => generateImprovement(imageBase64, {
+      ...options,
+      editedComponents,
+      direction,
+      progress: progress && { signal: progress.signal, onStep: onVariantStep(index) }
+    }))
+  );
+
+  return results.map((result, index) => result.status === 'fulfilled'
+    ? { direction: directions[index], result: result.value }
+    : { direction: directions[index], error: result.reason });
+};
@@ -3,4 +3,24 @@ export * from './supabaseService';
 export * from './aiService';
 export * from './aiComponentService';
 export * from './htmlToImageService';
-export * from './databaseService'; 
\ No newline at end of file
+export * from './databaseService';
+export * from './lineageService';
+export * from './componentTreeService';
+export * from './codeExportService';
+export * from './figmaExportService';
+export * from './figmaImportService';
+export * from './svgExportService';
+export * from './componentMatching';
+export * from './imageDiffService';
+export * from './designAnalysisService';
+export * from './accessibilityAudit';
+export * from './designTokenService';
+export * from './tokenExportService';
+export * from './designSystemService';
+export * from './improvementService';
+export * from './regionService';
+export * from './jobQueue';
+export * from './visionProviders';
+export * from './aiApiClient';
+export * from './aiCache';
+export * from './componentSchema';
@@ -0,0 +1,209 @@
+/**
+ * Job Queue
+ * Runs long AI pipelines in the background so the canvas stays usable. Each job has
+ * steps with their own status, overall progress and can be cancelled; a few jobs run
+ * at once, across pages, and the rest wait their turn. Components follow the queue
+ * through subscribeToJobs (see useJobQueue).
+ */
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobStepStatus = 'pending' | 'running' | 'done';
+
+export interface JobStep {
+  id: string;
+  label: string;
+  status: JobStepStatus;
+}
+
+export interface Job {
+  id: string;
+  pageId: string;
+  label: string;
+  status: JobStatus;
+  steps: JobStep[];
+  progress: number; // 0-100
+  error?: string;
+  parentIterationId?: string; // Design the job works from
+  position?: { x: number, y: number }; // Where the placeholder card goes on the canvas
+  outputCount: number; // Designs the job adds when it succeeds
+  createdAt: number;
+}
+
+// What a running job's work gets to report progress and notice cancellation
+export interface JobContext {
+  signal: AbortSignal;
+  startStep: (stepId: string) => void;
+}
+
+export interface JobOptions {
+  pageId: string;
+  label: string;
+  steps: { id: string, label: string }[];
+  parentIterationId?: string;
+  position?: { x: number, y: number };
+  outputCount?: number; // Defaults to one design
+}
+
+// Jobs running at the same time; AI routes are rate limited, so more would only wait on them
+const MAX_CONCURRENT_JOBS = 3;
+
+type JobListener = (jobs: Job[]) => void;
+
+let jobs: Job[] = [];
+const listeners = new Set<JobListener>();
+const controllers = new Map<string, AbortController>();
+const pending: (() => Promise<void>)[] = [];
+let runningCount = 0;
+
+const notify = () => {
+  listeners.forEach(listener => listener(jobs));
+};
+
+const updateJob = (id: string, update: (job: Job) => Job) => {
+  jobs = jobs.map(job => job.id === id ? update(job) : job);
+  notify();
+};
+
+// Steps count evenly; the running one counts as half done
+const getProgress = (steps: JobStep[]): number => {
+  if (steps.length === 0) return 0;
+  const done = steps.reduce((sum, step) => sum + (step.status === 'done' ? 1 : step.status === 'running' ? 0.5 : 0), 0);
+  return Math.round((done / steps.length) * 100);
+};
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// Free a finished job's slot and start the next waiting job in it
+const onJobSettled = () => {
+  runningCount--;
+  runNext();
+};
+
+// Start waiting jobs while there's room
+const runNext = () => {
+  while (runningCount < MAX_CONCURRENT_JOBS && pending.length > 0) {
+    const run = pending.shift()!;
+    runningCount++;
+    run().finally(onJobSettled);
+  }
+};
+
+/**
+ * Get the jobs in the queue
+ * @returns All jobs, oldest first, until they're dismissed
+ */
+export const getJobs = (): Job[] => jobs;
+
+/**
+ * Follow changes to the queue
+ * @param listener Called with all jobs after every change
+ * @returns Function that stops following
+ */
+export const subscribeToJobs = (listener: JobListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Queue a job
+ * Starting a step marks the steps before it done. Work that throws fails the job, unless
+ * the job was cancelled first.
+ * @param options Page, label, steps and placeholder position
+ * @param work The job's work; it reports steps and should stop when the signal aborts
+ * @returns The job's id and a promise of the work's result, or undefined if it failed or was cancelled
+ */
+export const enqueueJob = <T>(
+  options: JobOptions,
+  work: (context: JobContext) => Promise<T>
+): { id: string, result: Promise<T | undefined> } => {
+  const id = `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  jobs = [...jobs, {
+    id,
+    pageId: options.pageId,
+    label: options.label,
+    status: 'queued',
+    steps: options.steps.map(step => ({ ...step, status: 'pending' })),
+    progress: 0,
+    parentIterationId: options.parentIterationId,
+    position: options.position,
+    outputCount: options.outputCount ?? 1,
+    createdAt: Date.now()
+  }];
+  notify();
+
+  const startStep = (stepId: string) => {
+    updateJob(id, job => {
+      const index = job.steps.findIndex(step => step.id === stepId);
+      if (index === -1) return job;
+
+      const steps = job.steps.map((step, stepIndex): JobStep =>
+        stepIndex < index ? { ...step, status: 'done' } : stepIndex === index ? { ...step, status: 'running' } : step
+      );
+      return { ...job, steps, progress: getProgress(steps) };
+    });
+  };
+
+  const result = new Promise<T | undefined>(resolve => {
+    pending.push(async () => {
+      // Cancelled while waiting
+      if (controller.signal.aborted) {
+        resolve(undefined);
+        return;
+      }
+
+      updateJob(id, job => ({ ...job, status: 'running' }));
+
+      try {
+        const value = await work({ signal: controller.signal, startStep });
+
+        if (controller.signal.aborted) {
+          resolve(undefined);
+          return;
+        }
+
+        updateJob(id, job => {
+          const steps = job.steps.map((step): JobStep => ({ ...step, status: 'done' }));
+          return { ...job, status: 'succeeded', steps, progress: 100 };
+        });
+        resolve(value);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error(`Job "${options.label}" failed:`, error);
+          updateJob(id, job => ({ ...job, status: 'failed', error: getErrorMessage(error) }));
+        }
+        resolve(undefined);
+      } finally {
+        controllers.delete(id);
+      }
+    });
+  });
+
+  runNext();
+
+  return { id, result };
+};
+
+/**
+ * Cancel a queued or running job
+ * @param id Job id
+ */
+export const cancelJob = (id: string) => {
+  controllers.get(id)?.abort();
+  updateJob(id, job => job.status === 'queued' || job.status === 'running' ? { ...job, status: 'cancelled' } : job);
+};
+
+/**
+ * Remove a finished job from the queue
+ * @param id Job id
+ */
+export const dismissJob = (id: string) => {
+  jobs = jobs.filter(job => job.id !== id || job.status === 'queued' || job.status === 'running');
+  notify();
+};
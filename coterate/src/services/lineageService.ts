@@ -0,0 +1,48 @@
+/**
+ * Iteration Lineage Service
+ * Helpers for working with the parent/child links between design iterations
+ */
+
+import { DesignIteration } from '../types';
+
+// A node in the lineage tree of a page
+export interface LineageNode {
+  iteration: DesignIteration;
+  children: LineageNode[];
+  depth: number;
+}
+
+/**
+ * Build the branching lineage tree for a page's iterations
+ * @param iterations All iterations of a page
+ * @returns Root nodes (iterations without a parent on the page), with their descendants
+ */
+export const buildLineageTree = (iterations: DesignIteration[]): LineageNode[] => {
+  const ids = new Set(iterations.map(iteration => iteration.id));
+  const childrenByParent: Record<string, DesignIteration[]> = {};
+  const roots: DesignIteration[] = [];
+  
+  iterations.forEach(iteration => {
+    // Iterations whose parent was deleted are treated as roots
+    if (iteration.parentId && ids.has(iteration.parentId)) {
+      childrenByParent[iteration.parentId] = [...(childrenByParent[iteration.parentId] || []), iteration];
+    } else {
+      roots.push(iteration);
+    }
+  });
+  
+  const toNode = (iteration: DesignIteration, depth: number, visited: Set<string>): LineageNode => {
+    visited.add(iteration.id);
+    
+    return {
+      iteration,
+      depth,
+      children: (childrenByParent[iteration.id] || [])
+        .filter(child => !visited.has(child.id))
+        .map(child => toNode(child, depth + 1, visited))
+    };
+  };
+  
+  const visited = new Set<string>();
+  return roots.map(root => toNode(root, 0, visited));
+};
@@ -0,0 +1,190 @@
+/**
+ * Region Service
+ * Helpers for improving part of a design: the region around a set of components, moving
+ * boxes between the full design and the region, cropping the region out of the image and
+ * compositing an improved region back so everything outside it stays pixel-identical.
+ */
+
+import { DetectedComponent } from '../types';
+import { getDescendantIds } from './componentTreeService';
+
+type BoundingBox = DetectedComponent['boundingBox'];
+
+// Margin added around the picked components, in percent of the design, so the model sees their edges
+const REGION_PADDING = 2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load image for region editing'));
+  img.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  return { canvas, ctx };
+};
+
+/**
+ * Pick the components a region covers
+ * @param region Box in percent of the design, e.g. a marquee selection
+ * @param components Flat list of the design's components
+ * @returns Ids of the components lying entirely inside the region
+ */
+export const getComponentsInRegion = (region: BoundingBox, components: DetectedComponent[]): string[] =>
+  components
+    .filter(component =>
+      component.boundingBox.x >= region.x &&
+      component.boundingBox.y >= region.y &&
+      component.boundingBox.x + component.boundingBox.width <= region.x + region.width &&
+      component.boundingBox.y + component.boundingBox.height <= region.y + region.height
+    )
+    .map(component => component.id);
+
+/**
+ * Add the components nested inside picked ones, which change along with them
+ * @param componentIds Picked component ids
+ * @param components Flat list of the design's components
+ * @returns The picked ids and their descendants
+ */
+export const expandRegionSelection = (componentIds: string[], components: DetectedComponent[]): string[] =>
+  Array.from(new Set(componentIds.flatMap(id => [id, ...getDescendantIds(id, components)])));
+
+/**
+ * The region to improve for a set of components
+ * @param components The picked components
+ * @returns Their combined box with some padding, within the design; null if there are none
+ */
+export const getRegionBounds = (components: DetectedComponent[]): BoundingBox | null => {
+  if (components.length === 0) return null;
+
+  const left = Math.min(...components.map(component => component.boundingBox.x));
+  const top = Math.min(...components.map(component => component.boundingBox.y));
+  const right = Math.max(...components.map(component => component.boundingBox.x + component.boundingBox.width));
+  const bottom = Math.max(...components.map(component => component.boundingBox.y + component.boundingBox.height));
+
+  const x = clamp(left - REGION_PADDING, 0, 100);
+  const y = clamp(top - REGION_PADDING, 0, 100);
+
+  return {
+    x,
+    y,
+    width: clamp(right + REGION_PADDING, 0, 100) - x,
+    height: clamp(bottom + REGION_PADDING, 0, 100) - y
+  };
+};
+
+/**
+ * Express a box of the full design in percent of a region
+ * @param box Box in percent of the design
+ * @param region The region, in percent of the design
+ * @returns Box in percent of the region
+ */
+export const toRegionBox = (box: BoundingBox, region: BoundingBox): BoundingBox => ({
+  x: ((box.x - region.x) / region.width) * 100,
+  y: ((box.y - region.y) / region.height) * 100,
+  width: (box.width / region.width) * 100,
+  height: (box.height / region.height) * 100
+});
+
+/**
+ * Express a box of a region in percent of the full design
+ * @param box Box in percent of the region
+ * @param region The region, in percent of the design
+ * @returns Box in percent of the design
+ */
+export const fromRegionBox = (box: BoundingBox, region: BoundingBox): BoundingBox => ({
+  x: region.x + (box.x / 100) * region.width,
+  y: region.y + (box.y / 100) * region.height,
+  width: (box.width / 100) * region.width,
+  height: (box.height / 100) * region.height
+});
+
+// The region in whole image pixels
+const toPixelRect = (region: BoundingBox, img: HTMLImageElement) => {
+  const x = Math.round((region.x / 100) * img.naturalWidth);
+  const y = Math.round((region.y / 100) * img.naturalHeight);
+
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.round(((region.x + region.width) / 100) * img.naturalWidth) - x),
+    height: Math.max(1, Math.round(((region.y + region.height) / 100) * img.naturalHeight) - y)
+  };
+};
+
+/**
+ * Crop a region out of a design
+ * @param image Design image URL or data URL
+ * @param region Region in percent of the design
+ * @returns PNG data URL of the region at the design's resolution
+ */
+export const cropImageRegion = async (image: string, region: BoundingBox): Promise<string> => {
+  const img = await loadImage(image);
+  const rect = toPixelRect(region, img);
+  const { canvas, ctx } = createCanvas(rect.width, rect.height);
+
+  ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Center an image in a white square, e.g. to send it where only certain sizes are accepted
+ * @param image Image URL or data URL
+ * @param size Side of the square in pixels
+ * @returns PNG data URL of the square, with the image scaled to fit inside it
+ */
+export const letterboxImage = async (image: string, size: number): Promise<string> => {
+  const img = await loadImage(image);
+  const { canvas, ctx } = createCanvas(size, size);
+  const scale = Math.min(size / img.naturalWidth, size / img.naturalHeight);
+  const width = img.naturalWidth * scale;
+  const height = img.naturalHeight * scale;
+
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, size, size);
+  ctx.drawImage(img, (size - width) / 2, (size - height) / 2, width, height);
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Paste an improved region back into a design
+ * Generated images can come back at another size, letterboxed into a square like the
+ * images sent for generation; the centered area with the region's shape is used.
+ * @param image Original design image URL or data URL
+ * @param region Region in percent of the design
+ * @param regionImage The improved region
+ * @returns PNG data URL of the design, unchanged outside the region
+ */
+export const compositeImageRegion = async (image: string, region: BoundingBox, regionImage: string): Promise<string> => {
+  const [img, regionImg] = await Promise.all([loadImage(image), loadImage(regionImage)]);
+  const rect = toPixelRect(region, img);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+
+  ctx.drawImage(img, 0, 0);
+
+  // Largest centered area of the generated image with the region's aspect ratio
+  const aspectRatio = rect.width / rect.height;
+  const sourceWidth = Math.min(regionImg.naturalWidth, regionImg.naturalHeight * aspectRatio);
+  const sourceHeight = sourceWidth / aspectRatio;
+  const sourceX = (regionImg.naturalWidth - sourceWidth) / 2;
+  const sourceY = (regionImg.naturalHeight - sourceHeight) / 2;
+
+  ctx.clearRect(rect.x, rect.y, rect.width, rect.height);
+  ctx.drawImage(regionImg, sourceX, sourceY, sourceWidth, sourceHeight, rect.x, rect.y, rect.width, rect.height);
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,127 @@
+/**
+ * SVG Export Service
+ * Draws a design's components as an SVG with one `<g>` group per component, nested like
+ * the components and with ids matching `DetectedComponent.id`, so the layers stay
+ * editable in Illustrator, Inkscape or Figma.
+ */
+
+import { DetectedComponent } from '../types';
+import { inferComponentConfig } from './aiComponentService';
+import { buildComponentTree } from './componentTreeService';
+import { parseCssColor, parsePixels, parseFontWeight, FigmaColor } from './figmaExportService';
+
+export interface SvgExportOptions {
+  name: string;
+  imageSize?: { width: number, height: number };
+  image?: string; // Added as a locked background layer when given
+}
+
+// Used when the design's pixel size isn't known; boxes are percentages either way
+const DEFAULT_SIZE = { width: 1440, height: 1024 };
+
+const DEFAULT_FONT_FAMILY = 'Inter, Arial, sans-serif';
+const DEFAULT_FONT_SIZE = 16;
+
+// Horizontal space between a component's edge and its label
+const TEXT_INSET = 12;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const toHex = (color: FigmaColor): string =>
+  `#${[color.r, color.g, color.b].map(channel => Math.round(channel * 255).toString(16).padStart(2, '0')).join('')}`;
+
+// SVG 1.1 editors don't understand rgba(), so alpha goes into a separate opacity attribute
+const getPaintAttributes = (value: unknown, attribute: 'fill' | 'stroke'): string | null => {
+  const color = parseCssColor(value);
+  if (color) {
+    if (color.a === 0) return null;
+    return color.a < 1
+      ? `${attribute}="${toHex(color)}" ${attribute}-opacity="${round(color.a)}"`
+      : `${attribute}="${toHex(color)}"`;
+  }
+
+  // Named colors pass through; transparent means no paint
+  if (typeof value === 'string' && /^[a-z]+$/i.test(value.trim()) && value.trim().toLowerCase() !== 'transparent') {
+    return `${attribute}="${value.trim().toLowerCase()}"`;
+  }
+
+  return null;
+};
+
+/**
+ * Draw a design's components as an SVG document
+ * @param components Flat list of components (with bounding boxes) linked by parentId
+ * @param options Document name, the design's pixel size and optionally its image
+ * @returns SVG markup
+ */
+export const generateDesignSvg = (components: DetectedComponent[], options: SvgExportOptions): string => {
+  const size = options.imageSize || DEFAULT_SIZE;
+
+  // Boxes are percentages of the whole design
+  const toPixels = (box: DetectedComponent['boundingBox']) => ({
+    x: round((box.x / 100) * size.width),
+    y: round((box.y / 100) * size.height),
+    width: round((box.width / 100) * size.width),
+    height: round((box.height / 100) * size.height)
+  });
+
+  const renderText = (component: DetectedComponent, box: ReturnType<typeof toPixels>, centered: boolean, indent: string): string => {
+    const { attributes } = component;
+    const text = typeof attributes.text === 'string' ? attributes.text.trim() : '';
+    if (!text) return '';
+
+    // Without a detected size, pick one that fits the box
+    const fontSize = parsePixels(attributes.fontSize) || Math.max(8, Math.min(DEFAULT_FONT_SIZE, Math.round(box.height * 0.6)));
+    const fontWeight = parseFontWeight(attributes.fontWeight);
+    const fontFamily = typeof attributes.fontFamily === 'string' ? attributes.fontFamily : DEFAULT_FONT_FAMILY;
+    const fill = getPaintAttributes(attributes.textColor, 'fill') || getPaintAttributes(attributes.color, 'fill') || 'fill="#000000"';
+    const inset = Math.min(TEXT_INSET, box.width / 4);
+
+    const position = centered
+      ? `x="${round(box.x + box.width / 2)}" text-anchor="middle"`
+      : `x="${round(box.x + inset)}"`;
+
+    return `${indent}<text id="${escapeXml(component.id)}-text" ${position} y="${round(box.y + box.height / 2)}" dominant-baseline="central" font-family="${escapeXml(fontFamily)}" font-size="${fontSize}"${fontWeight ? ` font-weight="${fontWeight}"` : ''} ${fill}>${escapeXml(text)}</text>`;
+  };
+
+  const renderComponent = (component: DetectedComponent, indent: string): string => {
+    const { attributes } = component;
+    const config = inferComponentConfig(component, {});
+    const box = toPixels(component.boundingBox);
+    const radius = parsePixels(attributes.borderRadius);
+    const fill = getPaintAttributes(attributes.backgroundColor, 'fill') || 'fill="none"';
+    const stroke = getPaintAttributes(attributes.borderColor, 'stroke');
+    const strokeWidth = stroke ? ` stroke-width="${parsePixels(attributes.borderWidth) || 1}"` : '';
+
+    const lines = [
+      `${indent}<g id="${escapeXml(component.id)}" inkscape:label="${escapeXml(component.type)}" data-type="${escapeXml(component.type)}">`,
+      `${indent}  <rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}"${radius ? ` rx="${radius}"` : ''} ${fill}${stroke ? ` ${stroke}${strokeWidth}` : ''} />`,
+      renderText(component, box, config.type === 'Button', `${indent}  `),
+      ...(component.children || []).map(child => renderComponent(child, `${indent}  `)),
+      `${indent}</g>`
+    ];
+
+    return lines.filter(Boolean).join('\n');
+  };
+
+  const background = options.image
+    ? `  <g id="design-image" inkscape:label="Original design" inkscape:groupmode="layer" sodipodi:insensitive="true">\n    <image x="0" y="0" width="${size.width}" height="${size.height}" href="${escapeXml(options.image)}" xlink:href="${escapeXml(options.image)}" preserveAspectRatio="none" />\n  </g>\n`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" xmlns:sodipodi="http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd" width="${size.width}" height="${size.height}" viewBox="0 0 ${size.width} ${size.height}">
+  <title>${escapeXml(options.name)}</title>
+${background}  <g id="components" inkscape:label="Components" inkscape:groupmode="layer">
+${buildComponentTree(components).map(component => renderComponent(component, '    ')).join('\n')}
+  </g>
+</svg>
+`;
+};
@@ -0,0 +1,21 @@
+/**
+ * Test Fixtures
+ * Builders for the data the service tests share
+ */
+
+import { DetectedComponent } from '../types';
+
+/**
+ * Build a detected component
+ * @param id Component id
+ * @param overrides Fields to change from a 10% square button at the top left without attributes
+ * @returns The component
+ */
+export const createComponent = (id: string, overrides: Partial<DetectedComponent> = {}): DetectedComponent => ({
+  id,
+  type: 'button',
+  confidence: 1,
+  boundingBox: { x: 0, y: 0, width: 10, height: 10 },
+  attributes: {},
+  ...overrides
+});
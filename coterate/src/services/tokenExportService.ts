@@ -0,0 +1,120 @@
+/**
+ * Token Export Service
+ * Writes a page's design tokens in the formats frontends consume: CSS custom properties,
+ * a Tailwind theme extension and Style Dictionary JSON. Token names are kept as they are
+ * (color-1, spacing-2, …) so the same token has the same name in every format.
+ */
+
+import { DesignToken, DesignTokenSet } from '../types';
+import { DesignTokenGroup, DESIGN_TOKEN_GROUPS, TOKEN_PREFIXES } from './designTokenService';
+
+export type TokenExportFormat = 'css' | 'tailwind' | 'style-dictionary';
+
+export interface TokenExportFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+}
+
+// Tailwind theme key for each group
+const TAILWIND_KEYS: Record<DesignTokenGroup, string> = {
+  colors: 'colors',
+  fontSizes: 'fontSize',
+  radii: 'borderRadius',
+  spacing: 'spacing'
+};
+
+// Style Dictionary category and type (CTI) for each group
+const STYLE_DICTIONARY_PATHS: Record<DesignTokenGroup, [string, string]> = {
+  colors: ['color', 'base'],
+  fontSizes: ['size', 'font'],
+  radii: ['size', 'radius'],
+  spacing: ['size', 'spacing']
+};
+
+// Colors are hex strings already; everything else is in pixels
+const formatValue = (group: DesignTokenGroup, token: DesignToken): string =>
+  group === 'colors' ? String(token.value) : `${token.value}px`;
+
+// Last part of a token's name, e.g. "3" for font-size-3
+const getItemName = (group: DesignTokenGroup, token: DesignToken): string =>
+  token.name.startsWith(`${TOKEN_PREFIXES[group]}-`) ? token.name.slice(TOKEN_PREFIXES[group].length + 1) : token.name;
+
+const groupsWithTokens = (tokens: DesignTokenSet): DesignTokenGroup[] =>
+  DESIGN_TOKEN_GROUPS.filter(group => (tokens[group] || []).length > 0);
+
+/**
+ * CSS custom properties on :root
+ * @param tokens Token set
+ * @returns Stylesheet
+ */
+export const generateCssVariables = (tokens: DesignTokenSet): string => {
+  const sections = groupsWithTokens(tokens).map(group =>
+    tokens[group].map(token => `  --${token.name}: ${formatValue(group, token)};`).join('\n')
+  );
+
+  return `/* Design tokens exported from Coterate */\n:root {\n${sections.join('\n\n')}\n}\n`;
+};
+
+/**
+ * Tailwind config extending the theme, so the default scales stay available
+ * @param tokens Token set
+ * @returns tailwind.config.js source
+ */
+export const generateTailwindConfig = (tokens: DesignTokenSet): string => {
+  const extend: Record<string, Record<string, string>> = {};
+
+  groupsWithTokens(tokens).forEach(group => {
+    extend[TAILWIND_KEYS[group]] = Object.fromEntries(
+      tokens[group].map(token => [token.name, formatValue(group, token)])
+    );
+  });
+
+  const theme = JSON.stringify({ extend }, null, 2).replace(/\n/g, '\n  ');
+
+  return `/** Design tokens exported from Coterate */\n/** @type {import('tailwindcss').Config} */\nmodule.exports = {\n  theme: ${theme}\n};\n`;
+};
+
+/**
+ * Style Dictionary tokens, grouped by category and type
+ * @param tokens Token set
+ * @returns Token JSON
+ */
+export const generateStyleDictionary = (tokens: DesignTokenSet): string => {
+  const dictionary: Record<string, Record<string, Record<string, { value: string, comment?: string }>>> = {};
+
+  groupsWithTokens(tokens).forEach(group => {
+    const [category, type] = STYLE_DICTIONARY_PATHS[group];
+    dictionary[category] = dictionary[category] || {};
+    dictionary[category][type] = Object.fromEntries(
+      tokens[group].map(token => [
+        getItemName(group, token),
+        { value: formatValue(group, token), ...(token.locked ? { comment: 'Locked in Coterate' } : {}) }
+      ])
+    );
+  });
+
+  return `${JSON.stringify(dictionary, null, 2)}\n`;
+};
+
+/**
+ * Build the file for a token export format
+ * @param tokens Token set
+ * @param format Export format
+ * @param baseName File name without extension
+ * @returns File name, contents and MIME type
+ */
+export const createTokenExportFile = (
+  tokens: DesignTokenSet,
+  format: TokenExportFormat,
+  baseName: string
+): TokenExportFile => {
+  switch (format) {
+    case 'css':
+      return { fileName: `${baseName}-tokens.css`, content: generateCssVariables(tokens), mimeType: 'text/css' };
+    case 'tailwind':
+      return { fileName: 'tailwind.config.js', content: generateTailwindConfig(tokens), mimeType: 'text/javascript' };
+    case 'style-dictionary':
+      return { fileName: `${baseName}-tokens.json`, content: generateStyleDictionary(tokens), mimeType: 'application/json' };
+  }
+};
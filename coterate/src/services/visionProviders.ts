@@ -0,0 +1,184 @@
+// Vision Model Providers for Coterate
+// Every multimodal model call in the component pipeline goes through the active provider,
+// so the pipeline can run against OpenAI, Anthropic or a local OpenAI-compatible model.
+// All of them are called through the serverless routes; no API key reaches the browser.
+
+import { VisionProviderId, VisionProviderSettings } from '../types';
+import detectComponentsFixture from '../fixtures/mock-ai/detect-components.json';
+import analyzeComponentsFixture from '../fixtures/mock-ai/analyze-components.json';
+import analysisFixture from '../fixtures/mock-ai/analysis.json';
+import { aiApiClient, setMockAIEnabled } from './aiApiClient';
+
+// Serverless routes that hold the API keys, one per pipeline task
+const VISION_TASK_ROUTES: Record<VisionTask, string> = {
+  'detect-components': '/api/detect-components',
+  'analyze-components': '/api/analyze-components',
+  'analysis': '/api/analysis'
+};
+
+// Default models for each provider
+const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-latest';
+const DEFAULT_LOCAL_MODEL = 'llava';
+
+// Pipeline step a request belongs to; the mock provider replays a fixture per task
+export type VisionTask = 'detect-components' | 'analyze-components' | 'analysis';
+
+// A single prompt, optionally with an image, sent to a vision model
+export interface VisionRequest {
+  task: VisionTask;
+  systemPrompt?: string;
+  prompt: string;
+  imageBase64?: string; // Token limits and temperature are set per task by its serverless route
+  signal?: AbortSignal; // Cancels the request, e.g. when its background job is cancelled
+}
+
+export interface VisionModelProvider {
+  id: VisionProviderId;
+  name: string;
+  model: string;
+  /**
+   * Send a request to the model
+   * @param request Prompt and optional image
+   * @returns The text content of the model's reply
+   */
+  complete: (request: VisionRequest) => Promise<string>;
+}
+
+export const DEFAULT_VISION_PROVIDER_SETTINGS: VisionProviderSettings = {
+  provider: 'openai'
+};
+
+// Send a request through the authenticated serverless route for its task. The routes
+// hold every provider's key and choose the sampling parameters.
+const completeOnServer = async (
+  provider: VisionProviderId,
+  model: string | undefined,
+  request: VisionRequest
+): Promise<string> => {
+  const response = await aiApiClient.post(VISION_TASK_ROUTES[request.task], {
+    provider,
+    model,
+    systemPrompt: request.systemPrompt,
+    prompt: request.prompt,
+    imageBase64: request.imageBase64
+  }, {
+    signal: request.signal
+  });
+  
+  return response.data.content || '';
+};
+
+/**
+ * OpenAI provider. The serverless routes choose the model.
+ * @returns Vision model provider
+ */
+export const createOpenAIProvider = (): VisionModelProvider => ({
+  id: 'openai',
+  name: 'OpenAI',
+  model: DEFAULT_OPENAI_MODEL,
+  complete: (request) => completeOnServer('openai', undefined, request)
+});
+
+/**
+ * Anthropic provider, using the server's ANTHROPIC_API_KEY
+ * @param model Optional model override
+ * @returns Vision model provider
+ */
+export const createAnthropicProvider = (model: string = DEFAULT_ANTHROPIC_MODEL): VisionModelProvider => ({
+  id: 'anthropic',
+  name: 'Anthropic',
+  model,
+  complete: (request) => completeOnServer('anthropic', model, request)
+});
+
+/**
+ * Local provider for the OpenAI-compatible server the deployment points LOCAL_AI_ENDPOINT at,
+ * such as Ollama
+ * @param model Model name on that server
+ * @returns Vision model provider
+ */
+export const createLocalProvider = (model: string = DEFAULT_LOCAL_MODEL): VisionModelProvider => ({
+  id: 'local',
+  name: 'Local model',
+  model,
+  complete: (request) => completeOnServer('local', model, request)
+});
+
+// Recorded responses replayed by the mock provider
+const MOCK_FIXTURES: Record<VisionTask, unknown> = {
+  'detect-components': detectComponentsFixture,
+  'analyze-components': analyzeComponentsFixture,
+  'analysis': analysisFixture
+};
+
+/**
+ * Mock provider that replays recorded fixture responses, for working offline
+ * @returns Vision model provider
+ */
+export const createMockProvider = (): VisionModelProvider => ({
+  id: 'mock',
+  name: 'Mock AI',
+  model: 'fixtures',
+  complete: async (request) => {
+    if (request.signal?.aborted) {
+      throw new Error('The request was cancelled');
+    }
+    
+    const fixture = MOCK_FIXTURES[request.task];
+    
+    if (!fixture) {
+      throw new Error(`No mock fixture recorded for task: ${request.task}`);
+    }
+    
+    return JSON.stringify(fixture, null, 2);
+  }
+});
+
+/**
+ * Whether mock mode is forced for this build with REACT_APP_MOCK_AI=true
+ * @returns True if every AI call must use recorded fixtures
+ */
+export const isMockAIForced = (): boolean => process.env.REACT_APP_MOCK_AI === 'true';
+
+/**
+ * Create the provider described by a user's settings
+ * @param settings Provider settings
+ * @returns Vision model provider
+ */
+export const createVisionProvider = (settings: VisionProviderSettings): VisionModelProvider => {
+  if (isMockAIForced()) {
+    return createMockProvider();
+  }
+  
+  switch (settings.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'anthropic':
+      return createAnthropicProvider(settings.model || undefined);
+    case 'local':
+      return createLocalProvider(settings.model || undefined);
+    case 'openai':
+    default:
+      return createOpenAIProvider();
+  }
+};
+
+let activeProvider: VisionModelProvider = createVisionProvider(DEFAULT_VISION_PROVIDER_SETTINGS);
+setMockAIEnabled(activeProvider.id === 'mock');
+
+/**
+ * Get the provider used by the component pipeline
+ * @returns The active vision model provider
+ */
+export const getVisionProvider = (): VisionModelProvider => activeProvider;
+
+/**
+ * Switch the provider used by the component pipeline
+ * @param settings Provider settings
+ */
+export const setVisionProvider = (settings: VisionProviderSettings) => {
+  activeProvider = createVisionProvider(settings);
+  setMockAIEnabled(activeProvider.id === 'mock');
+  console.log(`Using ${activeProvider.name} (${activeProvider.model}) for vision model calls`);
+};
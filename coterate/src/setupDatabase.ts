@@ -48,12 +48,27 @@ export const setupDatabase = async () => {
       console.log('User_settings table exists and is accessible.');
     }
     
+    // Check if the design_iterations table exists
+    const { error: iterationsCheckError } = await supabase
+      .from('design_iterations')
+      .select('id')
+      .limit(1);
+    
+    if (iterationsCheckError) {
+      console.log('Design_iterations table needs to be created or is not accessible');
+      // We can't create tables directly with the JS client
+      console.log('Please create the design_iterations table in the Supabase dashboard');
+    } else {
+      console.log('Design_iterations table exists and is accessible.');
+    }
+    
     return {
       success: true,
       tables: {
         pages: !pagesCheckError,
         components: !componentsCheckError,
-        user_settings: !userSettingsCheckError
+        user_settings: !userSettingsCheckError,
+        design_iterations: !iterationsCheckError
       }
     };
   } catch (error) {
@@ -64,7 +79,8 @@ export const setupDatabase = async () => {
       tables: {
         pages: false,
         components: false,
-        user_settings: false
+        user_settings: false,
+        design_iterations: false
       }
     };
   }
@@ -14,16 +14,75 @@ export interface DesignIteration {
   label: string;
   iterationType: 'base' | 'improved';
   iterationNumber: number;
-  analysis?: string;
+  parentId?: string; // Iteration this design was derived from
+  analysis?: DesignAnalysis | string; // Strings are free-text analyses saved before DesignAnalysis existed
   components?: DetectedComponent[];
   position?: { x: number, y: number }; // Position for dragging
   figmaData?: FigmaData; // Figma-specific data
+  variant?: IterationVariant; // Set on alternative improvements generated together
+  thread?: RefinementMessage[]; // Refinement conversation that led to and continues from this design
+}
+
+// One turn of a refinement conversation
+export interface RefinementMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  iterationId?: string; // Design an assistant turn created
+  createdAt: string; // ISO timestamp
+}
+
+// Directions a variant can take an improvement in
+export type ImprovementDirection = 'minimal' | 'bold' | 'accessible' | 'compact';
+
+// One of several alternative improvements of the same design, generated in one run
+export interface IterationVariant {
+  groupId: string; // Shared by all variants of the run
+  direction: ImprovementDirection;
+  starred?: boolean; // The variant picked as the winner of its run
 }
 
 // Interface for AI service result
 export interface AIResult {
   image: string;
-  analysis: any;
+  analysis: DesignAnalysis;
+}
+
+// How much a design issue hurts the design
+export type DesignIssueSeverity = 'critical' | 'major' | 'minor';
+
+export type DesignIssueCategory =
+  | 'hierarchy'
+  | 'color'
+  | 'typography'
+  | 'spacing'
+  | 'consistency'
+  | 'accessibility'
+  | 'usability';
+
+// A property the improvement changes, with its value before and after
+export interface DesignIssueChange {
+  property: string;
+  before?: string | number;
+  after?: string | number;
+}
+
+// One problem found in a design, and how the improvement addresses it
+export interface DesignIssue {
+  id: string;
+  title: string;
+  severity: DesignIssueSeverity;
+  category: DesignIssueCategory;
+  componentIds: string[]; // Components of the design the issue affects; empty for design-wide issues
+  changes: DesignIssueChange[];
+  rationale: string;
+}
+
+// Structured result of analysing a design for improvements
+export interface DesignAnalysis {
+  summary: string;
+  componentCount?: number;
+  issues: DesignIssue[];
 }
 
 // Interface for component result
@@ -55,17 +114,37 @@ export interface DetectedComponent {
     [key: string]: any;
   };
   page_id?: string;
+  iterationId?: string; // Design iteration the component was detected in
+  parentId?: string; // Component this one is nested in, e.g. the card around a button
+  children?: DetectedComponent[]; // Only filled in on trees built by componentTreeService
   z_index?: number;
   created_at?: string;
   updated_at?: string;
 }
 
+// A value shared across a page's designs, e.g. a palette color or a step of the type scale.
+// Keys are single words because pages are saved through camelToSnake.
+export interface DesignToken {
+  name: string;
+  value: string | number; // Hex color for colors, pixels for the scales
+  usage: number; // How many component attributes use the value or one close to it
+  locked?: boolean; // Kept as is when tokens are extracted again, and passed to the AI
+}
+
+export interface DesignTokenSet {
+  colors: DesignToken[];
+  fontSizes: DesignToken[];
+  radii: DesignToken[];
+  spacing: DesignToken[];
+}
+
 // Interface for Page (formerly Persona)
 export interface Page {
   id: string;
   name: string;
   baseImage?: string;
   iteratedImage?: string;
+  designTokens?: DesignTokenSet; // Extracted from the page's designs; locked tokens guide improvements
   user_id?: string;
   created_at?: string;
   updated_at?: string;
@@ -80,4 +159,50 @@ export interface PageContextType {
   deletePage: (id: string) => void;
   setCurrentPage: (page: Page) => void;
   renamePage: (id: string, newName: string) => void;
-} 
\ No newline at end of file
+} 
+
+// AI provider used for vision model calls
+export type VisionProviderId = 'openai' | 'anthropic' | 'local' | 'mock';
+
+// Provider choice as stored in the user's settings
+export interface VisionProviderSettings {
+  provider: VisionProviderId;
+  model?: string;
+}
+
+// Brand rules every AI prompt has to follow
+export interface DesignSystemProfile {
+  colors: string[]; // Allowed colors, as hex
+  fonts: string[]; // Allowed font families
+  radiusRule: string; // e.g. "8px on buttons and inputs, 12px on cards"
+  tone: string; // e.g. "Calm and professional, generous whitespace"
+}
+
+// How AI results are reused instead of asking again
+export interface AICacheSettings {
+  enabled: boolean; // Keep results on this device
+  shareWithTeam: boolean; // Also keep them in Supabase, where everyone's runs can use them
+}
+
+// Interface for the settings stored per user
+export interface UserSettings {
+  aiProvider: VisionProviderSettings;
+  designSystem?: DesignSystemProfile;
+  aiCache?: AICacheSettings;
+}
+
+// Interface for Settings Context
+export interface SettingsContextType {
+  settings: UserSettings;
+  loading: boolean;
+  updateSettings: (updates: Partial<UserSettings>) => Promise<void>;
+}
+
+// Quota details sent by the AI routes with a 429 QUOTA_EXCEEDED error
+export interface AIQuotaExceeded {
+  scope: 'user' | 'ip';
+  metric: 'requests' | 'tokens' | 'images';
+  limit: number;
+  used: number;
+  resetAt: string; // ISO timestamp when the daily quota resets
+}